@@ -1,107 +1,688 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { ImageUpload } from './components/ImageUpload';
-import { ChatInterface } from './components/ChatInterface';
+import { ChatInterface, CHAT_GREETING } from './components/ChatInterface';
 import { LoadingSpinner } from './components/LoadingSpinner';
-import { generateStoryFromImage, generateSpeech } from './services/geminiService';
-import { BookOpen, RefreshCw, Volume2, StopCircle, Mic } from 'lucide-react';
+import { StoryLibrary } from './components/StoryLibrary';
+import { SceneAnalysisPanel } from './components/SceneAnalysisPanel';
+import { StorySettingsForm } from './components/StorySettingsForm';
+import { VariantComparison } from './components/VariantComparison';
+import { StoryEditor } from './components/StoryEditor';
+import { VersionHistory } from './components/VersionHistory';
+import { ErrorNotice } from './components/ErrorNotice';
+import { StoryboardStrip } from './components/StoryboardStrip';
+import { StoryboardView } from './components/StoryboardView';
+import { DraftEditReview } from './components/DraftEditReview';
+import { StoryBiblePanel } from './components/StoryBiblePanel';
+import { UsageDashboard } from './components/UsageDashboard';
+import { ExportMenu } from './components/ExportMenu';
+import { StorybookView } from './components/StorybookView';
+import { SafetyMenu } from './components/SafetyMenu';
+import {
+  generateStoryFromImage,
+  getStoryModelName,
+  createCoAuthorSession,
+  CoAuthorSession,
+  analyzeScene,
+  generateStoryVariants,
+  continueStory,
+  editSelection,
+  writeChapter,
+  DraftEditOptions,
+} from './services/geminiService';
+import { createSessionId, deriveTitle, saveSession } from './services/storyLibrary';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID, SelectionEdit, findTemplate } from './services/promptBuilder';
+import {
+  loadStorySettings,
+  saveStorySettings,
+  loadUserTemplates,
+  saveUserTemplates,
+  loadImageOptions,
+  saveImageOptions,
+  loadSafetySettings,
+  saveSafetySettings,
+} from './services/preferences';
+import { MuseError, toMuseError } from './services/errors';
+import { setUsageSession, subscribeToUsage } from './services/usage';
+import { ExportFormat, exportStory } from './services/storyExport';
+import { toDataUrl } from './services/imagePreprocessor';
+import { ChatMessage, DraftEdit, DraftVersion, ImagePayload, ImagePreprocessOptions, PromptTemplate, SafetySettings, SceneAnalysis, StoryBibleEntry, StoryChapter, StorySession, StorySettings } from './types';
+import { isAbortError } from './utils/abort';
+import { joinChapters, slugify, splitSentences } from './utils/text';
+import { activePath, transcriptOf, turnsOf } from './utils/chatTree';
+import { encodeMp3, encodeWav } from './utils/audioUtils';
+import { downloadFile } from './utils/download';
+import { useNarration } from './hooks/useNarration';
+import { useStoryBible } from './hooks/useStoryBible';
+import { useStorybook } from './hooks/useStorybook';
+import { NarrationText } from './components/NarrationText';
+import { NarrationPlayer } from './components/NarrationPlayer';
+import { BookOpen, RefreshCw, Volume2, StopCircle, Mic, Square, Library, SlidersHorizontal, Images, Coins, Wallet, BookImage, X } from 'lucide-react';
+
+const AUTOSAVE_DELAY_MS = 800;
+const VERSION_DELAY_MS = 2000; // Typing pause before an edit becomes a version
+const MAX_VERSIONS = 50;
+
+const SELECTION_EDIT_LABELS: Record<SelectionEdit, string> = {
+  rewrite: 'Rewrote selection',
+  expand: 'Expanded selection',
+  condense: 'Condensed selection',
+};
+
+// A failed request the user can re-run from its error notice
+interface FailedAction {
+  error: MuseError;
+  context: string;
+  retry: () => void;
+  rephrase?: () => void; // Re-runs it steering clear of a safety block
+}
 
 const App: React.FC = () => {
-  const [image, setImage] = useState<string | null>(null);
-  const [mimeType, setMimeType] = useState<string>('');
+  const [image, setImage] = useState<ImagePayload | null>(null);
   const [story, setStory] = useState<string>('');
   const [isGenerating, setIsGenerating] = useState(false);
-  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
+  const [messages, setMessages] = useState<ChatMessage[]>([CHAT_GREETING]);
+  const [coAuthorSession, setCoAuthorSession] = useState<CoAuthorSession | null>(null);
+  // Every edit the co-author has proposed; pending ones are reviewed on the draft
+  const [draftEdits, setDraftEdits] = useState<DraftEdit[]>([]);
+  const [analysis, setAnalysis] = useState<SceneAnalysis | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisError, setAnalysisError] = useState<MuseError | null>(null);
+  const [pinnedDetails, setPinnedDetails] = useState<string[]>([]);
+  const [storySettings, setStorySettings] = useState<StorySettings>(loadStorySettings);
+  const [userTemplates, setUserTemplates] = useState<PromptTemplate[]>(loadUserTemplates);
+  const [imageOptions, setImageOptions] = useState<ImagePreprocessOptions>(loadImageOptions);
+  // Saved as soon as it changes; the services read it on every call
+  const [safety, setSafety] = useState<SafetySettings>(loadSafetySettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // Takes being compared; null when the draft is shown directly
+  const [variants, setVariants] = useState<(string | null)[] | null>(null);
+  const [versions, setVersions] = useState<DraftVersion[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isListening, setIsListening] = useState(false);
+  const [draftError, setDraftError] = useState<FailedAction | null>(null);
+  // Storyboard mode: one chapter per image, joined into the draft
+  const [chapters, setChapters] = useState<StoryChapter[] | null>(null);
+  const [writingChapter, setWritingChapter] = useState<number | null>(null);
+  // Model that wrote the draft, kept with the story since the provider only knows the latest one
+  const [storyModel, setStoryModel] = useState<string | null>(null);
+  // Images being arranged on the landing page before the storyboard is written
+  const [storyboardDraft, setStoryboardDraft] = useState<ImagePayload[] | null>(null);
+  const narration = useNarration(story);
+  const isNarrationStale = narration.isStale;
+  const bible = useStoryBible(story, messages, !image || isGenerating || !!variants);
+  const storybook = useStorybook(story, image, bible.entries);
+  const templates = [...BUILT_IN_TEMPLATES, ...userTemplates];
+  const pendingEdits = draftEdits.filter(edit => edit.status === 'pending');
+
+  // Library state: which saved session is open and whether the sidebar is shown
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isStorybookOpen, setIsStorybookOpen] = useState(false);
+  const [budgetWarning, setBudgetWarning] = useState<string | null>(null);
+  const [libraryVersion, setLibraryVersion] = useState(0);
   
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
+  const generationRef = useRef<AbortController | null>(null);
+  const analysisRef = useRef<AbortController | null>(null);
+  const createdAtRef = useRef(0);
+  const skipNextSaveRef = useRef(false);
+  const pendingVersionLabelRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    coAuthorSession?.setDraft(story);
+  }, [coAuthorSession, story]);
+
+  useEffect(() => {
+    coAuthorSession?.setEdits(draftEdits);
+  }, [coAuthorSession, draftEdits]);
+
+  useEffect(() => {
+    coAuthorSession?.setBible(bible.entries);
+  }, [coAuthorSession, bible.entries]);
+
+  useEffect(() => subscribeToUsage(event => {
+    if (event.type === 'over-budget') setBudgetWarning(event.message);
+  }), []);
+
+  useEffect(() => {
+    saveStorySettings(storySettings);
+  }, [storySettings]);
+
+  useEffect(() => {
+    saveImageOptions(imageOptions);
+  }, [imageOptions]);
+
+  useEffect(() => {
+    saveSafetySettings(safety);
+  }, [safety]);
+
+  useEffect(() => {
+    if (chapters) setStory(joinChapters(chapters));
+  }, [chapters]);
 
-  // Initialize AudioContext
+  // Snapshot the draft into the version history once it stops changing
   useEffect(() => {
-    audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({
-      sampleRate: 24000
+    if (!image || isGenerating || variants) return;
+    const timer = setTimeout(() => {
+      addVersion(story, pendingVersionLabelRef.current ?? 'Edited');
+      pendingVersionLabelRef.current = null;
+    }, VERSION_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [story, image, isGenerating, variants]);
+
+  // The open story as the library stores it
+  const buildSession = (id: string, cover: ImagePayload): StorySession => ({
+    id,
+    title,
+    image: cover,
+    chapters: chapters ?? undefined,
+    generatedText: story,
+    messages,
+    draftEdits,
+    bible: bible.entries,
+    storybook: storybook.storybook,
+    narration: narration.saved?.pcm ?? null,
+    narratedText: narration.saved?.text,
+    narrationSentences: narration.saved?.sentences,
+    versions,
+    analysis,
+    pinnedDetails,
+    settings: storySettings,
+    model: storyModel ?? undefined,
+    createdAt: createdAtRef.current,
+    updatedAt: Date.now(),
+  });
+
+  // Autosave the open session once things settle
+  useEffect(() => {
+    if (!sessionId || !image || isGenerating) return;
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false; // Just reopened, nothing changed yet
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      saveSession(buildSession(sessionId, image))
+        .then(() => setLibraryVersion(v => v + 1))
+        .catch(e => console.error("Failed to save session", e));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sessionId, title, image, chapters, story, messages, draftEdits, bible.entries, storybook.storybook, narration.saved, versions, analysis, pinnedDetails, storySettings, storyModel, isGenerating]);
+
+  // Aborts any in-flight generation so a late response can't overwrite newer state
+  const cancelGeneration = () => {
+    generationRef.current?.abort();
+    generationRef.current = null;
+    setIsGenerating(false);
+    setWritingChapter(null);
+  };
+
+  const addVersion = (text: string, label: string) => {
+    setVersions(prev => {
+      if (!text.trim() || prev[prev.length - 1]?.text === text) return prev;
+      return [...prev, { id: crypto.randomUUID(), text, label, createdAt: Date.now() }].slice(-MAX_VERSIONS);
     });
-    return () => {
-      audioContextRef.current?.close();
+  };
+
+  const cancelAnalysis = () => {
+    analysisRef.current?.abort();
+    analysisRef.current = null;
+    setIsAnalyzing(false);
+  };
+
+  // Streams a story for the given image into the draft, replacing what is there
+  // `blocked` is the safety block of an attempt being rephrased
+  const runStoryGeneration = async (source: ImagePayload, pins: string[], bibleEntries: StoryBibleEntry[] = bible.entries, blocked?: MuseError) => {
+    cancelGeneration();
+    const controller = new AbortController();
+    generationRef.current = controller;
+
+    narration.reset();
+    setStory('');
+    setDraftError(null);
+    setIsGenerating(true);
+
+    const options = {
+      signal: controller.signal,
+      settings: storySettings,
+      template: findTemplate(templates, storySettings.templateId),
+      pinnedDetails: pins,
+      bible: bibleEntries,
+      blocked,
     };
-  }, []);
+    const variantCount = storySettings.variantCount;
 
-  const handleImageSelected = async (base64: string, type: string) => {
-    setImage(base64);
-    setMimeType(type);
-    setStory(''); // Reset story
-    setAudioBuffer(null);
+    try {
+      if (variantCount > 1) {
+        // Several takes stream side by side; the draft stays empty until one is picked
+        setVariants(Array(variantCount).fill(''));
+        const takes = await generateStoryVariants(source, variantCount, {
+          ...options,
+          onVariantChunk: (index, textSoFar) => {
+            if (!controller.signal.aborted) {
+              setVariants(prev => prev && prev.map((v, i) => (i === index ? textSoFar : v)));
+            }
+          },
+        });
+        if (!controller.signal.aborted) {
+          setVariants(takes);
+          setStoryModel(getStoryModelName());
+        }
+        return;
+      }
+
+      setVariants(null);
+      const generatedStory = await generateStoryFromImage(source, {
+        ...options,
+        onChunk: (textSoFar) => {
+          if (!controller.signal.aborted) setStory(textSoFar);
+        },
+      });
+      if (!controller.signal.aborted) {
+        pendingVersionLabelRef.current = 'Generated';
+        setStory(generatedStory);
+        setStoryModel(getStoryModelName());
+      }
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      setVariants(null);
+      const error = toMuseError(err);
+      setDraftError({
+        error,
+        context: "Couldn't write the story",
+        retry: () => runStoryGeneration(source, pins, bibleEntries, blocked),
+        rephrase: () => runStoryGeneration(source, pins, bibleEntries, error),
+      });
+    } finally {
+      if (generationRef.current === controller) {
+        generationRef.current = null;
+        setIsGenerating(false);
+      }
+    }
+  };
+
+  const runSceneAnalysis = async (source: ImagePayload) => {
+    cancelAnalysis();
+    const controller = new AbortController();
+    analysisRef.current = controller;
+    setAnalysis(null);
+    setAnalysisError(null);
+    setIsAnalyzing(true);
+
+    try {
+      const result = await analyzeScene(source, controller.signal);
+      if (!controller.signal.aborted) setAnalysis(result);
+    } catch (err) {
+      // The story still works without an analysis; the panel offers a retry
+      if (!controller.signal.aborted && !isAbortError(err)) setAnalysisError(toMuseError(err));
+    } finally {
+      if (analysisRef.current === controller) {
+        analysisRef.current = null;
+        setIsAnalyzing(false);
+      }
+    }
+  };
+
+  // Writes the given storyboard chapters in order, each picking up from the ones before it
+  const runChapterGeneration = async (frames: StoryChapter[], indices: number[], bibleEntries: StoryBibleEntry[] = bible.entries, blocked?: MuseError) => {
+    cancelGeneration();
+    const controller = new AbortController();
+    generationRef.current = controller;
+    setDraftError(null);
     setIsGenerating(true);
 
+    let current = frames;
+    let remaining = indices;
     try {
-      const generatedStory = await generateStoryFromImage(base64, type);
-      setStory(generatedStory);
+      for (const index of indices) {
+        setWritingChapter(index);
+        const setChapterText = (text: string) =>
+          setChapters(prev => prev && prev.map(c => (c.id === current[index].id ? { ...c, text } : c)));
+
+        const text = await writeChapter(current, index, storySettings, {
+          signal: controller.signal,
+          bible: bibleEntries,
+          blocked,
+          onChunk: (textSoFar) => {
+            if (!controller.signal.aborted) setChapterText(textSoFar);
+          },
+        });
+        if (controller.signal.aborted) return;
+        setChapterText(text);
+        setStoryModel(getStoryModelName());
+        current = current.map((c, i) => (i === index ? { ...c, text } : c));
+        remaining = remaining.slice(1);
+      }
+      pendingVersionLabelRef.current = indices.length === 1 ? `Rewrote chapter ${indices[0] + 1}` : 'Generated';
     } catch (err) {
-      setStory("Sorry, I was unable to read the stars for this image. Please try again.");
+      if (controller.signal.aborted || isAbortError(err)) return;
+      const error = toMuseError(err);
+      setDraftError({
+        error,
+        context: `Couldn't write chapter ${remaining[0] + 1}`,
+        retry: () => runChapterGeneration(current, remaining, bibleEntries, blocked),
+        rephrase: () => runChapterGeneration(current, remaining, bibleEntries, error),
+      });
     } finally {
-      setIsGenerating(false);
+      if (generationRef.current === controller) {
+        generationRef.current = null;
+        setIsGenerating(false);
+        setWritingChapter(null);
+      }
     }
   };
 
-  const handleReadAloud = async () => {
-    if (isPlaying) {
-      stopAudio();
-      return;
+  // Calls are attributed to the new story from the first one it makes, before any re-render
+  const switchSession = (id: string | null) => {
+    setSessionId(id);
+    setUsageSession(id);
+    setBudgetWarning(null);
+  };
+
+  // Fresh session state for a new image or storyboard, keyed on its cover image
+  const startSession = (cover: ImagePayload, isStoryboard = false) => {
+    setVersions([]);
+    setIsHistoryOpen(false);
+    pendingVersionLabelRef.current = null;
+    switchSession(createSessionId());
+    createdAtRef.current = Date.now();
+    setTitle('');
+    setImage(cover);
+    setStoryModel(null);
+    setMessages([CHAT_GREETING]);
+    setDraftEdits([]);
+    bible.reset();
+    storybook.reset();
+    // Edits apply to a single draft, not to storyboard chapters
+    setCoAuthorSession(createCoAuthorSession(cover, '', [], { allowEdits: !isStoryboard }));
+    setPinnedDetails([]);
+  };
+
+  const handleImageSelected = (selected: ImagePayload) => {
+    startSession(selected);
+    setChapters(null);
+    runSceneAnalysis(selected);
+    runStoryGeneration(selected, [], []); // The old story's bible was just cleared
+  };
+
+  const handleImagesSelected = (selected: ImagePayload[]) => {
+    // Several images, or more added to one being assembled, build up a storyboard first
+    if (selected.length > 1 || storyboardDraft) {
+      setStoryboardDraft(prev => [...(prev ?? []), ...selected]);
+    } else {
+      handleImageSelected(selected[0]);
     }
+  };
 
-    if (!story) return;
+  const handleStartStoryboard = () => {
+    if (!storyboardDraft?.length) return;
+    const frames = storyboardDraft.map(frame => ({ id: crypto.randomUUID(), image: frame, text: '' }));
+    setStoryboardDraft(null);
+    startSession(frames[0].image, true);
+    cancelAnalysis();
+    setAnalysis(null);
+    setAnalysisError(null);
+    narration.reset();
+    setVariants(null);
+    setChapters(frames);
+    runChapterGeneration(frames, frames.map((_, i) => i), []);
+  };
+
+  const handleRegenerateChapter = (index: number) => {
+    if (!chapters) return;
+    addVersion(story, 'Edited');
+    runChapterGeneration(chapters, [index]);
+  };
+
+  const handlePickVariant = (draft: string) => {
+    pendingVersionLabelRef.current = 'Chose take';
+    setVariants(null);
+    setStory(draft);
+  };
 
-    // If we already have the buffer, just play it
-    if (audioBuffer) {
-      playBuffer(audioBuffer);
+  const handleRegenerate = () => {
+    if (!image) return;
+    addVersion(story, 'Edited'); // Keep the outgoing draft restorable
+    if (chapters) {
+      const cleared = chapters.map(c => ({ ...c, text: '' }));
+      setChapters(cleared);
+      runChapterGeneration(cleared, cleared.map((_, i) => i));
       return;
     }
+    runStoryGeneration(image, pinnedDetails);
+  };
+
+  // Streams an AI edit into the draft; `compose` places the new text around what was there
+  const runDraftEdit = async (
+    label: string,
+    compose: (newText: string) => string,
+    request: (options: DraftEditOptions) => Promise<string>
+  ) => {
+    cancelGeneration();
+    const controller = new AbortController();
+    generationRef.current = controller;
+    const original = story;
+
+    addVersion(original, 'Edited');
+    pendingVersionLabelRef.current = label;
+    setIsHistoryOpen(false);
+    setDraftError(null);
+    setIsGenerating(true);
 
-    // Otherwise generate it
     try {
-      // Show some loading state on the button?
-      // For now just assume fast enough or user waits
-      const buffer = await generateSpeech(story);
-      if (buffer) {
-        setAudioBuffer(buffer);
-        playBuffer(buffer);
+      const newText = await request({
+        signal: controller.signal,
+        onChunk: (textSoFar) => {
+          if (!controller.signal.aborted) setStory(compose(textSoFar));
+        },
+      });
+      if (!controller.signal.aborted) {
+        setStory(compose(newText));
+        setStoryModel(getStoryModelName());
+      }
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      setStory(original);
+      const error = toMuseError(err);
+      setDraftError({
+        error,
+        context: "Couldn't update the draft",
+        retry: () => runDraftEdit(label, compose, request),
+        rephrase: () => runDraftEdit(label, compose, (options) => request({ ...options, blocked: error })),
+      });
+    } finally {
+      if (generationRef.current === controller) {
+        generationRef.current = null;
+        setIsGenerating(false);
       }
-    } catch (e) {
-      console.error("Failed to play audio", e);
     }
   };
 
-  const playBuffer = (buffer: AudioBuffer) => {
-    if (!audioContextRef.current) return;
-    
-    // Resume context if suspended (browser policy)
-    if (audioContextRef.current.state === 'suspended') {
-      audioContextRef.current.resume();
+  const handleContinueStory = () => {
+    if (!image) return;
+    const base = story.trimEnd();
+    runDraftEdit(
+      'Continued the story',
+      (newText) => `${base}\n\n${newText}`,
+      (options) => continueStory(image, base, storySettings, { ...options, bible: bible.entries })
+    );
+  };
+
+  const handleEditSelection = (mode: SelectionEdit, start: number, end: number) => {
+    if (!image) return;
+    const before = story.slice(0, start);
+    const after = story.slice(end);
+    runDraftEdit(
+      SELECTION_EDIT_LABELS[mode],
+      (newText) => before + newText + after,
+      (options) => editSelection(image, story, story.slice(start, end), mode, { ...options, bible: bible.entries })
+    );
+  };
+
+  const handleAcceptEdit = (edit: DraftEdit, result: string) => {
+    addVersion(story, 'Edited');
+    pendingVersionLabelRef.current = 'Co-author edit';
+    setStory(result);
+    setDraftEdits(prev => prev.map(e => (e.id === edit.id ? { ...e, status: 'accepted' } : e)));
+  };
+
+  const handleRejectEdit = (edit: DraftEdit) =>
+    setDraftEdits(prev => prev.map(e => (e.id === edit.id ? { ...e, status: 'rejected' } : e)));
+
+  const handleRestoreVersion = (version: DraftVersion) => {
+    addVersion(story, 'Edited');
+    pendingVersionLabelRef.current = 'Restored';
+    setStory(version.text);
+    setIsHistoryOpen(false);
+  };
+
+  const handleSaveTemplate = (template: PromptTemplate) => {
+    const next = userTemplates.some(t => t.id === template.id)
+      ? userTemplates.map(t => (t.id === template.id ? template : t))
+      : [...userTemplates, template];
+    setUserTemplates(next);
+    saveUserTemplates(next);
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    const next = userTemplates.filter(t => t.id !== id);
+    setUserTemplates(next);
+    saveUserTemplates(next);
+    if (storySettings.templateId === id) {
+      setStorySettings({ ...storySettings, templateId: DEFAULT_TEMPLATE_ID });
+    }
+  };
+
+  const handleTogglePin = (detail: string) => {
+    setPinnedDetails(prev =>
+      prev.includes(detail) ? prev.filter(d => d !== detail) : [...prev, detail]
+    );
+  };
+
+  const handleReadAloud = () => {
+    if (narration.isPlaying) {
+      narration.stop();
+      return;
     }
 
-    const source = audioContextRef.current.createBufferSource();
-    source.buffer = buffer;
-    source.connect(audioContextRef.current.destination);
-    source.onended = () => setIsPlaying(false);
-    
-    sourceNodeRef.current = source;
-    source.start();
-    setIsPlaying(true);
+    if (!story) return;
+    setIsListening(true);
+    if (narration.isPaused && !isNarrationStale) {
+      narration.resume();
+    } else {
+      narration.play();
+    }
+  };
+
+  const handleSentenceClick = (index: number) => {
+    narration.play(index);
   };
 
-  const stopAudio = () => {
-    if (sourceNodeRef.current) {
-      sourceNodeRef.current.stop();
-      sourceNodeRef.current = null;
+  const handleDownloadNarration = (format: 'wav' | 'mp3') => {
+    if (!narration.saved) return;
+    const name = slugify(title || deriveTitle(narration.saved.text));
+    if (format === 'wav') {
+      downloadFile(encodeWav(narration.saved.pcm), `${name}.wav`, 'audio/wav');
+    } else {
+      downloadFile(encodeMp3(narration.saved.pcm), `${name}.mp3`, 'audio/mpeg');
     }
-    setIsPlaying(false);
+  };
+
+  const handleExport = (format: ExportFormat, includeChat: boolean) => {
+    if (!sessionId || !image) return;
+    const file = exportStory(buildSession(sessionId, image), format, {
+      model: storyModel ?? getStoryModelName(),
+      templateName: findTemplate(templates, storySettings.templateId).name,
+      includeChat,
+      includeNarration: !!narration.saved && !isNarrationStale,
+    });
+    downloadFile(file.data, file.filename, file.mimeType);
+  };
+
+  // Opens the storybook, making it first if the story doesn't have one yet
+  const handleOpenStorybook = () => {
+    setIsStorybookOpen(true);
+    if (!storybook.storybook) storybook.build();
   };
 
   const handleReset = () => {
-    stopAudio();
+    cancelGeneration();
+    cancelAnalysis();
+    narration.reset();
+    switchSession(null);
+    setTitle('');
     setImage(null);
+    setStoryModel(null);
+    setChapters(null);
+    setStoryboardDraft(null);
     setStory('');
-    setAudioBuffer(null);
+    setIsListening(false);
+    setVariants(null);
+    setVersions([]);
+    setIsHistoryOpen(false);
+    setMessages([CHAT_GREETING]);
+    setDraftEdits([]);
+    bible.reset();
+    storybook.reset();
+    setIsStorybookOpen(false);
+    setCoAuthorSession(null);
+    setAnalysis(null);
+    setAnalysisError(null);
+    setDraftError(null);
+    setPinnedDetails([]);
+  };
+
+  const handleOpenSession = async (session: StorySession) => {
+    cancelGeneration();
+    cancelAnalysis();
+    setIsLibraryOpen(false);
+    if (session.narration) {
+      await narration.load({
+        text: session.narratedText ?? session.generatedText,
+        pcm: session.narration,
+        sentences: session.narrationSentences ?? [],
+      });
+    } else {
+      narration.reset();
+    }
+
+    const openedMessages = session.messages.length ? session.messages : [CHAT_GREETING];
+    // Replay the saved transcript (minus the canned greeting) into a fresh co-author
+    const history = transcriptOf(activePath(session.messages));
+
+    skipNextSaveRef.current = true;
+    pendingVersionLabelRef.current = 'Opened';
+    createdAtRef.current = session.createdAt;
+    switchSession(session.id);
+    setTitle(session.title);
+    setImage(session.image);
+    setStoryModel(session.model ?? null);
+    setChapters(session.chapters ?? null);
+    setStory(session.generatedText);
+    setVariants(null);
+    setVersions(session.versions ?? []);
+    setIsHistoryOpen(false);
+    setIsListening(false);
+    setMessages(openedMessages);
+    setDraftEdits(session.draftEdits ?? []);
+    bible.load(session.bible ?? [], session.generatedText, openedMessages);
+    storybook.load(session.storybook ?? null);
+    setIsStorybookOpen(false);
+    setCoAuthorSession(createCoAuthorSession(session.image, session.generatedText, history, { allowEdits: !session.chapters }));
+    setAnalysis(session.analysis ?? null);
+    setAnalysisError(null);
+    setDraftError(null);
+    setPinnedDetails(session.pinnedDetails ?? []);
+    if (session.settings) setStorySettings(session.settings);
+  };
+
+  const handleSessionRenamed = (id: string, newTitle: string) => {
+    if (id === sessionId) setTitle(newTitle);
+  };
+
+  const handleSessionDeleted = (id: string) => {
+    if (id === sessionId) handleReset();
   };
 
   return (
@@ -115,14 +696,66 @@ const App: React.FC = () => {
             </div>
             <h1 className="text-xl font-bold tracking-tight text-gray-900">Muse</h1>
           </div>
-          <div className="text-sm text-gray-500 hidden sm:block">
-            Powered by Gemini
+          <div className="flex items-center gap-4">
+            <div className="text-sm text-gray-500 hidden sm:block">
+              AI Creative Writing Companion
+            </div>
+            <SafetyMenu settings={safety} onChange={setSafety} />
+            <button
+              onClick={() => setIsUsageOpen(true)}
+              className="flex items-center gap-2 px-3 py-2 rounded-full text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              <Coins className="w-4 h-4" /> Usage
+            </button>
+            <button
+              onClick={() => setIsLibraryOpen(true)}
+              className="flex items-center gap-2 px-3 py-2 rounded-full text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              <Library className="w-4 h-4" /> Library
+            </button>
           </div>
         </div>
       </header>
 
+      <StoryLibrary
+        isOpen={isLibraryOpen}
+        activeSessionId={sessionId}
+        refreshKey={libraryVersion}
+        onClose={() => setIsLibraryOpen(false)}
+        onOpenSession={handleOpenSession}
+        onSessionRenamed={handleSessionRenamed}
+        onSessionDeleted={handleSessionDeleted}
+      />
+
+      <UsageDashboard isOpen={isUsageOpen} activeSessionId={sessionId} onClose={() => setIsUsageOpen(false)} />
+
+      <StorybookView
+        isOpen={isStorybookOpen}
+        storybook={storybook.storybook}
+        drawingIds={storybook.drawingIds}
+        errors={storybook.errors}
+        isBuilding={storybook.isBuilding}
+        isStale={storybook.isStale}
+        onRedraw={storybook.redraw}
+        onRebuild={storybook.build}
+        onCancel={storybook.cancel}
+        onClose={() => setIsStorybookOpen(false)}
+      />
+
       {/* Main Content */}
       <main className="flex-1 max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {budgetWarning && (
+          <div role="status" className="mb-6 flex items-center gap-3 rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+            <Wallet className="w-4 h-4 flex-shrink-0 text-amber-500" />
+            <p className="flex-1">{budgetWarning}</p>
+            <button onClick={() => setIsUsageOpen(true)} className="font-medium hover:underline flex-shrink-0">
+              View usage
+            </button>
+            <button onClick={() => setBudgetWarning(null)} title="Dismiss" className="text-amber-400 hover:text-amber-600 flex-shrink-0">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
         
         {/* If no image, show upload only */}
         {!image ? (
@@ -131,7 +764,27 @@ const App: React.FC = () => {
               <h2 className="text-4xl font-extrabold text-gray-900 mb-4">Spark your creativity</h2>
               <p className="text-lg text-gray-600">Upload an image and let AI analyze the atmosphere to write the perfect opening for your next story.</p>
             </div>
-            <ImageUpload onImageSelected={handleImageSelected} />
+            {storyboardDraft && (
+              <div className="mb-6">
+                <StoryboardStrip
+                  images={storyboardDraft}
+                  onChange={(frames) => setStoryboardDraft(frames.length ? frames : null)}
+                  onStart={handleStartStoryboard}
+                  onCancel={() => setStoryboardDraft(null)}
+                />
+              </div>
+            )}
+            <ImageUpload onImagesSelected={handleImagesSelected} options={imageOptions} onOptionsChange={setImageOptions} />
+
+            <div className="mt-6">
+              <StorySettingsForm
+                settings={storySettings}
+                onChange={setStorySettings}
+                templates={templates}
+                onSaveTemplate={handleSaveTemplate}
+                onDeleteTemplate={handleDeleteTemplate}
+              />
+            </div>
             
             <div className="mt-12 grid grid-cols-1 md:grid-cols-3 gap-6 text-center">
               <div className="p-4">
@@ -164,7 +817,12 @@ const App: React.FC = () => {
             {/* Left Column: Visuals & Controls (4 cols) */}
             <div className="lg:col-span-4 flex flex-col gap-6">
               <div className="relative group rounded-2xl overflow-hidden shadow-lg aspect-[4/3] bg-gray-200">
-                <img src={image} alt="Inspiration" className="w-full h-full object-cover" />
+                <img src={toDataUrl(image)} alt="Inspiration" className="w-full h-full object-cover" />
+                {chapters && (
+                  <span className="absolute bottom-3 left-3 flex items-center gap-1 px-2 py-1 rounded-full bg-black/60 text-white text-xs">
+                    <Images className="w-3 h-3" /> Storyboard · {chapters.length} chapters
+                  </span>
+                )}
                 <button 
                   onClick={handleReset}
                   className="absolute top-4 right-4 bg-white/90 hover:bg-white text-gray-700 p-2 rounded-full shadow-sm opacity-0 group-hover:opacity-100 transition-opacity"
@@ -174,9 +832,37 @@ const App: React.FC = () => {
                 </button>
               </div>
 
+               {!chapters && <SceneAnalysisPanel
+                 analysis={analysis}
+                 isAnalyzing={isAnalyzing}
+                 pinnedDetails={pinnedDetails}
+                 onTogglePin={handleTogglePin}
+                 onRegenerate={handleRegenerate}
+                 canRegenerate={!isGenerating}
+                 error={analysisError}
+                 onRetry={() => runSceneAnalysis(image)}
+               />}
+
+               <StoryBiblePanel
+                 entries={bible.entries}
+                 isExtracting={bible.isExtracting}
+                 error={bible.error}
+                 onRefresh={bible.refresh}
+                 onChange={bible.updateEntry}
+                 onRemove={bible.removeEntry}
+                 onAdd={bible.addEntry}
+               />
+
                {/* Chat Interface (Fills remaining height) */}
                <div className="flex-1 min-h-[300px]">
-                 <ChatInterface initialContext={story} />
+                 <ChatInterface
+                   session={coAuthorSession}
+                   messages={messages}
+                   onMessagesChange={setMessages}
+                   draft={story}
+                   edits={draftEdits}
+                   onEditsProposed={(proposed) => setDraftEdits(prev => [...prev, ...proposed])}
+                 />
                </div>
             </div>
 
@@ -189,19 +875,54 @@ const App: React.FC = () => {
                    Story Draft
                  </h2>
                  <div className="flex gap-2">
+                   <button
+                     onClick={() => setIsSettingsOpen(open => !open)}
+                     className={`
+                       flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all
+                       ${isSettingsOpen ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}
+                     `}
+                   >
+                     <SlidersHorizontal className="w-4 h-4" /> Settings
+                   </button>
+                   <ExportMenu
+                     disabled={isGenerating || !story.trim()}
+                     hasChat={turnsOf(activePath(messages)).length > 0}
+                     onExport={handleExport}
+                   />
+                   {!chapters && (
+                     <button
+                       onClick={handleOpenStorybook}
+                       disabled={isGenerating || !story.trim()}
+                       className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                     >
+                       <BookImage className="w-4 h-4" /> Storybook
+                     </button>
+                   )}
+                   {isGenerating && (
+                     <button
+                       onClick={cancelGeneration}
+                       className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all bg-gray-100 text-gray-700 hover:bg-gray-200"
+                     >
+                       <Square className="w-4 h-4" /> Stop
+                     </button>
+                   )}
                    <button 
                     onClick={handleReadAloud}
                     disabled={isGenerating || !story}
                     className={`
                       flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all
-                      ${isPlaying 
+                      ${narration.isPlaying 
                         ? 'bg-red-50 text-red-600 hover:bg-red-100' 
                         : 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100'}
                       disabled:opacity-50 disabled:cursor-not-allowed
                     `}
                    >
-                     {isPlaying ? (
+                     {narration.isPlaying ? (
                        <><StopCircle className="w-4 h-4" /> Stop Reading</>
+                     ) : narration.isSynthesizing && !isNarrationStale ? (
+                       <><Volume2 className="w-4 h-4 animate-pulse" /> Preparing...</>
+                     ) : isNarrationStale ? (
+                       <><Volume2 className="w-4 h-4" /> Re-record Narration</>
                      ) : (
                        <><Volume2 className="w-4 h-4" /> Read Aloud</>
                      )}
@@ -209,22 +930,124 @@ const App: React.FC = () => {
                  </div>
               </div>
 
+              {narration.hasNarration && !isNarrationStale && (
+                <NarrationPlayer
+                  isPlaying={narration.isPlaying}
+                  isSynthesizing={narration.isSynthesizing}
+                  position={narration.position}
+                  duration={narration.duration}
+                  rate={narration.rate}
+                  volume={narration.volume}
+                  onPlay={() => (narration.isPaused ? narration.resume() : narration.play())}
+                  onPause={narration.pause}
+                  onStop={narration.stop}
+                  onSeek={narration.seek}
+                  onRateChange={narration.setRate}
+                  onVolumeChange={narration.setVolume}
+                  onDownload={handleDownloadNarration}
+                  canDownload={!!narration.saved}
+                />
+              )}
+
+              {(draftError || (narration.error && !isNarrationStale)) && (
+                <div className="px-6 pt-4 space-y-2">
+                  {draftError && (
+                    <ErrorNotice
+                      error={draftError.error}
+                      context={draftError.context}
+                      onRetry={draftError.retry}
+                      onRephrase={draftError.rephrase}
+                      onDismiss={() => setDraftError(null)}
+                    />
+                  )}
+                  {narration.error && !isNarrationStale && (
+                    <ErrorNotice
+                      error={narration.error}
+                      context="Narration stopped early"
+                      onRetry={() => narration.play(narration.sentences.length)}
+                      compact
+                    />
+                  )}
+                </div>
+              )}
+
+              {!chapters && !variants && pendingEdits.length > 0 && (
+                <DraftEditReview
+                  edits={pendingEdits}
+                  draft={story}
+                  isBusy={isGenerating}
+                  onAccept={handleAcceptEdit}
+                  onReject={handleRejectEdit}
+                />
+              )}
+
+              {isSettingsOpen && (
+                <div className="p-4 border-b border-gray-100 bg-gray-50">
+                  <StorySettingsForm
+                    settings={storySettings}
+                    onChange={setStorySettings}
+                    templates={templates}
+                    onSaveTemplate={handleSaveTemplate}
+                    onDeleteTemplate={handleDeleteTemplate}
+                    onRegenerate={handleRegenerate}
+                    isRegenerateDisabled={isGenerating}
+                  />
+                </div>
+              )}
+
               <div className="flex-1 p-8 overflow-y-auto bg-white relative">
-                 {isGenerating ? (
+                 {variants ? (
+                   <VariantComparison
+                     variants={variants}
+                     isGenerating={isGenerating}
+                     onPick={handlePickVariant}
+                   />
+                 ) : chapters ? (
+                   <StoryboardView
+                     chapters={chapters}
+                     writingIndex={writingChapter}
+                     isBusy={isGenerating}
+                     onChange={setChapters}
+                     onRegenerate={handleRegenerateChapter}
+                   />
+                 ) : isGenerating && !story ? (
                    <div className="flex flex-col items-center justify-center h-full text-gray-400 gap-4">
                      <LoadingSpinner />
                      <p className="animate-pulse font-medium">Analyzing scene & composing...</p>
                    </div>
+                 ) : isHistoryOpen ? (
+                   <VersionHistory
+                     versions={versions}
+                     currentText={story}
+                     onRestore={handleRestoreVersion}
+                     onClose={() => setIsHistoryOpen(false)}
+                   />
                  ) : (
-                   <div className="prose prose-lg max-w-none">
-                     <p className="font-serif text-gray-800 leading-relaxed text-xl whitespace-pre-wrap">
-                       {story}
-                     </p>
+                   <div className="flex flex-col h-full">
+                     <StoryEditor
+                       value={story}
+                       onChange={setStory}
+                       isBusy={isGenerating}
+                       onContinue={handleContinueStory}
+                       onEditSelection={handleEditSelection}
+                       onShowHistory={() => setIsHistoryOpen(true)}
+                       versionCount={versions.length}
+                       isListening={isListening}
+                       onListeningChange={setIsListening}
+                     >
+                       <NarrationText
+                         text={story}
+                         sentences={splitSentences(story)}
+                         activeSentence={isNarrationStale ? -1 : narration.activeSentence}
+                         onSentenceClick={handleSentenceClick}
+                       />
+                     </StoryEditor>
                      
-                     {story && (
-                       <div className="mt-12 pt-8 border-t border-gray-100 text-center">
+                     {story && !isGenerating && (
+                       <div className="mt-6 pt-4 border-t border-gray-100 text-center">
                          <p className="text-sm text-gray-400 italic">
-                           Generated by Gemini 3 Pro
+                           Generated by {storyModel ?? getStoryModelName()}
+                           {isNarrationStale && ' · Narration is out of date with the draft'}
                          </p>
                        </div>
                      )}
@@ -0,0 +1,264 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { basename, dirname, extname, join, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { getModelConfig } from "../services/config";
+import { createProvider, setProvider } from "../services/providers";
+import { generateStoryFromImage, getStoryModelName } from "../services/geminiService";
+import { NARRATION_SAMPLE_RATE, concatPcm, pcmDuration, planNarration, synthesizeNarration } from "../services/narration";
+import { BUILT_IN_TEMPLATES, DEFAULT_STORY_SETTINGS, findTemplate } from "../services/promptBuilder";
+import { storyToMarkdown } from "../services/storyExport";
+import { createSessionId, deriveTitle } from "../services/storyLibrary";
+import { formatCost, subscribeToUsage, totalUsage } from "../services/usage";
+import { loadModelPrices } from "../services/preferences";
+import { toMuseError } from "../services/errors";
+import { ImagePayload, StorySettings, UsageRecord } from "../types";
+import { isAbortError } from "../utils/abort";
+import { encodeBase64, encodeWav } from "../utils/audioUtils";
+import { BatchJob, IMAGE_TYPES, imageLink, listJobs } from "./jobs";
+
+const USAGE = `Usage: npm run batch -- <image folder> [options]
+
+Writes a story for every image in the folder and its subfolders: <name>.json and
+<name>.md, plus <name>.wav with --narrate, in the same subfolders of the output
+folder. Images that already have results are skipped, so an interrupted run picks
+up where it stopped. Hidden folders are left out.
+
+Options:
+  --out <dir>          Where results go (default: <image folder>/muse-output)
+  --concurrency <n>    Images worked on at once (default: 2)
+  --narrate            Also narrate each story to a WAV file
+  --settings <file>    JSON file of story settings, e.g. {"genre": "Fantasy", "targetWords": 300}
+  --genre <name>       Override single settings; these win over --settings
+  --tone <name>
+  --language <name>
+  --words <n>
+  --template <id>      Built-in template: ${BUILT_IN_TEMPLATES.map(t => t.id).join(', ')}
+  --force              Redo images that already have results
+  -h, --help           Show this help
+
+The provider and models come from the environment and .env.local, as for the server.`;
+
+// Images travel inline with the request, which providers cap at around 20 MB
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+/** What the tool writes to <name>.json; its presence marks the image as done. */
+interface BatchResult {
+  image: string; // Path within the image folder
+  title: string;
+  story: string;
+  model: string;
+  template: string;
+  settings: StorySettings;
+  narration: string | null; // File name of the WAV, once narrated
+  narrationSeconds: number | null;
+  createdAt: string;
+}
+
+interface BatchOptions {
+  inputDir: string;
+  outDir: string;
+  concurrency: number;
+  narrate: boolean;
+  force: boolean;
+  settings: StorySettings;
+}
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(2);
+};
+
+const readOptions = async (): Promise<BatchOptions> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      concurrency: { type: 'string' },
+      narrate: { type: 'boolean' },
+      settings: { type: 'string' },
+      genre: { type: 'string' },
+      tone: { type: 'string' },
+      language: { type: 'string' },
+      words: { type: 'string' },
+      template: { type: 'string' },
+      force: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+  if (positionals.length !== 1) fail("Give exactly one image folder.");
+
+  const inputDir = resolve(positionals[0]);
+  if (!existsSync(inputDir) || !(await stat(inputDir)).isDirectory()) fail(`"${positionals[0]}" is not a folder.`);
+
+  const concurrency = Number(values.concurrency ?? 2);
+  if (!Number.isInteger(concurrency) || concurrency < 1) fail("--concurrency must be a whole number of at least 1.");
+
+  let fromFile: Partial<StorySettings> = {};
+  if (values.settings) {
+    try {
+      fromFile = JSON.parse(await readFile(values.settings, 'utf8')) as Partial<StorySettings>;
+    } catch (error) {
+      fail(`Couldn't read settings from "${values.settings}": ${(error as Error).message}`);
+    }
+  }
+  const settings: StorySettings = { ...DEFAULT_STORY_SETTINGS, ...fromFile };
+  if (values.genre) settings.genre = values.genre;
+  if (values.tone) settings.tone = values.tone;
+  if (values.language) settings.language = values.language;
+  if (values.words) settings.targetWords = Number(values.words);
+  if (values.template) {
+    if (!BUILT_IN_TEMPLATES.some(t => t.id === values.template)) fail(`Unknown template "${values.template}".`);
+    settings.templateId = values.template;
+  }
+  if (!(settings.targetWords > 0)) fail("The target length must be a positive number of words.");
+
+  return {
+    inputDir,
+    outDir: resolve(values.out ?? join(inputDir, 'muse-output')),
+    concurrency,
+    narrate: !!values.narrate,
+    force: !!values.force,
+    settings,
+  };
+};
+
+// No canvas in Node, so images are sent as they are rather than downscaled
+const readImage = async (path: string): Promise<ImagePayload> => {
+  const bytes = await readFile(path);
+  if (bytes.byteLength > MAX_IMAGE_BYTES) {
+    throw new Error(`The image is ${(bytes.byteLength / 1024 / 1024).toFixed(1)} MB; the limit is ${MAX_IMAGE_BYTES / 1024 / 1024} MB.`);
+  }
+  return { base64: encodeBase64(bytes), mimeType: IMAGE_TYPES[extname(path).toLowerCase()], width: 0, height: 0 };
+};
+
+const readResult = async (path: string): Promise<BatchResult | null> => {
+  try {
+    const result = JSON.parse(await readFile(path, 'utf8')) as BatchResult;
+    return typeof result.story === 'string' && result.story.trim() ? result : null;
+  } catch {
+    return null; // Missing, or cut off by an interruption
+  }
+};
+
+// Written under a temporary name first, so an interruption never leaves half a file behind
+const writeAtomically = async (path: string, data: string | Uint8Array): Promise<void> => {
+  await writeFile(`${path}.partial`, data);
+  await rename(`${path}.partial`, path);
+};
+
+const narrate = async (text: string, signal: AbortSignal): Promise<Uint8Array> => {
+  const chunks: Uint8Array[] = [];
+  for await (const { pcm } of synthesizeNarration(planNarration(text), { signal })) chunks.push(pcm);
+  return concatPcm(chunks);
+};
+
+/** Writes whatever the image is still missing. Resolves with what was done, for the log. */
+const processImage = async (job: BatchJob, options: BatchOptions, signal: AbortSignal): Promise<string> => {
+  const resultPath = join(options.outDir, `${job.name}.json`);
+  let result = options.force ? null : await readResult(resultPath);
+  if (result && (!options.narrate || result.narration)) return "already done";
+
+  const done: string[] = [];
+  await mkdir(dirname(resultPath), { recursive: true });
+  if (!result) {
+    const imagePath = join(options.inputDir, job.file);
+    const image = await readImage(imagePath);
+    const template = findTemplate(BUILT_IN_TEMPLATES, options.settings.templateId);
+    const story = (await generateStoryFromImage(image, { signal, settings: options.settings, template })).trim();
+    const now = Date.now();
+
+    const markdown = storyToMarkdown(
+      { id: createSessionId(), title: '', image, generatedText: story, messages: [], narration: null, settings: options.settings, createdAt: now, updatedAt: now },
+      { model: getStoryModelName(), templateName: template.name, includeChat: false, includeNarration: false },
+      imageLink(options.inputDir, options.outDir, job)
+    );
+    await writeAtomically(join(options.outDir, `${job.name}.md`), markdown);
+
+    result = {
+      image: job.file,
+      title: deriveTitle(story),
+      story,
+      model: getStoryModelName(),
+      template: template.id,
+      settings: options.settings,
+      narration: null,
+      narrationSeconds: null,
+      createdAt: new Date(now).toISOString(),
+    };
+    await writeAtomically(resultPath, JSON.stringify(result, null, 2));
+    done.push(`wrote ${story.split(/\s+/).length} words`);
+  }
+
+  if (options.narrate) {
+    const pcm = await narrate(result.story, signal);
+    await writeAtomically(join(options.outDir, `${job.name}.wav`), encodeWav(pcm, NARRATION_SAMPLE_RATE));
+    result = { ...result, narration: `${basename(job.name)}.wav`, narrationSeconds: Math.round(pcmDuration(pcm) * 10) / 10 };
+    await writeAtomically(resultPath, JSON.stringify(result, null, 2));
+    done.push(`narrated ${result.narrationSeconds}s`);
+  }
+  return done.join(", ");
+};
+
+const main = async () => {
+  for (const file of ['.env.local', '.env']) {
+    if (existsSync(file)) process.loadEnvFile(file);
+  }
+  const options = await readOptions();
+  const config = getModelConfig();
+  setProvider(createProvider(config));
+
+  const jobs = await listJobs(options.inputDir, options.outDir);
+  if (!jobs.length) {
+    console.log(`No images (${Object.keys(IMAGE_TYPES).join(', ')}) in ${options.inputDir}.`);
+    return;
+  }
+  console.log(`${jobs.length} images, ${options.concurrency} at a time, with ${config.provider} (${config.storyModel}) -> ${options.outDir}`);
+
+  const records: UsageRecord[] = [];
+  subscribeToUsage(event => {
+    if (event.type === 'recorded') records.push(event.record);
+  });
+
+  // The first Ctrl+C stops cleanly; whatever was in flight is redone on the next run
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    console.log("\nStopping. Run the same command again to resume.");
+    controller.abort();
+  });
+
+  const failures: string[] = [];
+  let next = 0;
+  let finished = 0;
+  const worker = async () => {
+    while (next < jobs.length && !controller.signal.aborted) {
+      const job = jobs[next++];
+      try {
+        const outcome = await processImage(job, options, controller.signal);
+        console.log(`[${++finished}/${jobs.length}] ${job.file}: ${outcome}`);
+      } catch (error) {
+        if (controller.signal.aborted || isAbortError(error)) return;
+        failures.push(job.file);
+        console.error(`[${++finished}/${jobs.length}] ${job.file}: failed: ${toMuseError(error).message}`);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, jobs.length) }, worker));
+
+  const usage = totalUsage(records, loadModelPrices());
+  console.log(`${usage.calls} model calls, ${usage.inputTokens + usage.outputTokens + usage.audioTokens} tokens, about ${formatCost(usage.cost)}.`);
+  if (controller.signal.aborted) process.exit(130);
+  if (failures.length) {
+    console.error(`${failures.length} images failed: ${failures.join(', ')}. Run again to retry them.`);
+    process.exit(1);
+  }
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
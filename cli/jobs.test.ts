@@ -0,0 +1,57 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { imageLink, listJobs } from "./jobs";
+
+let root: string;
+
+const touch = async (...paths: string[]) => {
+  for (const path of paths) {
+    await mkdir(join(root, path, '..'), { recursive: true });
+    await writeFile(join(root, path), '');
+  }
+};
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'muse-batch-'));
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('listJobs', () => {
+  it('finds images in subfolders, named after their path', async () => {
+    await touch('beach.jpg', 'trips/2024/Harbour.PNG', 'trips/notes.txt');
+
+    expect(await listJobs(root, join(root, 'muse-output'))).toEqual([
+      { file: 'beach.jpg', name: 'beach' },
+      { file: 'trips/2024/Harbour.PNG', name: 'trips/2024/Harbour' },
+    ]);
+  });
+
+  it('keeps the extension only where two images in one folder would clash', async () => {
+    await touch('a.jpg', 'a.png', 'sub/a.jpg');
+
+    expect(await listJobs(root, join(root, 'muse-output'))).toEqual([
+      { file: 'a.jpg', name: 'a.jpg' },
+      { file: 'a.png', name: 'a.png' },
+      { file: 'sub/a.jpg', name: 'sub/a' },
+    ]);
+  });
+
+  it('leaves out the output folder and hidden folders', async () => {
+    await touch('a.jpg', 'results/a.jpg', '.thumbnails/a.jpg');
+
+    expect(await listJobs(root, join(root, 'results'))).toEqual([{ file: 'a.jpg', name: 'a' }]);
+  });
+});
+
+describe('imageLink', () => {
+  it('links to the image from the folder its Markdown is in', () => {
+    const job = { file: 'trips/beach.jpg', name: 'trips/beach' };
+    expect(imageLink('/photos', '/photos/muse-output', job)).toBe('../../trips/beach.jpg');
+    expect(imageLink('/photos', '/elsewhere', { file: 'a.jpg', name: 'a' })).toBe('../photos/a.jpg');
+  });
+});
@@ -0,0 +1,52 @@
+import { readdir } from "node:fs/promises";
+import { dirname, extname, join, parse, posix, relative, resolve } from "node:path";
+
+export const IMAGE_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+export interface BatchJob {
+  file: string; // Path within the image folder, with forward slashes
+  name: string; // Path of its output files within the output folder, without an extension
+}
+
+// Image paths within `dir`, relative to the image folder. Hidden folders and the output
+// folder (by default inside the image folder) are left out
+const findImages = async (inputDir: string, dir: string, skip: string): Promise<string[]> => {
+  const entries = await readdir(join(inputDir, dir), { withFileTypes: true });
+  const found: string[] = [];
+  for (const entry of entries) {
+    const path = dir ? posix.join(dir, entry.name) : entry.name;
+    if (entry.isDirectory() && !entry.name.startsWith('.') && resolve(inputDir, path) !== skip) {
+      found.push(...await findImages(inputDir, path, skip));
+    } else if (entry.isFile() && extname(entry.name).toLowerCase() in IMAGE_TYPES) {
+      found.push(path);
+    }
+  }
+  return found;
+};
+
+/**
+ * Every image in the folder and its subfolders, whose results go to the same subfolders
+ * of `outDir`. Output names follow the image's, keeping the extension only where two
+ * images in one folder would clash.
+ */
+export const listJobs = async (inputDir: string, outDir: string): Promise<BatchJob[]> => {
+  const files = (await findImages(inputDir, '', resolve(outDir))).sort();
+  const stems = files.map(file => {
+    const { dir, name } = parse(file);
+    return dir ? `${dir}/${name}` : name;
+  });
+  return files.map((file, i) => ({
+    file,
+    name: stems.indexOf(stems[i]) === stems.lastIndexOf(stems[i]) ? stems[i] : file,
+  }));
+};
+
+/** The image as a link from the job's Markdown file. */
+export const imageLink = (inputDir: string, outDir: string, job: BatchJob): string =>
+  relative(dirname(join(outDir, job.name)), join(inputDir, job.file)).split('\\').join('/');
@@ -1,19 +1,68 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Sparkles } from 'lucide-react';
-import { ChatMessage } from '../types';
-import { sendChatMessage } from '../services/geminiService';
+import { Send, Sparkles, PenLine, Copy, Check, RefreshCw, Pencil, ChevronLeft, ChevronRight, Mic, MicOff, AudioLines } from 'lucide-react';
+import { ChatMessage, DraftEdit } from '../types';
+import { describeDraftEdit } from '../utils/draftEdits';
+import { activePath, addMessage, removeMessage, selectBranch, siblingsOf, splitAtSummary, transcriptOf, turnsOf } from '../utils/chatTree';
+import { ChatContextUsage, CoAuthorSession } from '../services/geminiService';
+import { MuseError, toMuseError } from '../services/errors';
+import { VoiceTurn, useVoiceChat } from '../hooks/useVoiceChat';
+import { ErrorNotice } from './ErrorNotice';
+import { Markdown } from './Markdown';
+
+export const CHAT_GREETING: ChatMessage = { id: '1', role: 'model', parentId: null, text: 'Hello! I am your co-author. Feel free to ask me questions about the story world or for ideas on how to continue.' };
 
 interface ChatInterfaceProps {
-  initialContext?: string; // The generated story to seed the chat context
+  session: CoAuthorSession | null; // Image-grounded chat that tracks the current draft
+  messages: ChatMessage[]; // The whole conversation tree; see utils/chatTree
+  onMessagesChange: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
+  draft: string; // Current story text, to flag when the co-author's view of it is stale
+  edits: DraftEdit[]; // Every edit the co-author has proposed, to show each one's status
+  onEditsProposed: (edits: DraftEdit[]) => void;
 }
 
-export const ChatInterface: React.FC<ChatInterfaceProps> = ({ initialContext }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { id: '1', role: 'model', text: 'Hello! I am your co-author. Feel free to ask me questions about the story world or for ideas on how to continue.' }
-  ]);
+const EDIT_STATUS_CLASSES: Record<DraftEdit['status'], string> = {
+  pending: 'bg-amber-50 text-amber-700 border-amber-200',
+  accepted: 'bg-green-50 text-green-700 border-green-200',
+  rejected: 'bg-gray-50 text-gray-400 border-gray-200 line-through',
+};
+
+const formatTokens = (tokens: number): string => (tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens));
+
+const actionClass = 'p-1 rounded text-gray-400 hover:text-indigo-600 disabled:opacity-40 disabled:cursor-not-allowed';
+
+export const ChatInterface: React.FC<ChatInterfaceProps> = ({ session, messages, onMessagesChange: setMessages, draft, edits, onEditsProposed }) => {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // The last turn that failed; a failed message is kept out of the transcript until it goes through
+  const [failed, setFailed] = useState<{ label: string; error: MuseError; retry: () => void; rephrase?: () => void } | null>(null);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [usage, setUsage] = useState<ChatContextUsage | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const sessionRef = useRef(session);
+  // The draft as of the last message sent; null until the first one
+  const [sharedDraft, setSharedDraft] = useState<string | null>(null);
+  const isContextStale = sharedDraft !== null && sharedDraft !== draft;
+  const path = activePath(messages);
+  const lastReply = path[path.length - 1];
+  // Messages up to this index have been condensed into a summary
+  const { index: condensedIndex, summary: shownSummary } = splitAtSummary(path);
+
+  // Spoken turns join the transcript under whatever branch is showing when they finish
+  const addVoiceTurn = ({ user, model }: VoiceTurn) =>
+    setMessages(prev => {
+      let next = prev;
+      let parentId = activePath(prev).pop()!.id;
+      for (const [role, text] of [['user', user], ['model', model]] as const) {
+        if (!text) continue;
+        const spoken: ChatMessage = { id: crypto.randomUUID(), role, parentId, text, spoken: true };
+        next = addMessage(next, spoken);
+        parentId = spoken.id;
+      }
+      return next;
+    });
+  const voice = useVoiceChat(session, addVoiceTurn);
+  const isVoiceOn = voice.status !== 'off';
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -23,42 +72,124 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ initialContext })
     scrollToBottom();
   }, [messages]);
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
+  // The parent swaps the session (and transcript) when the story changes
+  useEffect(() => {
+    sessionRef.current = session;
+    setIsLoading(false);
+    setSharedDraft(null);
+    setFailed(null);
+    setEditing(null);
+    setUsage(null);
+  }, [session]);
 
-    const userMsg: ChatMessage = { id: Date.now().toString(), role: 'user', text: input };
-    setMessages(prev => [...prev, userMsg]);
-    setInput('');
+  // Asks for a reply to `userMsg`, continuing from the messages above it.
+  // Resolves with the error if it failed, or null once the reply is in (or no longer wanted).
+  const requestReply = async (userMsg: ChatMessage, above: ChatMessage[]): Promise<MuseError | null> => {
+    if (!session) return null;
+    setFailed(null);
     setIsLoading(true);
+    setSharedDraft(draft);
 
     try {
-      // Prepare history for API
-      // If we have initialContext (the story), we treat it as if the model just wrote it in a previous turn
-      // or we inject it as a user message saying "Here is the story so far: ..." to ground the chat.
-      // A simple strategy:
-      const apiHistory = messages.map(m => ({
-        role: m.role,
-        parts: [{ text: m.text }]
-      }));
-
-      // If this is the first real interaction and we have context, maybe prepend it?
-      // For simplicity, we assume the System Instruction in the service handles general persona,
-      // and we just rely on the current conversation. 
-      // To improve: Inject the story context into the prompt invisibly if not present.
-      let finalInput = input;
-      if (messages.length === 1 && initialContext) {
-         finalInput = `Context: The story so far is: "${initialContext}". \n\n User Question: ${input}`;
+      // The branch may differ from what the session last saw, so always hand it the history
+      const { summary, recent } = splitAtSummary(above);
+      session.setHistory(transcriptOf(recent), summary);
+      const reply = await session.sendMessage(userMsg.text);
+      if (sessionRef.current !== session) return null; // Reply for a story that is gone
+
+      setUsage(reply.usage);
+      if (reply.condensed) {
+        // Mark the last condensed message; the summary replaces everything up to it
+        const { summary: condensedSummary, turns } = reply.condensed;
+        const throughId = turnsOf(recent)[turns - 1]?.id;
+        setMessages(prev => prev.map(m => (m.id === throughId ? { ...m, summary: condensedSummary } : m)));
       }
 
-      const responseText = await sendChatMessage(apiHistory, finalInput);
-      
-      const botMsg: ChatMessage = { id: (Date.now() + 1).toString(), role: 'model', text: responseText };
-      setMessages(prev => [...prev, botMsg]);
+      const proposed: DraftEdit[] = reply.edits.map(operation => ({ id: crypto.randomUUID(), operation, status: 'pending' }));
+      const botMsg: ChatMessage = {
+        id: crypto.randomUUID(),
+        role: 'model',
+        parentId: userMsg.id,
+        text: reply.text,
+        editIds: proposed.length ? proposed.map(edit => edit.id) : undefined,
+      };
+      setMessages(prev => addMessage(prev, botMsg));
+      if (proposed.length) onEditsProposed(proposed);
+      return null;
     } catch (e) {
-      // Error handled in service mostly, but ui update here
+      return sessionRef.current === session ? toMuseError(e) : null;
     } finally {
-      setIsLoading(false);
+      if (sessionRef.current === session) setIsLoading(false);
+    }
+  };
+
+  // Sends a new user message under `parentId`; `above` is the conversation down to that parent
+  const send = async (text: string, parentId: string, above: ChatMessage[]) => {
+    if (!text.trim() || isLoading || !session) return;
+
+    const userMsg: ChatMessage = { id: crypto.randomUUID(), role: 'user', parentId, text };
+    setMessages(prev => addMessage(prev, userMsg));
+    const error = await requestReply(userMsg, above);
+    if (!error) return;
+
+    // The co-author never saw this turn, so take it back out of the transcript
+    setMessages(prev => removeMessage(prev, userMsg.id));
+    setFailed({
+      label: `Not sent: “${text}”`,
+      error,
+      retry: () => send(text, parentId, above),
+      // A blocked message goes back into the box to be reworded
+      rephrase: () => {
+        setInput(text);
+        setFailed(null);
+      },
+    });
+  };
+
+  // Asks again for the reply at `index` of the path, keeping the old one as a branch
+  const regenerate = async (index: number) => {
+    const userMsg = path[index - 1];
+    if (isLoading || userMsg?.role !== 'user') return;
+    const above = path.slice(0, index - 1);
+    const error = await requestReply(userMsg, above);
+    if (error) setFailed({ label: 'No new reply', error, retry: () => regenerate(index) });
+  };
+
+  // Resends an edited user message as a new branch beside the original
+  const handleResend = (index: number) => {
+    if (!editing) return;
+    const original = path[index];
+    const text = editing.text.trim();
+    setEditing(null);
+    if (!text || text === original.text) return;
+    send(text, original.parentId!, path.slice(0, index));
+  };
+
+  const handleCopy = (msg: ChatMessage) =>
+    navigator.clipboard.writeText(msg.text).then(() => {
+      setCopiedId(msg.id);
+      setTimeout(() => setCopiedId(id => (id === msg.id ? null : id)), 1500);
+    }).catch(() => {});
+
+  const handleSend = () => {
+    if (!input.trim() || isLoading || !session) return;
+    const text = input;
+    setInput('');
+    send(text, lastReply.id, path);
+  };
+
+  const toggleVoice = () => {
+    if (isVoiceOn) {
+      voice.stop();
+      return;
     }
+    if (!session || isLoading) return;
+    setFailed(null);
+    setSharedDraft(draft);
+    // The voice session carries on from the branch that is showing
+    const { summary, recent } = splitAtSummary(path);
+    session.setHistory(transcriptOf(recent), summary);
+    voice.start();
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -68,28 +199,174 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ initialContext })
     }
   };
 
+  const branchSwitcher = (msg: ChatMessage) => {
+    const siblings = siblingsOf(messages, msg);
+    if (siblings.length < 2) return null;
+    const position = siblings.findIndex(m => m.id === msg.id);
+    return (
+      <span className="flex items-center text-xs text-gray-400">
+        <button
+          onClick={() => setMessages(prev => selectBranch(prev, siblings[position - 1].id))}
+          disabled={isLoading || position === 0}
+          title="Previous version"
+          className={actionClass}
+        >
+          <ChevronLeft className="w-3 h-3" />
+        </button>
+        {position + 1}/{siblings.length}
+        <button
+          onClick={() => setMessages(prev => selectBranch(prev, siblings[position + 1].id))}
+          disabled={isLoading || position === siblings.length - 1}
+          title="Next version"
+          className={actionClass}
+        >
+          <ChevronRight className="w-3 h-3" />
+        </button>
+      </span>
+    );
+  };
+
   return (
     <div className="flex flex-col h-full bg-white rounded-2xl shadow-xl overflow-hidden border border-gray-100">
       {/* Header */}
       <div className="bg-indigo-600 p-4 flex items-center gap-3">
         <Sparkles className="w-5 h-5 text-yellow-300" />
         <h3 className="text-white font-semibold">Co-Author Chat</h3>
+        {usage && (
+          <div
+            title={`The co-author saw ${usage.tokens} of ${usage.budget} tokens last turn. Older messages are condensed as it fills up.`}
+            className="ml-auto flex items-center gap-2 text-xs text-indigo-100"
+          >
+            <div className="w-16 h-1.5 rounded-full bg-indigo-400 overflow-hidden">
+              <div
+                className={`h-full ${usage.tokens > usage.budget * 0.8 ? 'bg-amber-300' : 'bg-white'}`}
+                style={{ width: `${Math.min(100, (usage.tokens / usage.budget) * 100)}%` }}
+              />
+            </div>
+            {formatTokens(usage.tokens)} / {formatTokens(usage.budget)}
+          </div>
+        )}
       </div>
+      {isContextStale && (
+        <div className="px-4 py-2 bg-amber-50 border-b border-amber-100 text-xs text-amber-700">
+          The draft changed since your last message. The co-author will read the new version on your next one.
+        </div>
+      )}
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50">
-        {messages.map((msg) => (
-          <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-            <div className={`
-              max-w-[85%] rounded-2xl p-3 text-sm leading-relaxed
-              ${msg.role === 'user' 
-                ? 'bg-indigo-600 text-white rounded-br-none' 
-                : 'bg-white text-gray-800 shadow-sm border border-gray-100 rounded-bl-none'}
-            `}>
-              {msg.text}
+        {path.map((msg, index) => (
+          <React.Fragment key={msg.id}>
+            <div
+              title={index <= condensedIndex ? 'Condensed: the co-author now sees a summary instead of this message' : undefined}
+              className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'} ${index <= condensedIndex ? 'opacity-50' : ''}`}
+            >
+              {editing?.id === msg.id ? (
+                <div className="w-[85%] space-y-1">
+                  <textarea
+                    value={editing.text}
+                    onChange={(e) => setEditing({ id: msg.id, text: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        handleResend(index);
+                      } else if (e.key === 'Escape') {
+                        setEditing(null);
+                      }
+                    }}
+                    autoFocus
+                    rows={Math.max(2, editing.text.split('\n').length)}
+                    className="w-full rounded-2xl p-3 text-sm border border-indigo-300 outline-none focus:ring-1 focus:ring-indigo-500 resize-none"
+                  />
+                  <div className="flex justify-end gap-2 text-xs">
+                    <button onClick={() => setEditing(null)} className="px-2 py-1 text-gray-500 hover:text-gray-700">Cancel</button>
+                    <button
+                      onClick={() => handleResend(index)}
+                      disabled={!editing.text.trim()}
+                      className="px-3 py-1 rounded-full bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      Send
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className={`
+                  max-w-[85%] rounded-2xl p-3 text-sm leading-relaxed
+                  ${msg.role === 'user' 
+                    ? 'bg-indigo-600 text-white rounded-br-none whitespace-pre-wrap' 
+                    : 'bg-white text-gray-800 shadow-sm border border-gray-100 rounded-bl-none'}
+                `}>
+                  {msg.role === 'model' ? <Markdown text={msg.text} /> : msg.text}
+                  {msg.spoken && (
+                    <span title="Said aloud; this is a transcript" className={`inline-block ml-1 ${msg.role === 'user' ? 'text-indigo-200' : 'text-gray-400'}`}>
+                      <Mic className="w-3 h-3" />
+                    </span>
+                  )}
+                  {msg.editIds && (
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {msg.editIds.flatMap(id => edits.filter(edit => edit.id === id)).map(edit => (
+                        <span
+                          key={edit.id}
+                          title={edit.status === 'pending' ? 'Review it on the draft' : `You ${edit.status} this edit`}
+                          className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs ${EDIT_STATUS_CLASSES[edit.status]}`}
+                        >
+                          <PenLine className="w-3 h-3" /> {describeDraftEdit(edit.operation)}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {index > 0 && editing?.id !== msg.id && (
+                <div className="flex items-center gap-1 mt-1">
+                  {branchSwitcher(msg)}
+                  {msg.role === 'model' ? (
+                    <>
+                      <button onClick={() => handleCopy(msg)} title="Copy" className={actionClass}>
+                        {copiedId === msg.id ? <Check className="w-3 h-3 text-green-600" /> : <Copy className="w-3 h-3" />}
+                      </button>
+                      {msg === lastReply && (
+                        <button onClick={() => regenerate(index)} disabled={isLoading || isVoiceOn || !session} title="Regenerate reply" className={actionClass}>
+                          <RefreshCw className="w-3 h-3" />
+                        </button>
+                      )}
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => setEditing({ id: msg.id, text: msg.text })}
+                      disabled={isLoading || isVoiceOn || !session}
+                      title="Edit and resend"
+                      className={actionClass}
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
-          </div>
+            {index === condensedIndex && (
+              <details className="text-xs text-gray-500 border-y border-dashed border-gray-200 py-2">
+                <summary className="cursor-pointer text-center">Earlier messages condensed into a summary</summary>
+                <div className="mt-2 text-gray-600">
+                  <Markdown text={shownSummary} />
+                </div>
+              </details>
+            )}
+          </React.Fragment>
         ))}
+        {voice.transcript.user && (
+          <div className="flex justify-end">
+            <div className="max-w-[85%] rounded-2xl rounded-br-none p-3 text-sm bg-indigo-100 text-indigo-900 italic">{voice.transcript.user}</div>
+          </div>
+        )}
+        {voice.transcript.model && (
+          <div className="flex justify-start">
+            <div className="max-w-[85%] rounded-2xl rounded-bl-none p-3 text-sm bg-white text-gray-600 italic shadow-sm border border-gray-100">
+              {voice.transcript.model}
+            </div>
+          </div>
+        )}
         {isLoading && (
            <div className="flex justify-start">
              <div className="bg-white p-3 rounded-2xl rounded-bl-none shadow-sm border border-gray-100 flex gap-1">
@@ -99,23 +376,66 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ initialContext })
              </div>
            </div>
         )}
+        {failed && !isLoading && (
+          <div className="space-y-1">
+            <p className="text-xs text-gray-400 text-right truncate">{failed.label}</p>
+            <ErrorNotice
+              error={failed.error}
+              context="Message not sent"
+              onRetry={failed.retry}
+              onRephrase={failed.rephrase}
+              onDismiss={() => setFailed(null)}
+              compact
+            />
+          </div>
+        )}
+        {voice.error && (
+          <ErrorNotice
+            error={voice.error}
+            context="Voice conversation ended"
+            onRetry={toggleVoice}
+            onDismiss={voice.dismissError}
+            compact
+          />
+        )}
         <div ref={messagesEndRef} />
       </div>
 
       {/* Input */}
       <div className="p-4 bg-white border-t border-gray-100">
+        {isVoiceOn && (
+          <p className="mb-2 flex items-center gap-2 text-xs text-indigo-700">
+            <AudioLines className={`w-4 h-4 ${voice.status === 'listening' ? 'animate-pulse' : ''}`} />
+            {voice.status === 'connecting'
+              ? 'Connecting...'
+              : voice.isSpeaking
+                ? 'The co-author is talking. Speak to interrupt.'
+                : 'Listening. Talk about the story, then pause to hear a reply.'}
+          </p>
+        )}
         <div className="flex items-center gap-2 bg-gray-50 rounded-full px-4 py-2 border border-gray-200 focus-within:border-indigo-500 focus-within:ring-1 focus-within:ring-indigo-500 transition-all">
           <input
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyPress}
-            placeholder="Ask about the story..."
-            className="flex-1 bg-transparent border-none focus:ring-0 text-gray-700 text-sm outline-none"
+            placeholder={isVoiceOn ? 'Talking with the co-author...' : 'Ask about the story...'}
+            disabled={isVoiceOn}
+            className="flex-1 bg-transparent border-none focus:ring-0 text-gray-700 text-sm outline-none disabled:opacity-50"
           />
+          <button
+            onClick={toggleVoice}
+            disabled={!isVoiceOn && (isLoading || !session)}
+            title={isVoiceOn ? 'End the voice conversation' : 'Talk with the co-author'}
+            className={`p-2 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              isVoiceOn ? 'bg-red-50 text-red-600 hover:bg-red-100' : 'text-gray-500 hover:bg-gray-200 hover:text-indigo-600'
+            }`}
+          >
+            {isVoiceOn ? <MicOff className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
+          </button>
           <button 
             onClick={handleSend}
-            disabled={isLoading || !input.trim()}
+            disabled={isLoading || isVoiceOn || !input.trim() || !session}
             className="p-2 bg-indigo-600 rounded-full text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
             <Send className="w-4 h-4" />
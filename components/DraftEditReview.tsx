@@ -0,0 +1,67 @@
+import React, { useMemo } from 'react';
+import { Check, X, PenLine } from 'lucide-react';
+import { DraftEdit } from '../types';
+import { applyDraftEdit, describeDraftEdit } from '../utils/draftEdits';
+import { diffExcerpt } from '../utils/diff';
+
+interface DraftEditReviewProps {
+  edits: DraftEdit[]; // Pending proposals only
+  draft: string;
+  isBusy: boolean;
+  onAccept: (edit: DraftEdit, result: string) => void;
+  onReject: (edit: DraftEdit) => void;
+}
+
+export const DraftEditReview: React.FC<DraftEditReviewProps> = ({ edits, draft, isBusy, onAccept, onReject }) => {
+  // Previews follow the live draft, so accepting one edit updates the rest
+  const previews = useMemo(() => edits.map(edit => {
+    const result = applyDraftEdit(draft, edit.operation);
+    return { edit, result, segments: result === null ? [] : diffExcerpt(draft, result) };
+  }), [edits, draft]);
+
+  return (
+    <div className="px-6 pt-4 space-y-3">
+      {previews.map(({ edit, result, segments }) => (
+        <div key={edit.id} className="rounded-xl border border-indigo-100 bg-indigo-50/40 p-3">
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <p className="text-sm font-medium text-gray-800 flex items-center gap-2">
+              <PenLine className="w-4 h-4 text-indigo-500" /> Co-author suggests: {describeDraftEdit(edit.operation)}
+            </p>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              <button
+                onClick={() => onReject(edit)}
+                className="flex items-center gap-1 px-3 py-1 rounded-full text-xs text-gray-600 hover:bg-gray-100"
+              >
+                <X className="w-3 h-3" /> {result === null ? 'Dismiss' : 'Reject'}
+              </button>
+              {result !== null && (
+                <button
+                  onClick={() => onAccept(edit, result)}
+                  disabled={isBusy}
+                  className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Check className="w-3 h-3" /> Accept
+                </button>
+              )}
+            </div>
+          </div>
+          {result === null ? (
+            <p className="text-xs text-gray-500">The draft has changed and this edit no longer fits.</p>
+          ) : (
+            <p className="font-serif text-sm text-gray-700 leading-relaxed whitespace-pre-wrap max-h-48 overflow-y-auto">
+              {segments.map((segment, i) =>
+                segment.type === 'equal' ? (
+                  <span key={i}>{segment.text}</span>
+                ) : segment.type === 'insert' ? (
+                  <ins key={i} className="bg-green-100 text-green-900 no-underline">{segment.text}</ins>
+                ) : (
+                  <del key={i} className="bg-red-100 text-red-800">{segment.text}</del>
+                )
+              )}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { AlertTriangle, Clock, FileWarning, Inbox, KeyRound, PenLine, RotateCcw, ShieldAlert, Wallet, WifiOff, X } from 'lucide-react';
+import { MuseError, MuseErrorKind, describeError } from '../services/errors';
+
+const ICONS: Record<MuseErrorKind, React.ElementType> = {
+  'auth': KeyRound,
+  'rate-limit': Clock,
+  'safety': ShieldAlert,
+  'network': WifiOff,
+  'invalid-input': FileWarning,
+  'empty-response': Inbox,
+  'budget': Wallet,
+  'unknown': AlertTriangle,
+};
+
+interface ErrorNoticeProps {
+  error: MuseError;
+  context: string; // What failed, e.g. "Couldn't write the story"
+  onRetry?: () => void;
+  onRephrase?: () => void; // Offered for safety blocks: try again steering clear of what was blocked
+  onDismiss?: () => void;
+  compact?: boolean;
+}
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, context, onRetry, onRephrase, onDismiss, compact }) => {
+  const Icon = ICONS[error.kind];
+  const { title, detail } = describeError(error);
+
+  return (
+    <div
+      role="alert"
+      title={compact ? detail : undefined}
+      className={`flex items-start gap-3 rounded-xl border border-red-100 bg-red-50 text-red-800 ${compact ? 'p-2 text-xs' : 'p-4 text-sm'}`}
+    >
+      <Icon className={`${compact ? 'w-4 h-4' : 'w-5 h-5'} flex-shrink-0 text-red-500 mt-0.5`} />
+      <div className="flex-1 min-w-0">
+        <p className="font-semibold">{context}: {title}</p>
+        {!compact && <p className="text-red-700/80 mt-0.5 break-words">{detail}</p>}
+      </div>
+      {onRephrase && error.kind === 'safety' && (
+        <button
+          onClick={onRephrase}
+          className="flex items-center gap-1 px-3 py-1 rounded-full bg-white border border-red-200 text-red-700 font-medium hover:bg-red-100 flex-shrink-0"
+        >
+          <PenLine className="w-3 h-3" /> Rephrase
+        </button>
+      )}
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          className="flex items-center gap-1 px-3 py-1 rounded-full bg-white border border-red-200 text-red-700 font-medium hover:bg-red-100 flex-shrink-0"
+        >
+          <RotateCcw className="w-3 h-3" /> Retry
+        </button>
+      )}
+      {onDismiss && (
+        <button onClick={onDismiss} title="Dismiss" className="text-red-400 hover:text-red-600 flex-shrink-0">
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
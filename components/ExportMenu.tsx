@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { FileDown } from 'lucide-react';
+import { EXPORT_FORMATS, ExportFormat } from '../services/storyExport';
+
+interface ExportMenuProps {
+  disabled: boolean;
+  hasChat: boolean; // Whether there is a conversation worth appending
+  onExport: (format: ExportFormat, includeChat: boolean) => void;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ disabled, hasChat, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [includeChat, setIncludeChat] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <FileDown className="w-4 h-4" /> Export
+      </button>
+      {isOpen && !disabled && (
+        <div className="absolute right-0 top-full mt-1 bg-white border border-gray-100 rounded-lg shadow-lg py-1 z-20 w-64">
+          {EXPORT_FORMATS.map(({ value, label, description }) => (
+            <button
+              key={value}
+              onClick={() => { onExport(value, includeChat && hasChat); setIsOpen(false); }}
+              className="block w-full text-left px-3 py-1.5 hover:bg-gray-50"
+            >
+              <span className="block text-sm text-gray-800">{label}</span>
+              <span className="block text-xs text-gray-400">{description}</span>
+            </button>
+          ))}
+          <label className={`flex items-center gap-2 px-3 py-2 mt-1 border-t border-gray-100 text-xs ${hasChat ? 'text-gray-600' : 'text-gray-300'}`}>
+            <input
+              type="checkbox"
+              checked={includeChat && hasChat}
+              disabled={!hasChat}
+              onChange={(e) => setIncludeChat(e.target.checked)}
+              className="accent-indigo-600"
+            />
+            Add the co-author chat as an appendix
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,34 +1,97 @@
-import React, { useRef, useState } from 'react';
-import { Upload, Image as ImageIcon } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, AlertCircle, Camera, Link } from 'lucide-react';
+import { ImagePayload, ImagePreprocessOptions } from '../types';
+import { IMAGE_FORMATS, MAX_DIMENSION_CHOICES, preprocessImage } from '../services/imagePreprocessor';
+import { fetchImageFromUrl, imageFilesFromClipboard } from '../services/imageSources';
+import { toMuseError } from '../services/errors';
+import { LoadingSpinner } from './LoadingSpinner';
+import { WebcamCapture } from './WebcamCapture';
 
 interface ImageUploadProps {
-  onImageSelected: (base64: string, mimeType: string) => void;
+  onImagesSelected: (images: ImagePayload[]) => void; // Several at once start a storyboard
+  options: ImagePreprocessOptions;
+  onOptionsChange: (options: ImagePreprocessOptions) => void;
 }
 
-export const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelected }) => {
+const QUALITY_CHOICES = [0.6, 0.75, 0.85, 0.95];
+
+const selectClass = 'bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 text-xs text-gray-700 outline-none focus:border-indigo-500';
+
+export const ImageUpload: React.FC<ImageUploadProps> = ({ onImagesSelected, options, onOptionsChange }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showCamera, setShowCamera] = useState(false);
+  const [showUrl, setShowUrl] = useState(false);
+  const [url, setUrl] = useState('');
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    processFile(file);
+    const files = Array.from<File>(e.target.files ?? []);
+    e.target.value = ''; // Let the same files be picked again after a failure
+    processFiles(files);
   };
 
-  const processFile = (file: File | undefined) => {
-    if (!file) return;
+  const processFiles = async (files: File[]) => {
+    if (!files.length || isProcessing) return;
 
-    // Simple validation
-    if (!file.type.startsWith('image/')) {
-      alert('Please upload an image file.');
-      return;
+    setError(null);
+    setIsProcessing(true);
+    const images: ImagePayload[] = [];
+    const failures: string[] = [];
+    // One at a time, so a batch of phone photos doesn't decode all at once
+    for (const file of files) {
+      try {
+        images.push(await preprocessImage(file, options));
+      } catch (e) {
+        failures.push(`${file.name}: ${toMuseError(e).message}`);
+      }
     }
+    setIsProcessing(false);
+
+    if (failures.length) {
+      setError(files.length === 1 ? failures[0] : `${failures.length} of ${files.length} images were skipped. ${failures.join(' ')}`);
+    }
+    if (images.length) onImagesSelected(images);
+  };
 
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64 = reader.result as string;
-      onImageSelected(base64, file.type);
+  // Pasting anywhere on the page works, except into a text field
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+      const files = imageFilesFromClipboard(e.clipboardData);
+      if (!files.length) return;
+      e.preventDefault();
+      processFiles(files);
     };
-    reader.readAsDataURL(file);
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  });
+
+  const handleFetchUrl = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim() || isProcessing) return;
+
+    setError(null);
+    setIsProcessing(true);
+    let file: File;
+    try {
+      file = await fetchImageFromUrl(url);
+    } catch (err) {
+      setIsProcessing(false);
+      setError(toMuseError(err).message);
+      return;
+    }
+    setIsProcessing(false);
+    setUrl('');
+    setShowUrl(false);
+    processFiles([file]);
+  };
+
+  const handleCapture = (file: File) => {
+    setShowCamera(false);
+    processFiles([file]);
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -44,34 +107,119 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelected }) =>
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    const file = e.dataTransfer.files?.[0];
-    processFile(file);
+    processFiles(Array.from(e.dataTransfer.files));
   };
 
+  const update = <K extends keyof ImagePreprocessOptions>(key: K, value: ImagePreprocessOptions[K]) =>
+    onOptionsChange({ ...options, [key]: value });
+
   return (
-    <div
-      onClick={() => fileInputRef.current?.click()}
-      onDragOver={handleDragOver}
-      onDragLeave={handleDragLeave}
-      onDrop={handleDrop}
-      className={`
-        w-full h-64 border-2 border-dashed rounded-xl flex flex-col items-center justify-center cursor-pointer transition-all duration-300
-        ${isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 hover:border-indigo-400 hover:bg-gray-50'}
-      `}
-    >
-      <input
-        type="file"
-        ref={fileInputRef}
-        onChange={handleFileChange}
-        className="hidden"
-        accept="image/*"
-      />
-      <div className="bg-indigo-100 p-4 rounded-full mb-4">
-        <Upload className="w-8 h-8 text-indigo-600" />
+    <div className="space-y-3">
+      <div
+        onClick={() => !isProcessing && fileInputRef.current?.click()}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        className={`
+          w-full h-64 border-2 border-dashed rounded-xl flex flex-col items-center justify-center cursor-pointer transition-all duration-300
+          ${isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 hover:border-indigo-400 hover:bg-gray-50'}
+        `}
+      >
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          className="hidden"
+          accept="image/*"
+          multiple
+        />
+        {isProcessing ? (
+          <>
+            <LoadingSpinner />
+            <p className="text-gray-500 text-sm mt-4">Preparing image...</p>
+          </>
+        ) : (
+          <>
+            <div className="bg-indigo-100 p-4 rounded-full mb-4">
+              <Upload className="w-8 h-8 text-indigo-600" />
+            </div>
+            <p className="text-gray-700 font-medium text-lg">Click to upload an image</p>
+            <p className="text-gray-500 text-sm mt-2">or drag and drop, or paste, here. Add several to build a storyboard.</p>
+            <p className="text-gray-400 text-xs mt-4">Supports JPG, PNG, WEBP, GIF, AVIF and SVG</p>
+          </>
+        )}
+      </div>
+
+      <div className="flex justify-center gap-2">
+        <button
+          onClick={() => setShowCamera(!showCamera)}
+          disabled={isProcessing}
+          className={`flex items-center gap-1 px-3 py-1.5 rounded-full text-sm border disabled:opacity-50 ${
+            showCamera ? 'border-indigo-300 bg-indigo-50 text-indigo-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+          }`}
+        >
+          <Camera className="w-4 h-4" /> Take photo
+        </button>
+        <button
+          onClick={() => setShowUrl(!showUrl)}
+          disabled={isProcessing}
+          className={`flex items-center gap-1 px-3 py-1.5 rounded-full text-sm border disabled:opacity-50 ${
+            showUrl ? 'border-indigo-300 bg-indigo-50 text-indigo-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+          }`}
+        >
+          <Link className="w-4 h-4" /> From URL
+        </button>
+      </div>
+
+      {showUrl && (
+        <form onSubmit={handleFetchUrl} className="flex gap-2">
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/photo.jpg"
+            autoFocus
+            className="flex-1 bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-indigo-500"
+          />
+          <button
+            type="submit"
+            disabled={!url.trim() || isProcessing}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Fetch
+          </button>
+        </form>
+      )}
+
+      {showCamera && <WebcamCapture onCapture={handleCapture} onClose={() => setShowCamera(false)} />}
+
+      {error && (
+        <p role="alert" className="flex items-center gap-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" /> {error}
+        </p>
+      )}
+
+      {/* Smaller uploads mean faster, cheaper model calls */}
+      <div className="flex flex-wrap items-center justify-center gap-3 text-xs text-gray-500">
+        <label className="flex items-center gap-1">
+          Max size
+          <select value={options.maxDimension} onChange={(e) => update('maxDimension', Number(e.target.value))} className={selectClass}>
+            {MAX_DIMENSION_CHOICES.map(size => <option key={size} value={size}>{size}px</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Format
+          <select value={options.format} onChange={(e) => update('format', e.target.value as ImagePreprocessOptions['format'])} className={selectClass}>
+            {IMAGE_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Quality
+          <select value={options.quality} onChange={(e) => update('quality', Number(e.target.value))} className={selectClass}>
+            {QUALITY_CHOICES.map(q => <option key={q} value={q}>{Math.round(q * 100)}%</option>)}
+          </select>
+        </label>
       </div>
-      <p className="text-gray-700 font-medium text-lg">Click to upload an image</p>
-      <p className="text-gray-500 text-sm mt-2">or drag and drop here</p>
-      <p className="text-gray-400 text-xs mt-4">Supports JPG, PNG, WEBP</p>
     </div>
   );
 };
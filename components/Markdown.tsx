@@ -0,0 +1,106 @@
+import React from 'react';
+
+interface MarkdownProps {
+  text: string;
+}
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'quote'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'code'; text: string }
+  | { type: 'paragraph'; text: string };
+
+const LIST_ITEM = /^\s*(?:[-*+]|(\d+)[.)])\s+(.*)$/;
+
+// Covers what chat replies actually use; anything else is shown as plain text
+const parseBlocks = (text: string): Block[] => {
+  const blocks: Block[] = [];
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) continue;
+
+    if (line.trim().startsWith('```')) {
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith('```')) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quoted = [line.replace(/^>\s?/, '')];
+      while (i + 1 < lines.length && lines[i + 1].startsWith('>')) quoted.push(lines[++i].replace(/^>\s?/, ''));
+      blocks.push({ type: 'quote', text: quoted.join('\n') });
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const ordered = item[1] !== undefined;
+      const items = [item[2]];
+      for (let next; i + 1 < lines.length && (next = LIST_ITEM.exec(lines[i + 1])) && (next[1] !== undefined) === ordered; i++) {
+        items.push(next[2]);
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    const paragraph = [line];
+    while (i + 1 < lines.length && lines[i + 1].trim() && !/^(#{1,6}\s|>|```)/.test(lines[i + 1]) && !LIST_ITEM.test(lines[i + 1])) {
+      paragraph.push(lines[++i]);
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+  }
+  return blocks;
+};
+
+const INLINE = /(\*\*[^*]+\*\*|__[^_]+__|`[^`]+`|\*[^*\s][^*]*\*|_[^_\s][^_]*_)/g;
+
+const renderInline = (text: string): React.ReactNode[] =>
+  text.split(INLINE).map((part, i) => {
+    if (/^(\*\*|__).+\1$/.test(part)) return <strong key={i}>{part.slice(2, -2)}</strong>;
+    if (/^`.+`$/.test(part)) return <code key={i} className="px-1 rounded bg-gray-100 text-[0.85em]">{part.slice(1, -1)}</code>;
+    if (/^([*_]).+\1$/.test(part)) return <em key={i}>{part.slice(1, -1)}</em>;
+    return part;
+  });
+
+/**
+ * Renders the small subset of markdown chat models reply in: headings, lists, quotes,
+ * code and bold/italic text. Builds elements directly, so replies can't inject HTML.
+ */
+export const Markdown: React.FC<MarkdownProps> = ({ text }) => (
+  <div className="space-y-2">
+    {parseBlocks(text).map((block, i) => {
+      switch (block.type) {
+        case 'heading':
+          return <p key={i} className="font-semibold">{renderInline(block.text)}</p>;
+        case 'quote':
+          return (
+            <blockquote key={i} className="border-l-2 border-indigo-200 pl-3 text-gray-600 italic">
+              <Markdown text={block.text} />
+            </blockquote>
+          );
+        case 'list': {
+          const List = block.ordered ? 'ol' : 'ul';
+          return (
+            <List key={i} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+            </List>
+          );
+        }
+        case 'code':
+          return <pre key={i} className="p-2 rounded-lg bg-gray-100 text-xs overflow-x-auto whitespace-pre-wrap">{block.text}</pre>;
+        case 'paragraph':
+          return <p key={i} className="whitespace-pre-wrap">{renderInline(block.text)}</p>;
+      }
+    })}
+  </div>
+);
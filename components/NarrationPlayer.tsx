@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Play, Pause, Square, Volume2, VolumeX, Download } from 'lucide-react';
+
+interface NarrationPlayerProps {
+  isPlaying: boolean;
+  isSynthesizing: boolean; // More audio is still on its way
+  position: number;
+  duration: number;
+  rate: number;
+  volume: number;
+  onPlay: () => void;
+  onPause: () => void;
+  onStop: () => void;
+  onSeek: (time: number) => void;
+  onRateChange: (rate: number) => void;
+  onVolumeChange: (volume: number) => void;
+  onDownload: (format: 'wav' | 'mp3') => void;
+  canDownload: boolean; // Only once the whole narration exists
+}
+
+const RATES = [0.75, 1, 1.25, 1.5, 2];
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+export const NarrationPlayer: React.FC<NarrationPlayerProps> = ({
+  isPlaying,
+  isSynthesizing,
+  position,
+  duration,
+  rate,
+  volume,
+  onPlay,
+  onPause,
+  onStop,
+  onSeek,
+  onRateChange,
+  onVolumeChange,
+  onDownload,
+  canDownload,
+}) => {
+  const [isDownloadOpen, setIsDownloadOpen] = useState(false);
+  const iconButton = 'p-2 rounded-full text-gray-600 hover:bg-indigo-50 hover:text-indigo-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+  return (
+    <div className="flex items-center gap-3 px-6 py-3 border-b border-gray-100 bg-gray-50 text-sm">
+      <button onClick={isPlaying ? onPause : onPlay} className={iconButton} title={isPlaying ? 'Pause' : 'Play'}>
+        {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </button>
+      <button onClick={onStop} className={iconButton} title="Stop">
+        <Square className="w-4 h-4" />
+      </button>
+
+      <span className="text-xs tabular-nums text-gray-500 w-10 text-right">{formatTime(position)}</span>
+      <input
+        type="range"
+        min={0}
+        max={duration || 0}
+        step={0.1}
+        value={Math.min(position, duration)}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="flex-1 accent-indigo-600"
+        aria-label="Seek"
+      />
+      <span className="text-xs tabular-nums text-gray-500 w-12">
+        {formatTime(duration)}{isSynthesizing && '…'}
+      </span>
+
+      <select
+        value={rate}
+        onChange={(e) => onRateChange(Number(e.target.value))}
+        className="bg-white border border-gray-200 rounded-lg px-1.5 py-1 text-xs outline-none"
+        aria-label="Playback speed"
+      >
+        {RATES.map(r => <option key={r} value={r}>{r}×</option>)}
+      </select>
+
+      <button onClick={() => onVolumeChange(volume > 0 ? 0 : 1)} className={iconButton} title={volume > 0 ? 'Mute' : 'Unmute'}>
+        {volume > 0 ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={volume}
+        onChange={(e) => onVolumeChange(Number(e.target.value))}
+        className="w-20 accent-indigo-600"
+        aria-label="Volume"
+      />
+
+      <div className="relative">
+        <button
+          onClick={() => setIsDownloadOpen(open => !open)}
+          disabled={!canDownload}
+          className={iconButton}
+          title={canDownload ? 'Download narration' : 'Available once narration finishes'}
+        >
+          <Download className="w-4 h-4" />
+        </button>
+        {isDownloadOpen && canDownload && (
+          <div className="absolute right-0 top-full mt-1 bg-white border border-gray-100 rounded-lg shadow-lg py-1 z-20 w-40">
+            <button
+              onClick={() => { onDownload('wav'); setIsDownloadOpen(false); }}
+              className="block w-full text-left px-3 py-1.5 text-xs hover:bg-gray-50"
+            >
+              WAV (lossless)
+            </button>
+            <button
+              onClick={() => { onDownload('mp3'); setIsDownloadOpen(false); }}
+              className="block w-full text-left px-3 py-1.5 text-xs hover:bg-gray-50"
+            >
+              MP3 (compressed)
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { TextSpan } from '../utils/text';
+
+interface NarrationTextProps {
+  text: string;
+  sentences: TextSpan[];
+  activeSentence: number; // -1 when nothing is being read
+  onSentenceClick: (index: number) => void;
+}
+
+export const NarrationText: React.FC<NarrationTextProps> = ({ text, sentences, activeSentence, onSentenceClick }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  sentences.forEach((sentence, index) => {
+    // Keep the whitespace and line breaks between sentences as they are in the draft
+    if (sentence.start > cursor) parts.push(text.slice(cursor, sentence.start));
+    parts.push(
+      <span
+        key={index}
+        onClick={() => onSentenceClick(index)}
+        title="Play from here"
+        className={`
+          cursor-pointer rounded transition-colors
+          ${index === activeSentence ? 'bg-yellow-200 text-gray-900' : 'hover:bg-indigo-50'}
+        `}
+      >
+        {sentence.text}
+      </span>
+    );
+    cursor = sentence.end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return (
+    <div className="flex-1 overflow-y-auto font-serif text-gray-800 leading-relaxed text-xl whitespace-pre-wrap">
+      {parts}
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { SafetySettings } from '../types';
+import { HarmCategory, SafetyThreshold } from '../services/providers';
+import { HARM_CATEGORY_LABELS } from '../services/errors';
+import { KID_AGE_RANGES } from '../services/promptBuilder';
+
+const THRESHOLD_OPTIONS: { value: SafetyThreshold; label: string }[] = [
+  { value: 'default', label: "Provider's default" },
+  { value: 'low', label: 'Strict: block at low risk' },
+  { value: 'medium', label: 'Block at medium risk' },
+  { value: 'high', label: 'Relaxed: block only high risk' },
+  { value: 'none', label: 'Never block' },
+];
+
+const selectClass = 'w-full bg-gray-50 border border-gray-200 rounded-lg px-2 py-1.5 text-sm text-gray-700 outline-none focus:border-indigo-500 disabled:opacity-50';
+
+interface SafetyMenuProps {
+  settings: SafetySettings;
+  onChange: (settings: SafetySettings) => void;
+}
+
+/**
+ * Header control for the safety filters: a one-switch kid-safe mode for a chosen age
+ * range, or thresholds set per harm category. The button shows when kid-safe mode is on.
+ */
+export const SafetyMenu: React.FC<SafetyMenuProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const setThreshold = (category: HarmCategory, threshold: SafetyThreshold) =>
+    onChange({ ...settings, thresholds: { ...settings.thresholds, [category]: threshold } });
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center gap-2 px-3 py-2 rounded-full text-sm font-medium transition-colors ${
+          settings.kidSafe ? 'bg-emerald-50 text-emerald-700 hover:bg-emerald-100' : 'text-gray-700 hover:bg-gray-100'
+        }`}
+      >
+        <ShieldCheck className="w-4 h-4" /> {settings.kidSafe ? `Kid-safe, ages ${settings.ageRange}` : 'Safety'}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 bg-white border border-gray-100 rounded-lg shadow-lg p-4 z-20 w-80 space-y-4">
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-800">
+              <input
+                type="checkbox"
+                checked={settings.kidSafe}
+                onChange={(e) => onChange({ ...settings, kidSafe: e.target.checked })}
+                className="accent-indigo-600"
+              />
+              Kid-safe mode
+            </label>
+            <p className="text-xs text-gray-500">
+              Blocks anything with even a low risk of harm, and asks for stories, chat and pictures suited to the age range.
+            </p>
+            <label className="block">
+              <span className="text-xs font-medium text-gray-500">Age range</span>
+              <select
+                value={settings.ageRange}
+                disabled={!settings.kidSafe}
+                onChange={(e) => onChange({ ...settings, ageRange: e.target.value })}
+                className={selectClass}
+              >
+                {KID_AGE_RANGES.map(range => <option key={range} value={range}>{range}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="space-y-2 pt-3 border-t border-gray-100">
+            <p className="text-xs font-semibold text-gray-600">Filter by category</p>
+            {settings.kidSafe && <p className="text-xs text-gray-400">Kid-safe mode uses the strictest setting for every category.</p>}
+            {(Object.keys(HARM_CATEGORY_LABELS) as HarmCategory[]).map(category => (
+              <label key={category} className="block">
+                <span className="text-xs font-medium text-gray-500">{HARM_CATEGORY_LABELS[category]}</span>
+                <select
+                  value={settings.kidSafe ? 'low' : settings.thresholds[category] ?? 'default'}
+                  disabled={settings.kidSafe}
+                  onChange={(e) => setThreshold(category, e.target.value as SafetyThreshold)}
+                  className={selectClass}
+                >
+                  {THRESHOLD_OPTIONS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
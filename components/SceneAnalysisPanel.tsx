@@ -0,0 +1,108 @@
+import React from 'react';
+import { Eye, Pin, RefreshCw } from 'lucide-react';
+import { SceneAnalysis } from '../types';
+import { MuseError } from '../services/errors';
+import { ErrorNotice } from './ErrorNotice';
+
+interface SceneAnalysisPanelProps {
+  analysis: SceneAnalysis | null;
+  isAnalyzing: boolean;
+  pinnedDetails: string[];
+  onTogglePin: (detail: string) => void;
+  onRegenerate: () => void;
+  canRegenerate: boolean;
+  error: MuseError | null;
+  onRetry: () => void;
+}
+
+interface ChipProps {
+  detail: string;
+  label?: string;
+  swatch?: string;
+  isPinned: boolean;
+  onToggle: (detail: string) => void;
+}
+
+const DetailChip: React.FC<ChipProps> = ({ detail, label, swatch, isPinned, onToggle }) => (
+  <button
+    onClick={() => onToggle(detail)}
+    title={isPinned ? 'Unpin from story prompt' : 'Pin to emphasize in the story'}
+    className={`
+      inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs border transition-colors
+      ${isPinned
+        ? 'bg-indigo-600 border-indigo-600 text-white'
+        : 'bg-white border-gray-200 text-gray-700 hover:border-indigo-300'}
+    `}
+  >
+    {swatch && <span className="w-3 h-3 rounded-full border border-black/10" style={{ backgroundColor: swatch }} />}
+    {label ?? detail}
+    {isPinned && <Pin className="w-3 h-3" />}
+  </button>
+);
+
+export const SceneAnalysisPanel: React.FC<SceneAnalysisPanelProps> = ({
+  analysis,
+  isAnalyzing,
+  pinnedDetails,
+  onTogglePin,
+  onRegenerate,
+  canRegenerate,
+  error,
+  onRetry,
+}) => {
+  const chip = (detail: string, extra: Partial<ChipProps> = {}) => (
+    <DetailChip
+      key={detail}
+      detail={detail}
+      isPinned={pinnedDetails.includes(detail)}
+      onToggle={onTogglePin}
+      {...extra}
+    />
+  );
+
+  const row = (label: string, items: React.ReactNode[]) =>
+    items.length > 0 && (
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="text-xs font-medium text-gray-400 w-20 flex-shrink-0">{label}</span>
+        {items}
+      </div>
+    );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-800 flex items-center gap-2">
+          <Eye className="w-4 h-4 text-indigo-500" /> Scene Analysis
+        </h3>
+        {pinnedDetails.length > 0 && (
+          <button
+            onClick={onRegenerate}
+            disabled={!canRegenerate}
+            className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className="w-3 h-3" /> Rewrite with pins
+          </button>
+        )}
+      </div>
+
+      {error && !isAnalyzing ? (
+        <ErrorNotice error={error} context="Couldn't analyze the scene" onRetry={onRetry} compact />
+      ) : isAnalyzing && !analysis ? (
+        <p className="text-xs text-gray-400 animate-pulse">Studying the image...</p>
+      ) : !analysis ? (
+        <p className="text-xs text-gray-400">No analysis available.</p>
+      ) : (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {row('Mood', analysis.mood ? [chip(analysis.mood)] : [])}
+          {row('Lighting', analysis.lighting ? [chip(analysis.lighting)] : [])}
+          {row('Time', analysis.timeOfDay ? [chip(analysis.timeOfDay)] : [])}
+          {row('Setting', analysis.setting ? [chip(analysis.setting)] : [])}
+          {row('Palette', analysis.colorPalette.map(hex => chip(`colour ${hex}`, { label: hex, swatch: hex })))}
+          {row('Objects', analysis.objects.map(item => chip(item)))}
+          {row('Characters', analysis.characters.map(item => chip(item)))}
+          {row('Genres', analysis.suggestedGenres.map(item => chip(item)))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React from 'react';
+import { BookMarked, Plus, RefreshCw, X } from 'lucide-react';
+import { StoryBibleEntry, StoryBibleKind } from '../types';
+import { STORY_BIBLE_KINDS } from '../services/promptBuilder';
+import { MuseError } from '../services/errors';
+import { ErrorNotice } from './ErrorNotice';
+
+interface StoryBiblePanelProps {
+  entries: StoryBibleEntry[];
+  isExtracting: boolean;
+  error: MuseError | null;
+  onRefresh: () => void;
+  onChange: (entry: StoryBibleEntry) => void;
+  onRemove: (id: string) => void;
+  onAdd: (kind: StoryBibleKind) => void;
+}
+
+export const StoryBiblePanel: React.FC<StoryBiblePanelProps> = ({
+  entries,
+  isExtracting,
+  error,
+  onRefresh,
+  onChange,
+  onRemove,
+  onAdd,
+}) => (
+  <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4">
+    <div className="flex items-center justify-between mb-3">
+      <h3 className="text-sm font-semibold text-gray-800 flex items-center gap-2">
+        <BookMarked className="w-4 h-4 text-indigo-500" /> Story Bible
+      </h3>
+      <button
+        onClick={onRefresh}
+        disabled={isExtracting}
+        title="Read the draft and chat again"
+        className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <RefreshCw className={`w-3 h-3 ${isExtracting ? 'animate-spin' : ''}`} /> {isExtracting ? 'Updating...' : 'Update'}
+      </button>
+    </div>
+
+    {error && !isExtracting && (
+      <div className="mb-3">
+        <ErrorNotice error={error} context="Couldn't update the story bible" onRetry={onRefresh} compact />
+      </div>
+    )}
+
+    {entries.length === 0 && !isExtracting && (
+      <p className="text-xs text-gray-400 mb-2">
+        Characters, places and facts are collected here as the story grows, and every prompt is kept consistent with them.
+      </p>
+    )}
+
+    <div className="space-y-3 max-h-64 overflow-y-auto">
+      {STORY_BIBLE_KINDS.map(({ value, label }) => {
+        const group = entries.filter(entry => entry.kind === value);
+        return (
+          <div key={value}>
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-gray-400">{label}</span>
+              <button
+                onClick={() => onAdd(value)}
+                title={`Add to ${label.toLowerCase()}`}
+                className="p-0.5 text-gray-400 hover:text-indigo-600"
+              >
+                <Plus className="w-3 h-3" />
+              </button>
+            </div>
+            {group.map(entry => (
+              <div key={entry.id} className="group flex items-start gap-1 py-1">
+                <div className="flex-1 min-w-0">
+                  <input
+                    value={entry.name}
+                    onChange={(e) => onChange({ ...entry, name: e.target.value })}
+                    placeholder="Name"
+                    className="w-full text-sm font-medium text-gray-800 bg-transparent outline-none rounded px-1 focus:bg-gray-50"
+                  />
+                  <textarea
+                    value={entry.details}
+                    onChange={(e) => onChange({ ...entry, details: e.target.value })}
+                    placeholder="Details the story should keep consistent"
+                    rows={Math.max(1, Math.ceil(entry.details.length / 40))}
+                    className="w-full resize-none text-xs text-gray-500 bg-transparent outline-none rounded px-1 focus:bg-gray-50"
+                  />
+                </div>
+                <button
+                  onClick={() => onRemove(entry.id)}
+                  title="Remove"
+                  className="p-0.5 text-gray-300 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-red-500"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
@@ -0,0 +1,96 @@
+import React, { useRef, useState } from 'react';
+import { FastForward, Wand2, Maximize2, Minimize2, History, PenLine, Headphones } from 'lucide-react';
+import { SelectionEdit } from '../services/promptBuilder';
+
+interface StoryEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  isBusy: boolean; // A generation or AI edit is writing into the draft
+  onContinue: () => void;
+  onEditSelection: (mode: SelectionEdit, start: number, end: number) => void;
+  onShowHistory: () => void;
+  versionCount: number;
+  isListening: boolean;
+  onListeningChange: (isListening: boolean) => void;
+  children?: React.ReactNode; // The read-along view, shown instead of the text box while listening
+}
+
+const toolbarButton = 'flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+export const StoryEditor: React.FC<StoryEditorProps> = ({
+  value,
+  onChange,
+  isBusy,
+  onContinue,
+  onEditSelection,
+  onShowHistory,
+  versionCount,
+  isListening,
+  onListeningChange,
+  children,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+  const hasSelection = selection.end > selection.start;
+
+  const trackSelection = () => {
+    const el = textareaRef.current;
+    if (el) setSelection({ start: el.selectionStart, end: el.selectionEnd });
+  };
+
+  const selectionAction = (mode: SelectionEdit) => () => {
+    onEditSelection(mode, selection.start, selection.end);
+    setSelection({ start: 0, end: 0 });
+  };
+
+  return (
+    <div className="flex flex-col h-full gap-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex rounded-full bg-gray-100 p-0.5">
+          <button
+            onClick={() => onListeningChange(false)}
+            className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium ${!isListening ? 'bg-white shadow-sm text-indigo-700' : 'text-gray-500'}`}
+          >
+            <PenLine className="w-3.5 h-3.5" /> Edit
+          </button>
+          <button
+            onClick={() => onListeningChange(true)}
+            className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium ${isListening ? 'bg-white shadow-sm text-indigo-700' : 'text-gray-500'}`}
+          >
+            <Headphones className="w-3.5 h-3.5" /> Listen
+          </button>
+        </div>
+        <button onClick={onContinue} disabled={isBusy || !value.trim()} className={toolbarButton}>
+          <FastForward className="w-3.5 h-3.5" /> Continue the story
+        </button>
+        <button onClick={selectionAction('rewrite')} disabled={isBusy || !hasSelection} className={toolbarButton}>
+          <Wand2 className="w-3.5 h-3.5" /> Rewrite selection
+        </button>
+        <button onClick={selectionAction('expand')} disabled={isBusy || !hasSelection} className={toolbarButton}>
+          <Maximize2 className="w-3.5 h-3.5" /> Expand
+        </button>
+        <button onClick={selectionAction('condense')} disabled={isBusy || !hasSelection} className={toolbarButton}>
+          <Minimize2 className="w-3.5 h-3.5" /> Condense
+        </button>
+        <button onClick={onShowHistory} disabled={versionCount === 0} className={`${toolbarButton} ml-auto`}>
+          <History className="w-3.5 h-3.5" /> History ({versionCount})
+        </button>
+      </div>
+
+      {isListening ? children : (
+        <textarea
+          ref={textareaRef}
+          value={value}
+          readOnly={isBusy}
+          onChange={(e) => onChange(e.target.value)}
+          onSelect={trackSelection}
+          placeholder="Your story will appear here. You can edit it freely."
+          className={`
+            flex-1 w-full resize-none outline-none bg-transparent font-serif text-gray-800 leading-relaxed text-xl
+            ${isBusy ? 'cursor-wait' : ''}
+          `}
+        />
+      )}
+    </div>
+  );
+};
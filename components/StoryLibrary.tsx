@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { Library, Search, Pencil, Trash2, X, Check } from 'lucide-react';
+import { StorySession } from '../types';
+import { listSessions, deleteSession, renameSession, displayTitle, matchesQuery } from '../services/storyLibrary';
+import { toDataUrl } from '../services/imagePreprocessor';
+
+interface StoryLibraryProps {
+  isOpen: boolean;
+  activeSessionId: string | null;
+  refreshKey: number; // Bumped by the parent whenever a session is saved
+  onClose: () => void;
+  onOpenSession: (session: StorySession) => void;
+  onSessionRenamed: (id: string, title: string) => void;
+  onSessionDeleted: (id: string) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+export const StoryLibrary: React.FC<StoryLibraryProps> = ({
+  isOpen,
+  activeSessionId,
+  refreshKey,
+  onClose,
+  onOpenSession,
+  onSessionRenamed,
+  onSessionDeleted,
+}) => {
+  const [sessions, setSessions] = useState<StorySession[]>([]);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    listSessions()
+      .then(result => { if (!cancelled) setSessions(result); })
+      .catch(e => console.error("Failed to load library", e));
+    return () => { cancelled = true; };
+  }, [isOpen, refreshKey]);
+
+  const startRename = (session: StorySession) => {
+    setEditingId(session.id);
+    setDraftTitle(displayTitle(session));
+  };
+
+  const commitRename = async (id: string) => {
+    const title = draftTitle.trim();
+    setEditingId(null);
+    if (!title) return;
+    await renameSession(id, title);
+    setSessions(prev => prev.map(s => (s.id === id ? { ...s, title } : s)));
+    onSessionRenamed(id, title);
+  };
+
+  const handleDelete = async (session: StorySession) => {
+    if (!window.confirm(`Delete "${displayTitle(session)}"? This cannot be undone.`)) return;
+    await deleteSession(session.id);
+    setSessions(prev => prev.filter(s => s.id !== session.id));
+    onSessionDeleted(session.id);
+  };
+
+  if (!isOpen) return null;
+
+  const visible = sessions.filter(s => matchesQuery(s, query));
+
+  return (
+    <div className="fixed inset-0 z-30 flex">
+      <div className="absolute inset-0 bg-gray-900/30" onClick={onClose} />
+      <aside className="relative w-full max-w-sm h-full bg-white shadow-xl flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <h2 className="font-semibold text-gray-800 flex items-center gap-2">
+            <Library className="w-5 h-5 text-indigo-600" /> Story Library
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-100 text-gray-500" title="Close library">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-100">
+          <div className="flex items-center gap-2 bg-gray-50 rounded-full px-4 py-2 border border-gray-200 focus-within:border-indigo-500 transition-all">
+            <Search className="w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search stories..."
+              className="flex-1 bg-transparent border-none text-sm text-gray-700 outline-none"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2">
+          {visible.length === 0 && (
+            <p className="text-sm text-gray-400 text-center mt-8">
+              {sessions.length ? 'No stories match your search.' : 'Your saved stories will appear here.'}
+            </p>
+          )}
+          {visible.map(session => (
+            <div
+              key={session.id}
+              className={`
+                group flex gap-3 p-2 rounded-xl cursor-pointer transition-colors
+                ${session.id === activeSessionId ? 'bg-indigo-50' : 'hover:bg-gray-50'}
+              `}
+              onClick={() => editingId !== session.id && onOpenSession(session)}
+            >
+              <img src={toDataUrl(session.image)} alt="" className="w-16 h-12 rounded-lg object-cover bg-gray-200 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                {editingId === session.id ? (
+                  <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      autoFocus
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename(session.id);
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 min-w-0 text-sm border border-indigo-300 rounded px-2 py-1 outline-none"
+                    />
+                    <button onClick={() => commitRename(session.id)} className="p-1 text-indigo-600" title="Save title">
+                      <Check className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <p className="text-sm font-medium text-gray-800 truncate">{displayTitle(session)}</p>
+                )}
+                <p className="text-xs text-gray-400 mt-1">{formatDate(session.updatedAt)}</p>
+              </div>
+              {editingId !== session.id && (
+                <div className="flex items-start gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); startRename(session); }}
+                    className="p-1 text-gray-400 hover:text-indigo-600"
+                    title="Rename"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleDelete(session); }}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </aside>
+    </div>
+  );
+};
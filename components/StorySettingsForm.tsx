@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, Plus, Pencil, Trash2, RefreshCw } from 'lucide-react';
+import { PromptTemplate, StorySettings } from '../types';
+import {
+  GENRES,
+  TONES,
+  POINTS_OF_VIEW,
+  TENSES,
+  READING_LEVELS,
+  LANGUAGES,
+  TEMPLATE_VARIABLES,
+  MAX_VARIANTS,
+  findTemplate,
+} from '../services/promptBuilder';
+
+interface StorySettingsFormProps {
+  settings: StorySettings;
+  onChange: (settings: StorySettings) => void;
+  templates: PromptTemplate[];
+  onSaveTemplate: (template: PromptTemplate) => void;
+  onDeleteTemplate: (id: string) => void;
+  onRegenerate?: () => void; // Shown once there is an image to regenerate from
+  isRegenerateDisabled?: boolean;
+}
+
+const selectClass = 'w-full bg-gray-50 border border-gray-200 rounded-lg px-2 py-1.5 text-sm text-gray-700 outline-none focus:border-indigo-500';
+
+export const StorySettingsForm: React.FC<StorySettingsFormProps> = ({
+  settings,
+  onChange,
+  templates,
+  onSaveTemplate,
+  onDeleteTemplate,
+  onRegenerate,
+  isRegenerateDisabled,
+}) => {
+  const [editing, setEditing] = useState<PromptTemplate | null>(null);
+
+  const update = <K extends keyof StorySettings>(key: K, value: StorySettings[K]) =>
+    onChange({ ...settings, [key]: value });
+
+  const select = (label: string, key: 'genre' | 'tone' | 'pointOfView' | 'tense' | 'readingLevel' | 'language', options: string[]) => (
+    <label className="block">
+      <span className="text-xs font-medium text-gray-500">{label}</span>
+      <select value={settings[key]} onChange={(e) => update(key, e.target.value)} className={selectClass}>
+        {options.map(option => <option key={option} value={option}>{option}</option>)}
+      </select>
+    </label>
+  );
+
+  const activeTemplate = findTemplate(templates, settings.templateId);
+
+  const startNewTemplate = () => {
+    setEditing({ id: crypto.randomUUID(), name: 'My template', body: activeTemplate.body });
+  };
+
+  const commitTemplate = () => {
+    if (!editing || !editing.name.trim() || !editing.body.trim()) return;
+    onSaveTemplate({ ...editing, name: editing.name.trim() });
+    update('templateId', editing.id);
+    setEditing(null);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-800 flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4 text-indigo-500" /> Story Settings
+        </h3>
+        {onRegenerate && (
+          <button
+            onClick={onRegenerate}
+            disabled={isRegenerateDisabled}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className="w-3 h-3" /> Regenerate
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {select('Genre', 'genre', GENRES)}
+        {select('Tone', 'tone', TONES)}
+        {select('Point of view', 'pointOfView', POINTS_OF_VIEW)}
+        {select('Tense', 'tense', TENSES)}
+        <label className="block">
+          <span className="text-xs font-medium text-gray-500">Length (words)</span>
+          <input
+            type="number"
+            min={50}
+            max={2000}
+            step={50}
+            value={settings.targetWords}
+            onChange={(e) => update('targetWords', Math.max(50, Math.min(2000, Number(e.target.value) || 50)))}
+            className={selectClass}
+          />
+        </label>
+        {select('Reading level', 'readingLevel', READING_LEVELS)}
+        {select('Language', 'language', LANGUAGES)}
+        <label className="block">
+          <span className="text-xs font-medium text-gray-500">Template</span>
+          <select value={activeTemplate.id} onChange={(e) => update('templateId', e.target.value)} className={selectClass}>
+            {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs font-medium text-gray-500">Takes to compare</span>
+          <select value={settings.variantCount} onChange={(e) => update('variantCount', Number(e.target.value))} className={selectClass}>
+            {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex items-center gap-3 text-xs">
+        <button onClick={startNewTemplate} className="flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium">
+          <Plus className="w-3 h-3" /> New template
+        </button>
+        {!activeTemplate.builtIn && (
+          <>
+            <button onClick={() => setEditing(activeTemplate)} className="flex items-center gap-1 text-gray-500 hover:text-indigo-600">
+              <Pencil className="w-3 h-3" /> Edit
+            </button>
+            <button onClick={() => onDeleteTemplate(activeTemplate.id)} className="flex items-center gap-1 text-gray-500 hover:text-red-600">
+              <Trash2 className="w-3 h-3" /> Delete
+            </button>
+          </>
+        )}
+      </div>
+
+      {editing && (
+        <div className="border border-indigo-100 bg-indigo-50/40 rounded-xl p-3 space-y-2">
+          <input
+            value={editing.name}
+            onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+            placeholder="Template name"
+            className={selectClass}
+          />
+          <textarea
+            value={editing.body}
+            onChange={(e) => setEditing({ ...editing, body: e.target.value })}
+            rows={5}
+            className={`${selectClass} font-mono text-xs`}
+          />
+          <p className="text-xs text-gray-500">
+            Variables:{' '}
+            {Object.entries(TEMPLATE_VARIABLES).map(([name, help]) => (
+              <code key={name} title={help} className="mr-2 text-indigo-700">{`{{${name}}}`}</code>
+            ))}
+          </p>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setEditing(null)} className="px-3 py-1 text-xs text-gray-600 hover:text-gray-800">Cancel</button>
+            <button onClick={commitTemplate} className="px-3 py-1 text-xs rounded-full bg-indigo-600 text-white hover:bg-indigo-700">Save template</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, X, Clapperboard } from 'lucide-react';
+import { ImagePayload } from '../types';
+import { toDataUrl } from '../services/imagePreprocessor';
+
+interface StoryboardStripProps {
+  images: ImagePayload[];
+  onChange: (images: ImagePayload[]) => void;
+  onStart: () => void;
+  onCancel: () => void;
+}
+
+const move = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+export const StoryboardStrip: React.FC<StoryboardStripProps> = ({ images, onChange, onStart, onCancel }) => {
+  // Index of the frame being dragged to a new position
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const handleDrop = (target: number) => {
+    if (dragIndex !== null && dragIndex !== target) onChange(move(images, dragIndex, target));
+    setDragIndex(null);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-800 flex items-center gap-2">
+          <Clapperboard className="w-4 h-4 text-indigo-500" /> Storyboard
+        </h3>
+        <p className="text-xs text-gray-400">Drag to reorder. Each image becomes one chapter.</p>
+      </div>
+
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {images.map((image, index) => (
+          <div
+            key={index}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => handleDrop(index)}
+            onDragEnd={() => setDragIndex(null)}
+            className={`relative flex-shrink-0 w-36 rounded-xl overflow-hidden border bg-gray-100 cursor-grab ${
+              dragIndex === index ? 'opacity-40 border-indigo-400' : 'border-gray-200'
+            }`}
+          >
+            <img src={toDataUrl(image)} alt={`Frame ${index + 1}`} className="w-full h-24 object-cover pointer-events-none" />
+            <span className="absolute top-1 left-1 px-1.5 rounded bg-black/60 text-white text-xs">{index + 1}</span>
+            <button
+              onClick={() => onChange(images.filter((_, i) => i !== index))}
+              title="Remove"
+              className="absolute top-1 right-1 p-0.5 rounded-full bg-white/90 text-gray-600 hover:text-red-600"
+            >
+              <X className="w-3 h-3" />
+            </button>
+            <div className="flex justify-between px-1 py-0.5 bg-white">
+              <button
+                onClick={() => onChange(move(images, index, index - 1))}
+                disabled={index === 0}
+                title="Move earlier"
+                className="text-gray-500 hover:text-indigo-600 disabled:opacity-30"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onChange(move(images, index, index + 1))}
+                disabled={index === images.length - 1}
+                title="Move later"
+                className="text-gray-500 hover:text-indigo-600 disabled:opacity-30"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800">Clear</button>
+        <button
+          onClick={onStart}
+          disabled={images.length === 0}
+          className="px-4 py-2 rounded-full text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Write {images.length} chapter{images.length === 1 ? '' : 's'}
+        </button>
+      </div>
+    </div>
+  );
+};
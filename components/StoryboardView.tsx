@@ -0,0 +1,78 @@
+import React from 'react';
+import { ChevronUp, ChevronDown, RefreshCw } from 'lucide-react';
+import { StoryChapter } from '../types';
+import { toDataUrl } from '../services/imagePreprocessor';
+
+interface StoryboardViewProps {
+  chapters: StoryChapter[];
+  writingIndex: number | null; // Chapter currently being written, if any
+  isBusy: boolean;
+  onChange: (chapters: StoryChapter[]) => void;
+  onRegenerate: (index: number) => void;
+}
+
+export const StoryboardView: React.FC<StoryboardViewProps> = ({ chapters, writingIndex, isBusy, onChange, onRegenerate }) => {
+  const updateText = (index: number, text: string) =>
+    onChange(chapters.map((c, i) => (i === index ? { ...c, text } : c)));
+
+  // Text travels with its image; regenerate afterwards if the story no longer flows
+  const swap = (index: number, other: number) => {
+    const next = [...chapters];
+    [next[index], next[other]] = [next[other], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-8">
+      {chapters.map((chapter, index) => (
+        <section key={chapter.id} className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="md:col-span-2">
+            <img src={toDataUrl(chapter.image)} alt={`Chapter ${index + 1}`} className="w-full rounded-xl object-cover shadow-sm" />
+          </div>
+          <div className="md:col-span-3 flex flex-col">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="font-serif text-lg font-semibold text-gray-800">Chapter {index + 1}</h3>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => swap(index, index - 1)}
+                  disabled={isBusy || index === 0}
+                  title="Move earlier"
+                  className="p-1 text-gray-400 hover:text-indigo-600 disabled:opacity-30"
+                >
+                  <ChevronUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => swap(index, index + 1)}
+                  disabled={isBusy || index === chapters.length - 1}
+                  title="Move later"
+                  className="p-1 text-gray-400 hover:text-indigo-600 disabled:opacity-30"
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onRegenerate(index)}
+                  disabled={isBusy}
+                  className="flex items-center gap-1 ml-2 text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <RefreshCw className={`w-3 h-3 ${writingIndex === index ? 'animate-spin' : ''}`} /> Regenerate
+                </button>
+              </div>
+            </div>
+            {writingIndex === index && !chapter.text ? (
+              <p className="text-sm text-gray-400 animate-pulse">Writing this chapter...</p>
+            ) : (
+              <textarea
+                value={chapter.text}
+                onChange={(e) => updateText(index, e.target.value)}
+                readOnly={writingIndex === index}
+                placeholder={isBusy ? 'Waiting for the chapters before this one...' : 'Not written yet.'}
+                rows={Math.max(6, chapter.text.split('\n').length + 2)}
+                className="flex-1 w-full resize-none font-serif text-gray-800 leading-relaxed bg-transparent outline-none rounded-lg p-2 -m-2 focus:bg-gray-50"
+              />
+            )}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
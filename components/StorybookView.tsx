@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { BookImage, ChevronLeft, ChevronRight, Paintbrush, RefreshCw, Square, X } from 'lucide-react';
+import { Storybook } from '../types';
+import { MuseError } from '../services/errors';
+import { toDataUrl } from '../services/imagePreprocessor';
+import { ErrorNotice } from './ErrorNotice';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface StorybookViewProps {
+  isOpen: boolean;
+  storybook: Storybook | null;
+  drawingIds: string[]; // Pages being drawn or waiting their turn
+  errors: Record<string, MuseError>;
+  isBuilding: boolean;
+  isStale: boolean; // The draft has changed since the pages were made
+  onRedraw: (pageId: string) => void;
+  onRebuild: () => void;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+/**
+ * The draft as a picture book, one spread at a time: the scene's illustration on the
+ * left, its text on the right. Arrow keys turn the pages.
+ */
+export const StorybookView: React.FC<StorybookViewProps> = ({
+  isOpen,
+  storybook,
+  drawingIds,
+  errors,
+  isBuilding,
+  isStale,
+  onRedraw,
+  onRebuild,
+  onCancel,
+  onClose,
+}) => {
+  const [pageIndex, setPageIndex] = useState(0);
+  const pages = storybook?.pages ?? [];
+  const index = Math.min(pageIndex, Math.max(0, pages.length - 1));
+  const page = pages[index];
+
+  // A rebuilt book starts again from its first page
+  useEffect(() => {
+    setPageIndex(0);
+  }, [storybook?.sourceText]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') setPageIndex(i => Math.max(0, i - 1));
+      else if (e.key === 'ArrowRight') setPageIndex(i => Math.min(pages.length - 1, i + 1));
+      else if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [isOpen, pages.length, onClose]);
+
+  if (!isOpen) return null;
+
+  const isDrawing = !!page && drawingIds.includes(page.id);
+  const error = page ? errors[page.id] : undefined;
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/50" onClick={onClose} />
+      <div className="relative w-full max-w-5xl bg-white rounded-2xl shadow-xl flex flex-col max-h-full">
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <h2 className="font-semibold text-gray-800 flex items-center gap-2">
+            <BookImage className="w-5 h-5 text-indigo-600" /> Storybook
+          </h2>
+          <div className="flex items-center gap-2">
+            {isBuilding ? (
+              <button
+                onClick={onCancel}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+              >
+                <Square className="w-3 h-3" /> Stop drawing
+              </button>
+            ) : (
+              <button
+                onClick={onRebuild}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium bg-indigo-50 text-indigo-700 hover:bg-indigo-100"
+              >
+                <RefreshCw className="w-3 h-3" /> Rebuild from draft
+              </button>
+            )}
+            <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-100 text-gray-500" title="Close storybook">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {isStale && !isBuilding && (
+          <p className="mx-4 mt-4 rounded-lg bg-amber-50 p-2 text-xs text-amber-800">
+            The draft has changed since these pages were made. Rebuild to split and draw it again.
+          </p>
+        )}
+
+        {page ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-6 overflow-y-auto">
+            <div className="relative aspect-[4/3] rounded-xl bg-gray-100 overflow-hidden flex items-center justify-center">
+              {page.illustration && (
+                <img
+                  src={toDataUrl(page.illustration)}
+                  alt={`Illustration for page ${index + 1}`}
+                  className={`w-full h-full object-cover ${isDrawing ? 'opacity-40' : ''}`}
+                />
+              )}
+              {isDrawing ? (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-sm text-gray-500">
+                  <LoadingSpinner />
+                  {isBuilding && !page.illustration && drawingIds[0] !== page.id ? 'Waiting for the pages before this one...' : 'Drawing...'}
+                </div>
+              ) : error ? (
+                <div className="absolute inset-x-4 bottom-4">
+                  <ErrorNotice error={error} context="Couldn't draw this page" onRetry={() => onRedraw(page.id)} compact />
+                </div>
+              ) : !page.illustration && (
+                <p className="text-sm text-gray-400">Not drawn yet.</p>
+              )}
+            </div>
+            <div className="flex flex-col">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-serif text-lg font-semibold text-gray-800">Page {index + 1}</h3>
+                <button
+                  onClick={() => onRedraw(page.id)}
+                  disabled={isBuilding || isDrawing}
+                  className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <Paintbrush className="w-3 h-3" /> {page.illustration ? 'Redraw' : 'Draw'}
+                </button>
+              </div>
+              <p className="flex-1 font-serif text-gray-800 leading-relaxed text-lg whitespace-pre-wrap">{page.text}</p>
+            </div>
+          </div>
+        ) : (
+          <p className="p-12 text-center text-sm text-gray-400">The draft is empty, so there is nothing to illustrate yet.</p>
+        )}
+
+        {pages.length > 1 && (
+          <div className="flex items-center justify-between p-4 border-t border-gray-100">
+            <button
+              onClick={() => setPageIndex(Math.max(0, index - 1))}
+              disabled={index === 0}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-full text-sm font-medium text-gray-700 hover:bg-gray-100 disabled:opacity-30"
+            >
+              <ChevronLeft className="w-4 h-4" /> Previous
+            </button>
+            <div className="flex items-center gap-1.5">
+              {pages.map((p, i) => (
+                <button
+                  key={p.id}
+                  onClick={() => setPageIndex(i)}
+                  title={`Page ${i + 1}`}
+                  className={`w-2 h-2 rounded-full ${i === index ? 'bg-indigo-600' : errors[p.id] ? 'bg-red-300' : p.illustration ? 'bg-gray-400' : 'bg-gray-200'}`}
+                />
+              ))}
+            </div>
+            <button
+              onClick={() => setPageIndex(Math.min(pages.length - 1, index + 1))}
+              disabled={index === pages.length - 1}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-full text-sm font-medium text-gray-700 hover:bg-gray-100 disabled:opacity-30"
+            >
+              Next <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,288 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Coins, Plus, RotateCcw, Trash2, X } from 'lucide-react';
+import { ModelPrice, UsageBudget, UsageRecord } from '../types';
+import { clearUsageLog, dayKey, formatCost, groupUsage, loadUsageLog, priceFor, subscribeToUsage, totalUsage, UsageTotals } from '../services/usage';
+import { DEFAULT_MODEL_PRICES, loadModelPrices, loadUsageBudget, saveModelPrices, saveUsageBudget } from '../services/preferences';
+import { displayTitle, listSessions } from '../services/storyLibrary';
+
+interface UsageDashboardProps {
+  isOpen: boolean;
+  activeSessionId: string | null;
+  onClose: () => void;
+}
+
+const DAYS_SHOWN = 14;
+
+const inputClass = 'w-full bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 text-sm text-gray-700 outline-none focus:border-indigo-500';
+
+const formatTokens = (tokens: number): string =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const totalTokens = (totals: UsageTotals) => totals.inputTokens + totals.outputTokens + totals.audioTokens;
+
+const formatDay = (key: string) =>
+  new Date(`${key}T00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="p-4 border-b border-gray-100">
+    <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-2">{title}</h3>
+    {children}
+  </section>
+);
+
+// One row per group: a label, then calls, tokens and cost
+const UsageTable: React.FC<{ rows: { key: string; label: string; totals: UsageTotals }[]; empty: string }> = ({ rows, empty }) =>
+  rows.length ? (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-xs text-gray-400 text-left">
+          <th className="font-medium py-1"></th>
+          <th className="font-medium py-1 text-right">Calls</th>
+          <th className="font-medium py-1 text-right">Tokens</th>
+          <th className="font-medium py-1 text-right">Cost</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ key, label, totals }) => (
+          <tr key={key} className="border-t border-gray-50">
+            <td className="py-1 pr-2 text-gray-700 truncate max-w-[10rem]" title={label}>{label}</td>
+            <td className="py-1 text-right text-gray-500">{totals.calls}</td>
+            <td className="py-1 text-right text-gray-500">{formatTokens(totalTokens(totals))}</td>
+            <td
+              className="py-1 text-right font-medium text-gray-800"
+              title={totals.unpricedCalls ? `${totals.unpricedCalls} calls to models without a price aren't counted` : undefined}
+            >
+              {formatCost(totals.cost)}{totals.unpricedCalls ? '*' : ''}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  ) : (
+    <p className="text-xs text-gray-400">{empty}</p>
+  );
+
+/**
+ * What the app has spent: every story, analysis, chat and speech call in the local
+ * usage log, totalled per day, story and model, with the budget and price table.
+ */
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ isOpen, activeSessionId, onClose }) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [prices, setPrices] = useState<ModelPrice[]>(loadModelPrices);
+  const [budget, setBudget] = useState<UsageBudget>(loadUsageBudget);
+  const [titles, setTitles] = useState<Record<string, string>>({});
+
+  // Follows new calls live while open, e.g. a narration in progress
+  useEffect(() => {
+    if (!isOpen) return;
+    setRecords([...loadUsageLog()]);
+    return subscribeToUsage(event => {
+      if (event.type === 'recorded') setRecords([...loadUsageLog()]);
+    });
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    listSessions()
+      .then(sessions => {
+        if (!cancelled) setTitles(Object.fromEntries(sessions.map(s => [s.id, displayTitle(s)])));
+      })
+      .catch(e => console.error("Failed to load library", e));
+    return () => { cancelled = true; };
+  }, [isOpen]);
+
+  const today = dayKey(Date.now());
+  const summary = useMemo(() => ({
+    today: totalUsage(records.filter(r => dayKey(r.at) === today), prices),
+    story: activeSessionId ? totalUsage(records.filter(r => r.sessionId === activeSessionId), prices) : null,
+    allTime: totalUsage(records, prices),
+  }), [records, prices, activeSessionId, today]);
+
+  const byDay = useMemo(() => groupUsage(records, r => dayKey(r.at), prices).slice(0, DAYS_SHOWN), [records, prices]);
+  const byStory = useMemo(() => groupUsage(records, r => r.sessionId || '', prices), [records, prices]);
+  const byModel = useMemo(() => groupUsage(records, r => r.model, prices), [records, prices]);
+
+  const updateBudget = (changes: Partial<UsageBudget>) => {
+    const next = { ...budget, ...changes };
+    setBudget(next);
+    saveUsageBudget(next);
+  };
+
+  const updatePrices = (next: ModelPrice[]) => {
+    setPrices(next);
+    saveModelPrices(next);
+  };
+
+  const updatePrice = (index: number, changes: Partial<ModelPrice>) =>
+    updatePrices(prices.map((price, i) => (i === index ? { ...price, ...changes } : price)));
+
+  const handleClear = () => {
+    if (!window.confirm('Clear the whole usage log? Totals and budgets start again from zero.')) return;
+    clearUsageLog();
+    setRecords([]);
+  };
+
+  if (!isOpen) return null;
+
+  const unpricedModels = byModel.filter(({ key }) => !priceFor(key, prices)).map(({ key }) => key);
+  const dollarInput = (value: number, onChange: (value: number) => void, label: string) => (
+    <input
+      type="number"
+      min={0}
+      step="any"
+      value={value || ''}
+      placeholder="No limit"
+      aria-label={label}
+      onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+      className={inputClass}
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-30 flex justify-end">
+      <div className="absolute inset-0 bg-gray-900/30" onClick={onClose} />
+      <aside className="relative w-full max-w-md h-full bg-white shadow-xl flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <h2 className="font-semibold text-gray-800 flex items-center gap-2">
+            <Coins className="w-5 h-5 text-indigo-600" /> Usage &amp; Cost
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-100 text-gray-500" title="Close usage">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <div className="grid grid-cols-3 gap-2 p-4 border-b border-gray-100">
+            {[
+              { label: 'Today', totals: summary.today },
+              { label: 'This story', totals: summary.story },
+              { label: 'All time', totals: summary.allTime },
+            ].map(({ label, totals }) => (
+              <div key={label} className="rounded-xl bg-gray-50 p-3">
+                <p className="text-xs text-gray-400">{label}</p>
+                <p className="text-lg font-semibold text-gray-800">{totals ? formatCost(totals.cost) : '–'}</p>
+                <p className="text-xs text-gray-500">
+                  {totals ? `${totals.calls} calls · ${formatTokens(totalTokens(totals))} tokens` : 'No story open'}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <Section title="Budget">
+            <div className="grid grid-cols-3 gap-2 items-end">
+              <label className="text-xs text-gray-500 space-y-1">
+                <span>Per day ($)</span>
+                {dollarInput(budget.daily, daily => updateBudget({ daily }), 'Daily budget in dollars')}
+              </label>
+              <label className="text-xs text-gray-500 space-y-1">
+                <span>Per story ($)</span>
+                {dollarInput(budget.perStory, perStory => updateBudget({ perStory }), 'Budget per story in dollars')}
+              </label>
+              <label className="text-xs text-gray-500 space-y-1">
+                <span>When reached</span>
+                <select
+                  value={budget.mode}
+                  onChange={(e) => updateBudget({ mode: e.target.value as UsageBudget['mode'] })}
+                  className={inputClass}
+                >
+                  <option value="warn">Warn</option>
+                  <option value="block">Block calls</option>
+                </select>
+              </label>
+            </div>
+            <p className="text-xs text-gray-400 mt-2">
+              Each call is checked before it is made, using what recent calls of the same kind cost.
+            </p>
+          </Section>
+
+          <Section title={`Last ${DAYS_SHOWN} days`}>
+            <UsageTable rows={byDay.map(row => ({ ...row, label: formatDay(row.key) }))} empty="No calls recorded yet." />
+          </Section>
+
+          <Section title="By story">
+            <UsageTable
+              rows={byStory.map(row => ({
+                ...row,
+                label: !row.key ? 'Before a story was started' : titles[row.key] || 'Deleted story',
+              }))}
+              empty="No calls recorded yet."
+            />
+          </Section>
+
+          <Section title="By model">
+            <UsageTable rows={byModel.map(row => ({ ...row, label: row.key }))} empty="No calls recorded yet." />
+            {byModel.length > 0 && (
+              <p className="text-xs text-gray-400 mt-2">
+                Average latency: {byModel.map(({ key, totals }) => `${key} ${(totals.latencyMs / totals.calls / 1000).toFixed(1)}s`).join(', ')}
+              </p>
+            )}
+          </Section>
+
+          <Section title="Prices (US$ per million tokens)">
+            {unpricedModels.length > 0 && (
+              <p className="text-xs text-amber-700 bg-amber-50 rounded-lg p-2 mb-2">
+                No price for {unpricedModels.join(', ')}; their calls count as free. Add a row below.
+              </p>
+            )}
+            <div className="grid grid-cols-[1fr_4rem_4rem_4rem_1.5rem] gap-1 items-center text-xs text-gray-400">
+              <span>Model (* matches a prefix)</span>
+              <span>Input</span>
+              <span>Output</span>
+              <span>Audio</span>
+              <span />
+              {prices.map((price, index) => (
+                <React.Fragment key={index}>
+                  <input value={price.model} onChange={(e) => updatePrice(index, { model: e.target.value })} className={inputClass} />
+                  {(['input', 'output', 'audio'] as const).map(field => (
+                    <input
+                      key={field}
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={price[field]}
+                      aria-label={`${field} price for ${price.model}`}
+                      onChange={(e) => updatePrice(index, { [field]: Math.max(0, Number(e.target.value) || 0) })}
+                      className={inputClass}
+                    />
+                  ))}
+                  <button
+                    onClick={() => updatePrices(prices.filter((_, i) => i !== index))}
+                    title="Remove price"
+                    className="p-0.5 text-gray-300 hover:text-red-500"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </React.Fragment>
+              ))}
+            </div>
+            <div className="flex items-center gap-3 mt-2">
+              <button
+                onClick={() => updatePrices([...prices, { model: unpricedModels[0] || '', input: 0, output: 0, audio: 0 }])}
+                className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800"
+              >
+                <Plus className="w-3 h-3" /> Add model
+              </button>
+              <button
+                onClick={() => updatePrices(DEFAULT_MODEL_PRICES)}
+                className="flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-gray-700"
+              >
+                <RotateCcw className="w-3 h-3" /> Reset to list prices
+              </button>
+            </div>
+          </Section>
+
+          <div className="p-4">
+            <button
+              onClick={handleClear}
+              disabled={!records.length}
+              className="flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Trash2 className="w-3 h-3" /> Clear usage log
+            </button>
+          </div>
+        </div>
+      </aside>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Combine } from 'lucide-react';
+import { splitParagraphs } from '../utils/text';
+
+interface VariantComparisonProps {
+  variants: (string | null)[]; // null marks a take that failed
+  isGenerating: boolean;
+  onPick: (draft: string) => void;
+}
+
+interface ParagraphRef {
+  variant: number;
+  paragraph: number;
+}
+
+export const VariantComparison: React.FC<VariantComparisonProps> = ({ variants, isGenerating, onPick }) => {
+  // Paragraphs in the order the user clicked them, which is the order they are merged in
+  const [selected, setSelected] = useState<ParagraphRef[]>([]);
+
+  // A fresh round of takes invalidates the old selection
+  useEffect(() => {
+    if (isGenerating) setSelected([]);
+  }, [isGenerating]);
+
+  const paragraphs = variants.map(v => (v ? splitParagraphs(v) : []));
+
+  const selectionIndex = (ref: ParagraphRef) =>
+    selected.findIndex(s => s.variant === ref.variant && s.paragraph === ref.paragraph);
+
+  const toggleParagraph = (ref: ParagraphRef) => {
+    setSelected(prev =>
+      selectionIndex(ref) >= 0
+        ? prev.filter(s => !(s.variant === ref.variant && s.paragraph === ref.paragraph))
+        : [...prev, ref]
+    );
+  };
+
+  const mergeSelected = () => {
+    onPick(selected.map(s => paragraphs[s.variant][s.paragraph]).join('\n\n'));
+  };
+
+  return (
+    <div className="flex flex-col gap-4 h-full">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          {isGenerating
+            ? 'Writing several takes...'
+            : 'Pick a take, or click paragraphs from several takes to build your draft.'}
+        </p>
+        <button
+          onClick={mergeSelected}
+          disabled={isGenerating || selected.length === 0}
+          className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Combine className="w-4 h-4" /> Use {selected.length || ''} selected paragraph{selected.length === 1 ? '' : 's'}
+        </button>
+      </div>
+
+      <div className="grid gap-4 flex-1" style={{ gridTemplateColumns: `repeat(${variants.length}, minmax(0, 1fr))` }}>
+        {variants.map((variant, variantIndex) => (
+          <div key={variantIndex} className="flex flex-col border border-gray-100 rounded-xl bg-gray-50 overflow-hidden">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100 bg-white">
+              <span className="text-xs font-semibold text-gray-500">Take {variantIndex + 1}</span>
+              <button
+                onClick={() => variant && onPick(variant)}
+                disabled={isGenerating || !variant}
+                className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Check className="w-3 h-3" /> Use this
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-3 space-y-3">
+              {variant === null ? (
+                <p className="text-sm text-gray-400 italic">This take could not be written.</p>
+              ) : paragraphs[variantIndex].length === 0 ? (
+                <p className="text-sm text-gray-400 animate-pulse">Composing...</p>
+              ) : (
+                paragraphs[variantIndex].map((paragraph, paragraphIndex) => {
+                  const order = selectionIndex({ variant: variantIndex, paragraph: paragraphIndex });
+                  return (
+                    <p
+                      key={paragraphIndex}
+                      onClick={() => !isGenerating && toggleParagraph({ variant: variantIndex, paragraph: paragraphIndex })}
+                      className={`
+                        relative font-serif text-sm leading-relaxed text-gray-800 rounded-lg p-2 cursor-pointer transition-colors
+                        ${order >= 0 ? 'bg-indigo-50 ring-1 ring-indigo-300' : 'hover:bg-white'}
+                      `}
+                    >
+                      {order >= 0 && (
+                        <span className="absolute -top-2 -left-2 w-5 h-5 rounded-full bg-indigo-600 text-white text-xs flex items-center justify-center font-sans">
+                          {order + 1}
+                        </span>
+                      )}
+                      {paragraph}
+                    </p>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
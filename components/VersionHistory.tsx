@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import { DraftVersion } from '../types';
+import { diffWords } from '../utils/diff';
+
+interface VersionHistoryProps {
+  versions: DraftVersion[]; // Oldest first
+  currentText: string;
+  onRestore: (version: DraftVersion) => void;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ versions, currentText, onRestore, onClose }) => {
+  const newestFirst = [...versions].reverse();
+  const [fromId, setFromId] = useState(newestFirst[0]?.id ?? '');
+  const [toId, setToId] = useState(CURRENT);
+
+  const textOf = (id: string) => (id === CURRENT ? currentText : versions.find(v => v.id === id)?.text ?? '');
+  const from = versions.find(v => v.id === fromId);
+
+  const segments = useMemo(() => diffWords(textOf(fromId), textOf(toId)), [fromId, toId, versions, currentText]);
+
+  return (
+    <div className="flex flex-col h-full gap-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-800">Version history</h3>
+        <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-100 text-gray-500" title="Back to editor">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-1 gap-4 min-h-0">
+        <ul className="w-56 flex-shrink-0 overflow-y-auto space-y-1">
+          {newestFirst.map(version => (
+            <li key={version.id}>
+              <button
+                onClick={() => setFromId(version.id)}
+                className={`
+                  w-full text-left px-3 py-2 rounded-lg text-sm transition-colors
+                  ${version.id === fromId ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-gray-50 text-gray-700'}
+                `}
+              >
+                <span className="block font-medium">{version.label}</span>
+                <span className="block text-xs text-gray-400">{formatTime(version.createdAt)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex-1 flex flex-col min-w-0 gap-3">
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            <span>Comparing with</span>
+            <select
+              value={toId}
+              onChange={(e) => setToId(e.target.value)}
+              className="bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 text-xs outline-none"
+            >
+              <option value={CURRENT}>Current draft</option>
+              {newestFirst.map(v => (
+                <option key={v.id} value={v.id}>{v.label} · {formatTime(v.createdAt)}</option>
+              ))}
+            </select>
+            {from && (
+              <button
+                onClick={() => onRestore(from)}
+                className="ml-auto flex items-center gap-1 px-3 py-1 rounded-full bg-indigo-600 text-white hover:bg-indigo-700"
+              >
+                <RotateCcw className="w-3 h-3" /> Restore this version
+              </button>
+            )}
+          </div>
+
+          <div className="flex-1 overflow-y-auto font-serif text-gray-800 leading-relaxed text-lg whitespace-pre-wrap">
+            {segments.map((segment, i) =>
+              segment.type === 'equal' ? (
+                <span key={i}>{segment.text}</span>
+              ) : segment.type === 'insert' ? (
+                <ins key={i} className="bg-green-100 text-green-900 no-underline">{segment.text}</ins>
+              ) : (
+                <del key={i} className="bg-red-100 text-red-800">{segment.text}</del>
+              )
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
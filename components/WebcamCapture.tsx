@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, RotateCcw, Check, X, AlertCircle } from 'lucide-react';
+import { captureVideoFrame } from '../services/imageSources';
+import { toMuseError } from '../services/errors';
+
+interface WebcamCaptureProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+export const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [photo, setPhoto] = useState<{ file: File; url: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The camera stays on while open so Retake is instant, and is released on close
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("This browser can't use a camera here. Camera access needs a secure (https) page.");
+      return;
+    }
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then(s => {
+        if (cancelled) {
+          s.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = s;
+        if (videoRef.current) videoRef.current.srcObject = s;
+      })
+      .catch(e => {
+        if (cancelled) return;
+        const name = e instanceof DOMException ? e.name : '';
+        setError(
+          name === 'NotAllowedError' ? 'Camera access was blocked. Allow it in your browser settings and try again.' :
+          name === 'NotFoundError' ? 'No camera was found.' :
+          `Couldn't start the camera: ${toMuseError(e).message}`
+        );
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  useEffect(() => () => {
+    if (photo) URL.revokeObjectURL(photo.url);
+  }, [photo]);
+
+  const handleCapture = async () => {
+    if (!videoRef.current) return;
+    try {
+      const file = await captureVideoFrame(videoRef.current);
+      setPhoto({ file, url: URL.createObjectURL(file) });
+    } catch (e) {
+      setError(toMuseError(e).message);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-800 flex items-center gap-2">
+          <Camera className="w-4 h-4 text-indigo-500" /> Take a photo
+        </h3>
+        <button onClick={onClose} title="Close camera" className="p-1 text-gray-400 hover:text-gray-600">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {error ? (
+        <p role="alert" className="flex items-center gap-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" /> {error}
+        </p>
+      ) : (
+        <>
+          <div className="relative rounded-lg overflow-hidden bg-black aspect-video">
+            <video ref={videoRef} autoPlay playsInline muted className={`w-full h-full object-contain ${photo ? 'hidden' : ''}`} />
+            {photo && <img src={photo.url} alt="Captured" className="w-full h-full object-contain" />}
+          </div>
+          <div className="flex justify-center gap-2">
+            {photo ? (
+              <>
+                <button
+                  onClick={() => setPhoto(null)}
+                  className="flex items-center gap-1 px-4 py-2 rounded-full text-sm text-gray-600 border border-gray-200 hover:bg-gray-50"
+                >
+                  <RotateCcw className="w-4 h-4" /> Retake
+                </button>
+                <button
+                  onClick={() => onCapture(photo.file)}
+                  className="flex items-center gap-1 px-4 py-2 rounded-full text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700"
+                >
+                  <Check className="w-4 h-4" /> Use photo
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={handleCapture}
+                className="flex items-center gap-1 px-4 py-2 rounded-full text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700"
+              >
+                <Camera className="w-4 h-4" /> Capture
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
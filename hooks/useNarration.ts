@@ -0,0 +1,256 @@
+import { useEffect, useRef, useState } from 'react';
+import { TimedSentence } from '../types';
+import { AudioTimeline } from '../utils/audioTimeline';
+import { decodeAudioData } from '../utils/audioUtils';
+import { isAbortError } from '../utils/abort';
+import { MuseError, toMuseError } from '../services/errors';
+import { NARRATION_SAMPLE_RATE, concatPcm, pcmDuration, planNarration, synthesizeNarration } from '../services/narration';
+
+/** A finished narration, in the shape the story library stores it. */
+export interface SavedNarration {
+  text: string;
+  pcm: Uint8Array;
+  sentences: TimedSentence[];
+}
+
+/**
+ * Chunked, pipelined narration of a text with sentence-level timing.
+ * Playback starts as soon as the first chunk is synthesized; later chunks are appended
+ * to the same timeline while it plays.
+ */
+export const useNarration = (text: string) => {
+  const [narratedText, setNarratedText] = useState<string | null>(null);
+  const [sentences, setSentences] = useState<TimedSentence[]>([]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isSynthesizing, setIsSynthesizing] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [saved, setSaved] = useState<SavedNarration | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  const [rate, setRateState] = useState(1);
+  const [volume, setVolumeState] = useState(1);
+  const [error, setError] = useState<MuseError | null>(null);
+
+  const ctxRef = useRef<AudioContext | null>(null);
+  const timelineRef = useRef<AudioTimeline | null>(null);
+  const pipelineRef = useRef<AbortController | null>(null);
+  // Sentence to jump to once its audio has been synthesized
+  const pendingSentenceRef = useRef<number | null>(null);
+  const sentencesRef = useRef<TimedSentence[]>([]);
+
+  useEffect(() => {
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({
+      sampleRate: NARRATION_SAMPLE_RATE
+    });
+    const timeline = new AudioTimeline(ctx);
+    timeline.onEnded = () => {
+      setIsPlaying(false);
+      setIsPaused(false);
+      setPosition(0);
+    };
+    ctxRef.current = ctx;
+    timelineRef.current = timeline;
+    return () => {
+      pipelineRef.current?.abort();
+      timeline.clear();
+      ctx.close();
+    };
+  }, []);
+
+  // Follow the playhead while audio is playing
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = requestAnimationFrame(function tick() {
+      setPosition(timelineRef.current?.position ?? 0);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  const setTimedSentences = (next: TimedSentence[]) => {
+    sentencesRef.current = next;
+    setSentences(next);
+  };
+
+  const playFrom = (time: number) => {
+    timelineRef.current?.play(time);
+    setIsPlaying(true);
+    setIsPaused(false);
+  };
+
+  /** Drops any narration, aborting synthesis still in progress. */
+  const reset = () => {
+    pipelineRef.current?.abort();
+    pipelineRef.current = null;
+    pendingSentenceRef.current = null;
+    timelineRef.current?.clear();
+    setTimedSentences([]);
+    setNarratedText(null);
+    setSaved(null);
+    setIsPlaying(false);
+    setIsPaused(false);
+    setIsSynthesizing(false);
+    setPosition(0);
+    setDuration(0);
+    setError(null);
+  };
+
+  const synthesize = async (source: string, startSentence: number) => {
+    const ctx = ctxRef.current;
+    const timeline = timelineRef.current;
+    if (!ctx || !timeline) return;
+
+    reset();
+    const controller = new AbortController();
+    pipelineRef.current = controller;
+    pendingSentenceRef.current = startSentence;
+    setNarratedText(source);
+    setIsSynthesizing(true);
+
+    const pcmChunks: Uint8Array[] = [];
+    try {
+      for await (const { chunk, pcm } of synthesizeNarration(planNarration(source), { signal: controller.signal })) {
+        const chunkStart = timeline.duration;
+        const duration = pcmDuration(pcm);
+        pcmChunks.push(pcm);
+        if (pcm.byteLength) timeline.append(await decodeAudioData(pcm, ctx));
+        setDuration(timeline.duration);
+
+        // Spread the chunk's duration over its sentences by length
+        const totalChars = chunk.sentences.reduce((sum, s) => sum + s.text.length, 0) || 1;
+        let cursor = chunkStart;
+        const timed = chunk.sentences.map(s => {
+          const startTime = cursor;
+          cursor += (duration * s.text.length) / totalChars;
+          return { start: s.start, end: s.end, startTime, endTime: cursor };
+        });
+        setTimedSentences([...sentencesRef.current, ...timed]);
+
+        const pending = pendingSentenceRef.current;
+        if (pending !== null && pending < sentencesRef.current.length) {
+          pendingSentenceRef.current = null;
+          playFrom(sentencesRef.current[pending].startTime);
+        }
+      }
+
+      timeline.markComplete();
+      setSaved({ text: source, pcm: concatPcm(pcmChunks), sentences: sentencesRef.current });
+    } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) return;
+      // Whatever was synthesized keeps playing; the next play() narrates afresh
+      setError(toMuseError(error));
+      timeline.markComplete();
+    } finally {
+      if (pipelineRef.current === controller) {
+        pipelineRef.current = null;
+        setIsSynthesizing(false);
+      }
+    }
+  };
+
+  const isStale = narratedText !== null && narratedText !== text;
+
+  /**
+   * Plays from the given sentence of the current text (or the start), narrating it first if needed.
+   */
+  const play = (sentenceIndex: number = 0) => {
+    if (!text.trim()) return;
+    if (narratedText === null || isStale || error) {
+      synthesize(text, sentenceIndex);
+      return;
+    }
+
+    const sentence = sentencesRef.current[sentenceIndex];
+    if (sentence) {
+      playFrom(sentence.startTime);
+    } else if (pipelineRef.current) {
+      pendingSentenceRef.current = sentenceIndex; // Still being synthesized
+    } else {
+      synthesize(text, sentenceIndex); // Saved without timings; narrate afresh
+    }
+  };
+
+  const stop = () => {
+    pendingSentenceRef.current = null;
+    timelineRef.current?.stop();
+    setIsPlaying(false);
+    setIsPaused(false);
+    setPosition(0);
+  };
+
+  const pause = () => {
+    const timeline = timelineRef.current;
+    if (!timeline) return;
+    timeline.pause();
+    setPosition(timeline.position);
+    setIsPlaying(false);
+    setIsPaused(true);
+  };
+
+  const resume = () => {
+    playFrom(timelineRef.current?.position ?? 0);
+  };
+
+  const seek = (time: number) => {
+    const timeline = timelineRef.current;
+    if (!timeline) return;
+    timeline.seek(time);
+    setPosition(timeline.position);
+    if (!timeline.isPlaying) setIsPaused(true);
+  };
+
+  const setRate = (next: number) => {
+    timelineRef.current?.setRate(next);
+    setRateState(next);
+  };
+
+  const setVolume = (next: number) => {
+    timelineRef.current?.setVolume(next);
+    setVolumeState(next);
+  };
+
+  /** Restores a narration saved in the library. */
+  const load = async (narration: SavedNarration) => {
+    const ctx = ctxRef.current;
+    const timeline = timelineRef.current;
+    reset();
+    if (!ctx || !timeline || !narration.pcm.byteLength) return;
+
+    timeline.append(await decodeAudioData(narration.pcm, ctx));
+    timeline.markComplete();
+    setDuration(timeline.duration);
+    setTimedSentences(narration.sentences);
+    setNarratedText(narration.text);
+    setSaved(narration);
+  };
+
+  const activeSentence = isPlaying || isPaused
+    ? sentences.findIndex(s => position >= s.startTime && position < s.endTime)
+    : -1;
+
+  return {
+    narratedText,
+    sentences,
+    activeSentence,
+    isPlaying,
+    isPaused,
+    isSynthesizing,
+    position,
+    duration, // Of the audio synthesized so far
+    rate,
+    volume,
+    isStale,
+    hasNarration: narratedText !== null,
+    saved,
+    error, // Why the last narration stopped short, if it did
+    play,
+    stop,
+    pause,
+    resume,
+    seek,
+    setRate,
+    setVolume,
+    reset,
+    load,
+  };
+};
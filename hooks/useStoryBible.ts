@@ -0,0 +1,93 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChatMessage, StoryBibleEntry, StoryBibleKind } from '../types';
+import { isAbortError } from '../utils/abort';
+import { bibleKey, mergeStoryBible } from '../utils/storyBible';
+import { activePath, transcriptOf } from '../utils/chatTree';
+import { MuseError, toMuseError } from '../services/errors';
+import { extractStoryBible } from '../services/geminiService';
+
+// Quiet time after the draft or chat changes before they are read again
+const EXTRACT_DELAY_MS = 5000;
+
+const sourceOf = (draft: string, messages: ChatMessage[]) => `${messages.length}:${draft}`;
+
+/**
+ * The story bible for the open story, kept up to date from the draft and the co-author chat.
+ * Extraction runs in the background once both have been quiet for a while; user edits win over it.
+ */
+export const useStoryBible = (draft: string, messages: ChatMessage[], isPaused: boolean) => {
+  const [entries, setEntries] = useState<StoryBibleEntry[]>([]);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [error, setError] = useState<MuseError | null>(null);
+
+  const controllerRef = useRef<AbortController | null>(null);
+  // Draft and transcript as of the last extraction, so unchanged text isn't read twice
+  const readSourceRef = useRef<string | null>(null);
+  // Entries the user deleted; extraction won't bring them back
+  const dismissedRef = useRef(new Set<string>());
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const refresh = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    readSourceRef.current = sourceOf(draft, messages);
+    setError(null);
+    setIsExtracting(true);
+
+    try {
+      const extracted = await extractStoryBible(draft, transcriptOf(activePath(messages)), entries, controller.signal);
+      if (!controller.signal.aborted) setEntries(prev => mergeStoryBible(prev, extracted, dismissedRef.current));
+    } catch (err) {
+      if (!controller.signal.aborted && !isAbortError(err)) setError(toMuseError(err));
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsExtracting(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (isPaused || !draft.trim() || readSourceRef.current === sourceOf(draft, messages)) return;
+    const timer = setTimeout(refresh, EXTRACT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft, messages, isPaused]);
+
+  /** Replaces the bible, e.g. with a saved story's, treating the given text as already read. */
+  const load = (next: StoryBibleEntry[], readDraft = '', readMessages: ChatMessage[] = []) => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    dismissedRef.current = new Set();
+    readSourceRef.current = readDraft ? sourceOf(readDraft, readMessages) : null;
+    setEntries(next);
+    setIsExtracting(false);
+    setError(null);
+  };
+
+  const updateEntry = (entry: StoryBibleEntry) =>
+    setEntries(prev => prev.map(e => (e.id === entry.id ? { ...entry, userEdited: true } : e)));
+
+  const removeEntry = (id: string) =>
+    setEntries(prev => {
+      const removed = prev.find(e => e.id === id);
+      if (removed) dismissedRef.current.add(bibleKey(removed));
+      return prev.filter(e => e.id !== id);
+    });
+
+  const addEntry = (kind: StoryBibleKind) =>
+    setEntries(prev => [...prev, { id: crypto.randomUUID(), kind, name: '', details: '', userEdited: true }]);
+
+  return {
+    entries,
+    isExtracting,
+    error,
+    refresh,
+    load,
+    reset: () => load([]),
+    updateEntry,
+    removeEntry,
+    addEntry,
+  };
+};
@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState } from 'react';
+import { ImagePayload, StoryBibleEntry, Storybook, StorybookPage } from '../types';
+import { isAbortError } from '../utils/abort';
+import { splitScenes } from '../utils/text';
+import { MuseError, toMuseError } from '../services/errors';
+import { illustrateScene } from '../services/geminiService';
+
+// Each page is an image call, so long drafts are folded into this many
+const MAX_PAGES = 8;
+
+/**
+ * The draft laid out as an illustrated storybook: split into scenes, each drawn in the
+ * style of the story's image. Pages are drawn one at a time and can be redrawn singly.
+ */
+export const useStorybook = (draft: string, image: ImagePayload | null, bible: StoryBibleEntry[]) => {
+  const [storybook, setStorybook] = useState<Storybook | null>(null);
+  // Pages still to be drawn by the current build, or being redrawn
+  const [drawingIds, setDrawingIds] = useState<string[]>([]);
+  const [errors, setErrors] = useState<Record<string, MuseError>>({});
+  const [isBuilding, setIsBuilding] = useState(false);
+
+  const buildRef = useRef<AbortController | null>(null);
+  const pageControllersRef = useRef(new Map<string, AbortController>());
+
+  const cancel = () => {
+    buildRef.current?.abort();
+    buildRef.current = null;
+    pageControllersRef.current.forEach(controller => controller.abort());
+    pageControllersRef.current.clear();
+    setDrawingIds([]);
+    setIsBuilding(false);
+  };
+
+  useEffect(() => () => {
+    buildRef.current?.abort();
+    pageControllersRef.current.forEach(controller => controller.abort());
+  }, []);
+
+  // Draws one page; resolves false if it failed or was cancelled
+  const drawPage = async (page: StorybookPage, index: number, total: number): Promise<boolean> => {
+    if (!image) return false;
+    pageControllersRef.current.get(page.id)?.abort();
+    const controller = new AbortController();
+    pageControllersRef.current.set(page.id, controller);
+    setDrawingIds(prev => (prev.includes(page.id) ? prev : [...prev, page.id]));
+    setErrors(({ [page.id]: _, ...rest }) => rest);
+
+    try {
+      const illustration = await illustrateScene(image, page.text, index, total, { signal: controller.signal, bible });
+      if (controller.signal.aborted) return false;
+      setStorybook(prev => prev && { ...prev, pages: prev.pages.map(p => (p.id === page.id ? { ...p, illustration } : p)) });
+      return true;
+    } catch (err) {
+      if (!controller.signal.aborted && !isAbortError(err)) setErrors(prev => ({ ...prev, [page.id]: toMuseError(err) }));
+      return false;
+    } finally {
+      if (pageControllersRef.current.get(page.id) === controller) {
+        pageControllersRef.current.delete(page.id);
+        setDrawingIds(prev => prev.filter(id => id !== page.id));
+      }
+    }
+  };
+
+  /** Splits the current draft into pages and draws them in order, replacing any existing storybook. */
+  const build = async () => {
+    cancel();
+    const pages: StorybookPage[] = splitScenes(draft, MAX_PAGES).map(text => ({ id: crypto.randomUUID(), text, illustration: null }));
+    const run = new AbortController();
+    buildRef.current = run;
+    setStorybook({ sourceText: draft, pages });
+    setErrors({});
+    setDrawingIds(pages.map(p => p.id));
+    setIsBuilding(true);
+
+    // One at a time: image calls are slow and tightly rate limited.
+    // The first failure stops the build, since the next page would most likely fail the same way.
+    for (const [index, page] of pages.entries()) {
+      if (run.signal.aborted || !(await drawPage(page, index, pages.length))) break;
+    }
+    if (buildRef.current === run) {
+      buildRef.current = null;
+      setDrawingIds([]);
+      setIsBuilding(false);
+    }
+  };
+
+  /** Draws a page again, or for the first time if the build stopped before it. */
+  const redraw = (pageId: string) => {
+    const pages = storybook?.pages ?? [];
+    const index = pages.findIndex(p => p.id === pageId);
+    if (index >= 0) drawPage(pages[index], index, pages.length);
+  };
+
+  /** Replaces the storybook, e.g. with a saved story's. */
+  const load = (next: Storybook | null) => {
+    cancel();
+    setStorybook(next);
+    setErrors({});
+  };
+
+  return {
+    storybook,
+    drawingIds,
+    errors,
+    isBuilding,
+    // The draft has changed since the pages were split from it
+    isStale: !!storybook && storybook.sourceText !== draft,
+    build,
+    redraw,
+    cancel,
+    load,
+    reset: () => load(null),
+  };
+};
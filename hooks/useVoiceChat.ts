@@ -0,0 +1,213 @@
+import { useEffect, useRef, useState } from 'react';
+import { AudioTimeline } from '../utils/audioTimeline';
+import { decodeAudioData, downsamplePcm16 } from '../utils/audioUtils';
+import { isAbortError } from '../utils/abort';
+import { LiveEvent, LiveSession } from '../services/providers';
+import { CoAuthorSession } from '../services/geminiService';
+import { MuseError, toMuseError } from '../services/errors';
+import { NARRATION_SAMPLE_RATE } from '../services/narration';
+
+// What live sessions expect to hear
+const LIVE_INPUT_SAMPLE_RATE = 16000;
+// Microphone audio is sent in batches of about this length
+const SEND_INTERVAL_SECONDS = 0.1;
+
+// Hands the microphone's samples to the main thread as they arrive
+const CAPTURE_WORKLET = `
+class MuseCapture extends AudioWorkletProcessor {
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) this.port.postMessage(channel.slice());
+    return true;
+  }
+}
+registerProcessor('muse-capture', MuseCapture);
+`;
+
+/** One exchange of a voice conversation, as transcribed. Either side may be empty. */
+export interface VoiceTurn {
+  user: string;
+  model: string;
+}
+
+export type VoiceStatus = 'off' | 'connecting' | 'listening';
+
+const EMPTY_TURN: VoiceTurn = { user: '', model: '' };
+
+/**
+ * A spoken conversation with the co-author: streams the microphone to a live session and
+ * plays its replies as they arrive. Talking over a reply cuts it off. Each finished turn
+ * is handed to `onTurn` as text, to be added to the chat transcript.
+ */
+export const useVoiceChat = (session: CoAuthorSession | null, onTurn: (turn: VoiceTurn) => void) => {
+  const [status, setStatus] = useState<VoiceStatus>('off');
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  // The turn being transcribed, shown until it completes
+  const [transcript, setTranscript] = useState<VoiceTurn>(EMPTY_TURN);
+  const [error, setError] = useState<MuseError | null>(null);
+
+  const turnRef = useRef<VoiceTurn>(EMPTY_TURN);
+  const onTurnRef = useRef(onTurn);
+  onTurnRef.current = onTurn;
+  // Undoes everything the running conversation set up; null when there is none
+  const teardownRef = useRef<(() => void) | null>(null);
+
+  const setTurn = (turn: VoiceTurn) => {
+    turnRef.current = turn;
+    setTranscript(turn);
+  };
+
+  const commitTurn = () => {
+    const turn = { user: turnRef.current.user.trim(), model: turnRef.current.model.trim() };
+    setTurn(EMPTY_TURN);
+    if (turn.user || turn.model) onTurnRef.current(turn);
+  };
+
+  // Ends the conversation, keeping whatever was said of the current turn unless told not to
+  const end = (keepTurn: boolean) => {
+    const teardown = teardownRef.current;
+    if (!teardown) return;
+    teardownRef.current = null;
+    teardown();
+    if (keepTurn) commitTurn();
+    else setTurn(EMPTY_TURN);
+    setStatus('off');
+    setIsSpeaking(false);
+  };
+
+  // A new session belongs to another story, so half a turn from the old one is dropped
+  useEffect(() => () => end(false), [session]);
+
+  const start = async () => {
+    if (!session || teardownRef.current) return;
+    const controller = new AbortController();
+    const disposers: (() => void)[] = [];
+    // Aborting first stops any of the session's late callbacks from acting on the teardown
+    teardownRef.current = () => {
+      controller.abort();
+      disposers.reverse().forEach(dispose => dispose());
+    };
+    const isCurrent = () => !controller.signal.aborted;
+
+    setError(null);
+    setTurn(EMPTY_TURN);
+    setStatus('connecting');
+
+    // Created before anything is awaited, while the click still counts as a user gesture
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    const output = new AudioContextClass({ sampleRate: NARRATION_SAMPLE_RATE });
+    const input = new AudioContextClass();
+    disposers.push(() => {
+      output.close();
+      input.close();
+    });
+    const timeline = new AudioTimeline(output);
+    timeline.onEnded = () => setIsSpeaking(false);
+    disposers.push(() => timeline.clear());
+
+    const handleEvent = (event: LiveEvent) => {
+      if (!isCurrent()) return;
+      switch (event.type) {
+        case 'audio':
+          // Decoding is synchronous underneath, so chunks stay in order
+          decodeAudioData(event.pcm, output).then(buffer => {
+            if (!isCurrent()) return;
+            if (timeline.isPlaying) {
+              timeline.append(buffer);
+              return;
+            }
+            timeline.clear();
+            timeline.append(buffer);
+            timeline.play(0);
+            setIsSpeaking(true);
+          });
+          break;
+        case 'transcript': {
+          // The user starting again after a reply means that exchange is over
+          if (event.role === 'user' && turnRef.current.model) commitTurn();
+          const turn = turnRef.current;
+          setTurn({ ...turn, [event.role]: turn[event.role] + event.text });
+          break;
+        }
+        case 'interrupted':
+          timeline.clear();
+          setIsSpeaking(false);
+          commitTurn();
+          break;
+        case 'turn-complete':
+          timeline.markComplete();
+          commitTurn();
+          break;
+      }
+    };
+
+    try {
+      const stream = await navigator.mediaDevices
+        .getUserMedia({ audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true } })
+        .catch(() => {
+          throw new MuseError('invalid-input', "Couldn't use the microphone. Allow access to it in the browser to talk with the co-author.");
+        });
+      disposers.push(() => stream.getTracks().forEach(track => track.stop()));
+      if (!isCurrent()) return;
+
+      const live: LiveSession = await session.startVoice({
+        onEvent: handleEvent,
+        onClose: (reason) => {
+          if (!isCurrent()) return;
+          if (reason) setError(toMuseError(reason));
+          end(true);
+        },
+        signal: controller.signal,
+      });
+      disposers.push(() => live.close());
+      if (!isCurrent()) return;
+
+      const workletUrl = URL.createObjectURL(new Blob([CAPTURE_WORKLET], { type: 'application/javascript' }));
+      await input.audioWorklet.addModule(workletUrl).finally(() => URL.revokeObjectURL(workletUrl));
+      if (!isCurrent()) return;
+
+      const source = input.createMediaStreamSource(stream);
+      const capture = new AudioWorkletNode(input, 'muse-capture', { numberOfOutputs: 0 });
+      const batchLength = Math.round(input.sampleRate * SEND_INTERVAL_SECONDS);
+      let batch: Float32Array[] = [];
+      let batched = 0;
+      capture.port.onmessage = ({ data }: MessageEvent<Float32Array>) => {
+        batch.push(data);
+        batched += data.length;
+        if (batched < batchLength) return;
+
+        const samples = new Float32Array(batched);
+        let offset = 0;
+        for (const chunk of batch) {
+          samples.set(chunk, offset);
+          offset += chunk.length;
+        }
+        batch = [];
+        batched = 0;
+        live.sendAudio(downsamplePcm16(samples, input.sampleRate, LIVE_INPUT_SAMPLE_RATE));
+      };
+      source.connect(capture);
+      disposers.push(() => {
+        capture.port.onmessage = null;
+        source.disconnect();
+      });
+
+      setStatus('listening');
+    } catch (err) {
+      if (!isCurrent() || isAbortError(err)) return;
+      setError(toMuseError(err));
+      end(false);
+    }
+  };
+
+  return {
+    status,
+    isSpeaking,
+    transcript,
+    error,
+    start,
+    /** Hangs up, adding whatever was said of the current turn to the transcript. */
+    stop: () => end(true),
+    dismissError: () => setError(null),
+  };
+};
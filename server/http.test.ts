@@ -0,0 +1,36 @@
+import { Readable } from "node:stream";
+import { IncomingMessage } from "node:http";
+import { describe, expect, it } from "vitest";
+import { HttpError, readJsonBody } from "./http";
+
+const request = (body: string, headers: Record<string, string>): IncomingMessage =>
+  Object.assign(Readable.from([Buffer.from(body)]), { headers }) as unknown as IncomingMessage;
+
+describe('readJsonBody', () => {
+  it('parses a JSON body', async () => {
+    const req = request('{"prompt":"hi"}', { 'content-type': 'application/json; charset=utf-8' });
+    await expect(readJsonBody(req, 1000)).resolves.toEqual({ prompt: 'hi' });
+  });
+
+  it('refuses bodies that are not declared as JSON', async () => {
+    for (const type of ['text/plain', 'application/x-www-form-urlencoded', '']) {
+      const req = request('{"prompt":"hi"}', type ? { 'content-type': type } : {});
+      const error = await readJsonBody(req, 1000).catch(e => e);
+      expect(error).toBeInstanceOf(HttpError);
+      expect((error as HttpError).status).toBe(415);
+    }
+  });
+
+  it('refuses bodies larger than the limit', async () => {
+    const declared = request('{}', { 'content-type': 'application/json', 'content-length': '5000' });
+    await expect(readJsonBody(declared, 1000)).rejects.toMatchObject({ status: 413 });
+
+    const streamed = request(`{"text":"${'a'.repeat(2000)}"}`, { 'content-type': 'application/json' });
+    await expect(readJsonBody(streamed, 1000)).rejects.toMatchObject({ status: 413 });
+  });
+
+  it('refuses malformed JSON', async () => {
+    const req = request('{"prompt":', { 'content-type': 'application/json' });
+    await expect(readJsonBody(req, 1000)).rejects.toMatchObject({ status: 400 });
+  });
+});
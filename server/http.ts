@@ -0,0 +1,72 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { STATUS_FOR_KIND, kindFromStatus, toErrorBody, toMuseError } from "../services/errors";
+
+/** An error with the HTTP status it should be reported with. */
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Reads and parses a JSON request body, refusing anything larger than `maxBytes`
+ * without buffering the rest of it. The body must be declared as JSON: other types
+ * can be sent cross-site without a CORS preflight, so any web page could spend the keys.
+ */
+export const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const type = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+    if (type !== 'application/json') {
+      reject(new HttpError(415, "Send the request body as application/json."));
+      req.resume();
+      return;
+    }
+
+    const declared = Number(req.headers['content-length'] || 0);
+    if (declared > maxBytes) {
+      reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes.`));
+      req.resume();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let received = 0;
+    req.on('data', (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > maxBytes) {
+        reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes.`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, "Request body is not valid JSON."));
+      }
+    });
+    req.on('error', reject);
+  });
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+export const sendError = (res: ServerResponse, error: unknown): void => {
+  if (res.headersSent) {
+    // Part of the response is already out; cutting it short is the only signal left
+    res.destroy(error instanceof Error ? error : undefined);
+    return;
+  }
+  // The kind lets the client show the right error state and decide whether to retry
+  if (error instanceof HttpError) {
+    sendJson(res, error.status, { error: error.message, kind: kindFromStatus(error.status) }, error.headers);
+  } else {
+    const museError = toMuseError(error);
+    sendJson(res, STATUS_FOR_KIND[museError.kind], toErrorBody(museError));
+  }
+};
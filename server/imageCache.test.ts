@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { ImageCache } from "./imageCache";
+
+const image = (base64: string, mimeType = 'image/png') => ({ base64, mimeType });
+
+describe('ImageCache', () => {
+  it('gives the same image the same id, and different images different ones', () => {
+    const cache = new ImageCache(1000);
+    const id = cache.remember(image('AAAA'));
+    expect(cache.remember(image('AAAA'))).toBe(id);
+    expect(cache.remember(image('BBBB'))).not.toBe(id);
+    expect(cache.remember(image('AAAA', 'image/jpeg'))).not.toBe(id);
+    expect(cache.recall(id)).toEqual(image('AAAA'));
+  });
+
+  it('knows nothing of ids it never handed out', () => {
+    expect(new ImageCache(1000).recall('0'.repeat(64))).toBeUndefined();
+  });
+
+  it('drops the least recently used images once over its size', () => {
+    const cache = new ImageCache(10);
+    const a = cache.remember(image('AAAA'));
+    const b = cache.remember(image('BBBB'));
+    cache.recall(a);
+    const c = cache.remember(image('CCCC'));
+    expect(cache.recall(b)).toBeUndefined();
+    expect(cache.recall(a)).toBeDefined();
+    expect(cache.recall(c)).toBeDefined();
+  });
+
+  it('keeps an image larger than the whole cache until the next one arrives', () => {
+    const cache = new ImageCache(4);
+    const big = cache.remember(image('A'.repeat(8)));
+    expect(cache.recall(big)).toBeDefined();
+    cache.remember(image('BBBB'));
+    expect(cache.recall(big)).toBeUndefined();
+  });
+});
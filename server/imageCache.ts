@@ -0,0 +1,39 @@
+import { createHash } from "node:crypto";
+import { InlineImage } from "../services/providers";
+
+/**
+ * Images the browser has sent, by a hash of their content, so chats can refer to theirs
+ * on later turns instead of uploading it again. The least recently used go first once
+ * the cache is full. State lives in memory, so a restarted server asks for them again.
+ */
+export class ImageCache {
+  private images = new Map<string, InlineImage>();
+  private bytes = 0;
+
+  constructor(private readonly maxBytes: number) {}
+
+  /** Keeps an image and returns the id to refer to it by. */
+  remember(image: InlineImage): string {
+    const id = createHash('sha256').update(`${image.mimeType};`).update(image.base64).digest('hex');
+    if (!this.recall(id)) {
+      this.images.set(id, image);
+      this.bytes += image.base64.length;
+    }
+    for (const [oldest, evicted] of this.images) {
+      if (this.bytes <= this.maxBytes || oldest === id) break;
+      this.images.delete(oldest);
+      this.bytes -= evicted.base64.length;
+    }
+    return id;
+  }
+
+  recall(id: string): InlineImage | undefined {
+    const image = this.images.get(id);
+    if (image) {
+      // Moved to the back of the line
+      this.images.delete(id);
+      this.images.set(id, image);
+    }
+    return image;
+  }
+}
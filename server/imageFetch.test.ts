@@ -0,0 +1,60 @@
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { fetchRemoteImage, isPrivateAddress } from "./imageFetch";
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1',
+    '::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'ff02::1',
+    // IPv4-mapped, in the dotted form and in the hex form URL parsing turns it into
+    '::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a9fe:a9fe', '0:0:0:0:0:ffff:7f00:1',
+    '::7f00:1', // Old IPv4-compatible form
+    '64:ff9b::7f00:1', '64:ff9b::127.0.0.1', '64:ff9b:1::a00:1', // NAT64
+    '2002:7f00:1::1', '2002:a9fe:a9fe::', // 6to4
+    '2001:0:4136:e378:8000:63bf:3fff:fdd2', // Teredo
+  ])('blocks %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '1.1.1.1', '2001:4860:4860::8888', '::ffff:8.8.8.8', '::ffff:808:808'])('allows %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+
+  it('treats anything that is not an IP address as private', () => {
+    expect(isPrivateAddress('localhost')).toBe(true);
+  });
+});
+
+describe('fetchRemoteImage', () => {
+  // Only reachable over loopback, which every URL below must be refused for
+  let server: Server;
+  let port: number;
+
+  beforeAll(async () => {
+    server = createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'image/png' });
+      res.end('secret');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it.each([
+    'http://127.0.0.1:PORT/cat.png',
+    'http://[::ffff:127.0.0.1]:PORT/cat.png',
+    'http://[::ffff:7f00:1]:PORT/cat.png',
+    'http://localhost:PORT/cat.png',
+  ])('refuses %s', async (url) => {
+    await expect(fetchRemoteImage(url.replace('PORT', String(port)), new AbortController().signal))
+      .rejects.toMatchObject({ status: 400, message: "Images on private or local networks can't be fetched." });
+  });
+
+  it('refuses other protocols', async () => {
+    await expect(fetchRemoteImage('file:///etc/passwd', new AbortController().signal)).rejects.toMatchObject({ status: 400 });
+  });
+});
@@ -0,0 +1,133 @@
+import { LookupAddress, lookup } from "node:dns";
+import { IncomingMessage, get as httpGet } from "node:http";
+import { get as httpsGet } from "node:https";
+import { BlockList, LookupFunction, isIP } from "node:net";
+import { HttpError } from "./http";
+
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+const FETCH_TIMEOUT_MS = 15_000;
+
+// Loopback, private, link-local and other ranges a public image never lives in.
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:7f00:1) against the IPv4 rules.
+const BLOCKED = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3], // Multicast and reserved
+] as const) BLOCKED.addSubnet(network, prefix, 'ipv4');
+for (const [network, prefix] of [
+  ['::', 96], // Unspecified, loopback and the old IPv4-compatible form
+  // Translation and tunnelling prefixes carry an IPv4 address, which may be a private one
+  ['64:ff9b::', 96], // NAT64
+  ['64:ff9b:1::', 48], // Local-use NAT64
+  ['2001::', 32], // Teredo
+  ['2002::', 16], // 6to4
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+] as const) BLOCKED.addSubnet(network, prefix, 'ipv6');
+
+const PRIVATE_MESSAGE = "Images on private or local networks can't be fetched.";
+
+/** Whether an IP address is one the server must not be pointed at; anything that isn't an IP counts. */
+export const isPrivateAddress = (address: string): boolean => {
+  const version = isIP(address);
+  return version === 0 || BLOCKED.check(address, version === 4 ? 'ipv4' : 'ipv6');
+};
+
+// Resolves the host for the connection itself, so the address that was checked is the one
+// connected to and a DNS answer can't change in between
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(new HttpError(400, `Couldn't find the host ${hostname}.`), '');
+    } else if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(new HttpError(400, PRIVATE_MESSAGE), '');
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const parseImageUrl = (raw: string): URL => {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new HttpError(400, "That isn't a valid URL.");
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new HttpError(400, "Only http and https image URLs are supported.");
+  }
+  // IP hosts are connected to without a lookup, so they are checked here instead
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isPrivateAddress(host)) throw new HttpError(400, PRIVATE_MESSAGE);
+  return url;
+};
+
+const request = (url: URL, signal: AbortSignal): Promise<IncomingMessage> =>
+  new Promise((resolve, reject) => {
+    const get = url.protocol === 'https:' ? httpsGet : httpGet;
+    get(url, { headers: { Accept: 'image/*' }, lookup: publicLookup, signal }, resolve).on('error', reject);
+  });
+
+/**
+ * Downloads an image from a public URL for the browser, which usually can't read
+ * cross-origin images itself. Redirects are followed by hand so each hop is checked.
+ */
+export const fetchRemoteImage = async (raw: string, signal: AbortSignal): Promise<{ bytes: Uint8Array; mimeType: string }> => {
+  const timeout = AbortSignal.any([signal, AbortSignal.timeout(FETCH_TIMEOUT_MS)]);
+  let url = parseImageUrl(raw);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await request(url, timeout).catch(error => {
+      if (signal.aborted || error instanceof HttpError) throw error;
+      throw new HttpError(502, `Couldn't download the image: ${error instanceof Error ? error.message : error}`);
+    });
+    const status = response.statusCode ?? 0;
+
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.destroy();
+      url = parseImageUrl(new URL(location, url).toString());
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      response.destroy();
+      throw new HttpError(status === 404 ? 404 : 502, `The image URL answered with ${status}.`);
+    }
+
+    const mimeType = (response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+    if (!mimeType.startsWith('image/')) {
+      response.destroy();
+      throw new HttpError(415, `That URL points to ${mimeType || 'something'} rather than an image.`);
+    }
+    if (Number(response.headers['content-length'] || 0) > MAX_IMAGE_BYTES) {
+      response.destroy();
+      throw new HttpError(413, "That image is too large to download.");
+    }
+
+    // Content-Length can lie or be missing, so count while reading
+    const chunks: Buffer[] = [];
+    let total = 0;
+    for await (const chunk of response as AsyncIterable<Buffer>) {
+      total += chunk.byteLength;
+      if (total > MAX_IMAGE_BYTES) {
+        response.destroy();
+        throw new HttpError(413, "That image is too large to download.");
+      }
+      chunks.push(chunk);
+    }
+    return { bytes: Buffer.concat(chunks), mimeType };
+  }
+
+  throw new HttpError(502, "The image URL redirected too many times.");
+};
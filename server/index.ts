@@ -0,0 +1,89 @@
+import { existsSync } from "node:fs";
+import { createServer } from "node:http";
+import { getModelConfig } from "../services/config";
+import { API_BASE_PATH, createProvider } from "../services/providers";
+import { LIVE_PATH } from "../services/providers/proxyProvider";
+import { isAbortError } from "../utils/abort";
+import { HttpError, readJsonBody, sendError } from "./http";
+import { createLiveRelay } from "./live";
+import { RateLimiter } from "./rateLimiter";
+import { ROUTES, clientAddress, isAllowedOrigin } from "./routes";
+
+// Same files Vite reads, so one .env.local configures both halves of the app
+for (const file of ['.env.local', '.env']) {
+  if (existsSync(file)) process.loadEnvFile(file);
+}
+
+const PORT = Number(process.env.MUSE_SERVER_PORT) || 8787;
+const MAX_BODY_BYTES = Number(process.env.MUSE_MAX_BODY_BYTES) || 10 * 1024 * 1024; // Room for a large base64 image
+const RATE_LIMIT = Number(process.env.MUSE_RATE_LIMIT) || 120; // Requests per client per minute
+const TRUST_PROXY = process.env.MUSE_TRUST_PROXY === 'true';
+// Pages on other hosts that may open live sessions, e.g. when the app is served from a different domain
+const ALLOWED_ORIGINS = (process.env.MUSE_ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+
+const config = getModelConfig();
+const provider = createProvider(config);
+const limiter = new RateLimiter(RATE_LIMIT, 60_000);
+setInterval(() => limiter.prune(), 60_000).unref();
+
+const server = createServer(async (req, res) => {
+  const startedAt = Date.now();
+  const client = clientAddress(req, TRUST_PROXY);
+  const path = (req.url || '').split('?')[0];
+
+  // Stop the upstream request when the browser goes away (e.g. the user pressed Stop)
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+    const outcome = res.writableFinished ? res.statusCode : 'aborted';
+    console.log(`${new Date().toISOString()} ${client} ${req.method} ${path} ${outcome} ${Date.now() - startedAt}ms`);
+  });
+
+  try {
+    const route = path.startsWith(`${API_BASE_PATH}/`) ? ROUTES[path.slice(API_BASE_PATH.length)] : undefined;
+    if (!route) throw new HttpError(404, `No endpoint at ${path}.`);
+    if (req.method !== 'POST') throw new HttpError(405, "Use POST.", { Allow: 'POST' });
+
+    const retryAfter = limiter.take(client);
+    if (retryAfter) {
+      throw new HttpError(429, "Too many requests. Slow down and try again shortly.", { 'Retry-After': String(retryAfter) });
+    }
+
+    const body = await readJsonBody(req, MAX_BODY_BYTES);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new HttpError(400, "Request body must be a JSON object.");
+    }
+    await route(provider, body as Record<string, unknown>, res, controller.signal);
+  } catch (error) {
+    if (controller.signal.aborted || isAbortError(error)) return;
+    if (!(error instanceof HttpError)) {
+      console.error(`${req.method} ${path} failed`, error);
+    }
+    sendError(res, error);
+  }
+});
+
+// Live voice sessions are the one WebSocket endpoint
+const relayLive = createLiveRelay(provider, MAX_BODY_BYTES);
+server.on('upgrade', (req, socket, head) => {
+  const startedAt = Date.now();
+  const client = clientAddress(req, TRUST_PROXY);
+  const path = (req.url || '').split('?')[0];
+  const refuse = (status: string) => {
+    socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`, () => socket.destroy());
+    console.log(`${new Date().toISOString()} ${client} WS ${path} ${status}`);
+  };
+
+  if (path !== `${API_BASE_PATH}${LIVE_PATH}`) return refuse('404 Not Found');
+  // WebSockets aren't covered by CORS, so any site the user visits could otherwise open a billed session
+  if (!isAllowedOrigin(req, ALLOWED_ORIGINS, TRUST_PROXY)) return refuse('403 Forbidden');
+  if (limiter.take(client)) return refuse('429 Too Many Requests');
+  socket.once('close', () => {
+    console.log(`${new Date().toISOString()} ${client} WS ${path} closed ${Date.now() - startedAt}ms`);
+  });
+  relayLive(req, socket, head);
+});
+
+server.listen(PORT, () => {
+  console.log(`Muse server listening on http://localhost:${PORT}${API_BASE_PATH} (provider: ${config.provider}, story model: ${config.storyModel})`);
+});
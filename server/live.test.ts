@@ -0,0 +1,82 @@
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
+import { getModelConfig } from "../services/config";
+import { createProvider } from "../services/providers";
+import { createLiveRelay } from "./live";
+
+const MAX_MESSAGE_BYTES = 1000;
+const SETUP = JSON.stringify({ type: 'setup', systemInstruction: 'Talk about the story.' });
+
+let server: Server;
+let url: string;
+
+beforeAll(async () => {
+  vi.stubEnv('MUSE_PROVIDER', 'mock');
+  server = createServer();
+  server.on('upgrade', createLiveRelay(createProvider(getModelConfig()), MAX_MESSAGE_BYTES));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  server.close();
+});
+
+// Opens a socket and collects its JSON frames until it closes
+const connect = () => {
+  const socket = new WebSocket(url);
+  const frames: { type: string; [key: string]: unknown }[] = [];
+  socket.on('message', (data: Buffer, isBinary: boolean) => {
+    if (!isBinary) frames.push(JSON.parse(data.toString('utf8')));
+  });
+  const closed = new Promise<number>(resolve => socket.on('close', resolve));
+  const ready = new Promise<void>((resolve, reject) => {
+    socket.on('message', (data: Buffer, isBinary: boolean) => {
+      if (!isBinary && JSON.parse(data.toString('utf8')).type === 'ready') resolve();
+    });
+    closed.then(code => reject(new Error(`Closed with ${code} before it was ready`)));
+  });
+  ready.catch(() => {});
+  const opened = new Promise<void>(resolve => socket.on('open', resolve));
+  return { socket, frames, opened, ready, closed };
+};
+
+describe('createLiveRelay', () => {
+  it('starts a session from the setup message', async () => {
+    const { socket, opened, ready, closed } = connect();
+    await opened;
+    socket.send(SETUP);
+    await ready;
+    socket.close(1000);
+    expect(await closed).toBe(1000);
+  });
+
+  it('refuses audio before the setup message', async () => {
+    const { socket, frames, opened, closed } = connect();
+    await opened;
+    socket.send(new Uint8Array(16));
+    expect(await closed).toBe(1011);
+    expect(frames).toEqual([{ type: 'error', error: expect.objectContaining({ kind: 'invalid-input' }) }]);
+  });
+
+  it('closes a socket that sends too large a frame, and keeps serving others', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const first = connect();
+    await first.opened;
+    first.socket.send(SETUP);
+    await first.ready;
+    first.socket.send(new Uint8Array(MAX_MESSAGE_BYTES * 5));
+    expect(await first.closed).toBe(1009);
+
+    const second = connect();
+    await second.opened;
+    second.socket.send(SETUP);
+    await second.ready;
+    second.socket.close(1000);
+    await second.closed;
+    vi.restoreAllMocks();
+  });
+});
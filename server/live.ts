@@ -0,0 +1,84 @@
+import { IncomingMessage } from "node:http";
+import { Duplex } from "node:stream";
+import { WebSocket, WebSocketServer } from "ws";
+import { toErrorBody, toMuseError } from "../services/errors";
+import { LiveSession, ModelProvider } from "../services/providers";
+import { LiveServerFrame } from "../services/providers/proxyProvider";
+import { HttpError } from "./http";
+import { readLiveSetup } from "./routes";
+
+/**
+ * Relays live voice sessions between browser WebSockets and the provider. The first
+ * message sets the session up like a request body would; after that, binary frames are
+ * audio in both directions and JSON frames carry transcripts, usage and errors.
+ * Returns the handler for the HTTP server's `upgrade` event.
+ */
+export const createLiveRelay = (provider: ModelProvider, maxMessageBytes: number) => {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: maxMessageBytes });
+
+  wss.on('connection', (socket: WebSocket) => {
+    const controller = new AbortController();
+    let session: LiveSession | null = null;
+
+    const send = (frame: LiveServerFrame) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(frame));
+    };
+    const fail = (error: unknown) => {
+      if (!(error instanceof HttpError)) console.error("Live session failed", error);
+      send({ type: 'error', error: toErrorBody(toMuseError(error)) });
+      socket.close(1011);
+    };
+
+    socket.once('message', async (data: Buffer, isBinary: boolean) => {
+      try {
+        if (isBinary) throw new HttpError(400, "Send the setup message before any audio.");
+        let setup: Record<string, unknown>;
+        try {
+          setup = JSON.parse(data.toString('utf8'));
+        } catch {
+          throw new HttpError(400, "The setup message is not valid JSON.");
+        }
+        if (setup?.type !== 'setup') throw new HttpError(400, `The first message must have type "setup".`);
+
+        session = await provider.connectLive({
+          ...readLiveSetup(setup),
+          signal: controller.signal,
+          onEvent: (event) => {
+            if (event.type !== 'audio') send(event);
+            else if (socket.readyState === WebSocket.OPEN) socket.send(event.pcm);
+          },
+          onUsage: (usage) => send({ type: 'usage', usage }),
+          onClose: (error) => (error ? fail(error) : socket.close(1000)),
+        });
+        if (controller.signal.aborted) {
+          session.close(); // The browser left while it was connecting
+          return;
+        }
+
+        // Copied, since ws hands out slices of a shared buffer that may not be 16-bit aligned
+        socket.on('message', (audio: Buffer, isAudio: boolean) => {
+          if (isAudio) session?.sendAudio(new Uint8Array(audio));
+        });
+        send({ type: 'ready' });
+      } catch (error) {
+        if (!controller.signal.aborted) fail(error);
+      }
+    });
+
+    const shutdown = () => {
+      controller.abort();
+      session?.close();
+    };
+    socket.on('close', shutdown);
+    // E.g. a frame over maxPayload; without a listener it would take the whole server down
+    socket.on('error', (error: Error) => {
+      console.error("Live socket error", error.message);
+      shutdown();
+      socket.terminate();
+    });
+  });
+
+  return (req: IncomingMessage, socket: Duplex, head: Buffer): void => {
+    wss.handleUpgrade(req, socket, head, (ws: WebSocket) => wss.emit('connection', ws, req));
+  };
+};
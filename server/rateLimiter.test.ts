@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { RateLimiter } from "./rateLimiter";
+
+describe('RateLimiter', () => {
+  it('allows requests up to the limit, then says how many seconds to wait', () => {
+    const limiter = new RateLimiter(2, 60_000);
+    expect(limiter.take('a', 0)).toBe(0);
+    expect(limiter.take('a', 1_000)).toBe(0);
+    expect(limiter.take('a', 1_500)).toBe(59);
+  });
+
+  it('counts each client on its own', () => {
+    const limiter = new RateLimiter(1, 60_000);
+    expect(limiter.take('a', 0)).toBe(0);
+    expect(limiter.take('b', 0)).toBe(0);
+    expect(limiter.take('a', 0)).toBeGreaterThan(0);
+  });
+
+  it('starts a fresh window once the old one has run out', () => {
+    const limiter = new RateLimiter(1, 60_000);
+    limiter.take('a', 0);
+    expect(limiter.take('a', 59_999)).toBe(1);
+    expect(limiter.take('a', 60_000)).toBe(0);
+  });
+
+  it('forgets only the clients whose window has run out', () => {
+    const limiter = new RateLimiter(5, 60_000);
+    limiter.take('old', 0);
+    limiter.take('recent', 30_000);
+    limiter.prune(60_000);
+    expect([...limiter['windows'].keys()]).toEqual(['recent']);
+  });
+});
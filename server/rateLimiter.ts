@@ -0,0 +1,39 @@
+interface Window {
+  startedAt: number;
+  count: number;
+}
+
+/**
+ * Fixed-window request counter per client. State lives in memory, so limits are
+ * per server process.
+ */
+export class RateLimiter {
+  private windows = new Map<string, Window>();
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  /**
+   * Counts a request from `client`. Returns 0 when it is allowed, otherwise the
+   * number of seconds until the client may try again.
+   */
+  take(client: string, now: number = Date.now()): number {
+    let window = this.windows.get(client);
+    if (!window || now - window.startedAt >= this.windowMs) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(client, window);
+    }
+
+    if (window.count >= this.limit) {
+      return Math.ceil((window.startedAt + this.windowMs - now) / 1000);
+    }
+    window.count++;
+    return 0;
+  }
+
+  /** Forgets clients whose window has run out, so the map does not grow without bound. */
+  prune(now: number = Date.now()): void {
+    for (const [client, window] of this.windows) {
+      if (now - window.startedAt >= this.windowMs) this.windows.delete(client);
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { IncomingMessage } from "node:http";
+import { describe, expect, it } from "vitest";
+import { isAllowedOrigin } from "./routes";
+
+const request = (headers: Record<string, string>): IncomingMessage =>
+  ({ headers }) as unknown as IncomingMessage;
+
+describe('isAllowedOrigin', () => {
+  it('allows pages served from the same host', () => {
+    expect(isAllowedOrigin(request({ origin: 'http://localhost:5173', host: 'localhost:5173' }), [], false)).toBe(true);
+  });
+
+  it('refuses pages from other sites', () => {
+    expect(isAllowedOrigin(request({ origin: 'https://evil.example', host: 'localhost:5173' }), [], false)).toBe(false);
+    expect(isAllowedOrigin(request({ origin: 'null', host: 'localhost:5173' }), [], false)).toBe(false);
+  });
+
+  it('allows origins on the allowlist', () => {
+    const req = request({ origin: 'https://muse.example', host: 'api.internal:8787' });
+    expect(isAllowedOrigin(req, ['https://muse.example'], false)).toBe(true);
+  });
+
+  it('allows requests without an Origin, which do not come from a web page', () => {
+    expect(isAllowedOrigin(request({ host: 'localhost:8787' }), [], false)).toBe(true);
+  });
+
+  it('compares against the forwarded host only when the proxy is trusted', () => {
+    const req = request({ origin: 'https://muse.example', host: 'localhost:8787', 'x-forwarded-host': 'muse.example' });
+    expect(isAllowedOrigin(req, [], true)).toBe(true);
+    expect(isAllowedOrigin(req, [], false)).toBe(false);
+  });
+});
@@ -0,0 +1,282 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { ChatTurn, HarmCategory, InlineImage, JsonSchema, ModelProvider, ModelUsage, SafetyThreshold, SafetyThresholds, ToolDeclaration, Variation } from "../services/providers";
+import { IMAGE_ID_HEADER, MODEL_HEADER, StoryStreamLine, UNKNOWN_IMAGE_STATUS, USAGE_HEADER } from "../services/providers/proxyProvider";
+import { toErrorBody, toMuseError } from "../services/errors";
+import { HttpError, sendJson } from "./http";
+import { ImageCache } from "./imageCache";
+import { fetchRemoteImage } from "./imageFetch";
+
+/** Longest text accepted for a single field of a request body. */
+const MAX_TEXT_LENGTH = 20000;
+/** Speech is synthesized chunk by chunk, so one request never needs much text. */
+const MAX_SPEECH_LENGTH = 4000;
+const MAX_HISTORY_TURNS = 200;
+const MAX_TOOLS = 16;
+/** Memory for the images chats refer to by id, counted in base64 characters. */
+const MAX_CACHED_IMAGE_BYTES = 64 * 1024 * 1024;
+
+const chatImages = new ImageCache(MAX_CACHED_IMAGE_BYTES);
+
+type Body = Record<string, unknown>;
+
+export type RouteHandler = (
+  provider: ModelProvider,
+  body: Body,
+  res: ServerResponse,
+  signal: AbortSignal
+) => Promise<void>;
+
+const requireText = (body: Body, key: string, maxLength = MAX_TEXT_LENGTH): string => {
+  const value = body[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `"${key}" must be a non-empty string.`);
+  }
+  if (value.length > maxLength) {
+    throw new HttpError(413, `"${key}" is longer than ${maxLength} characters.`);
+  }
+  return value;
+};
+
+const readImage = (value: unknown, required: boolean): InlineImage | null => {
+  if (value === undefined || value === null) {
+    if (required) throw new HttpError(400, `"image" is required.`);
+    return null;
+  }
+  const image = value as Partial<InlineImage>;
+  if (typeof image.base64 !== 'string' || typeof image.mimeType !== 'string' || !image.mimeType.startsWith('image/')) {
+    throw new HttpError(400, `"image" must have a base64 string and an image/* mimeType.`);
+  }
+  return { base64: image.base64, mimeType: image.mimeType };
+};
+
+// Chats and token counts send their image once, then refer to it by the id in IMAGE_ID_HEADER
+const readChatImage = (body: Body): { image: InlineImage | null; headers: Record<string, string> } => {
+  if (body.imageId !== undefined) {
+    const image = typeof body.imageId === 'string' ? chatImages.recall(body.imageId) : undefined;
+    if (!image) throw new HttpError(UNKNOWN_IMAGE_STATUS, "The server no longer has that image; send it again.");
+    return { image, headers: { [IMAGE_ID_HEADER]: body.imageId as string } };
+  }
+  const image = readImage(body.image, false);
+  return { image, headers: image ? { [IMAGE_ID_HEADER]: chatImages.remember(image) } : {} };
+};
+
+const readVariation = (value: unknown): Variation | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const { temperature, seed } = value as Variation;
+  return {
+    temperature: typeof temperature === 'number' ? Math.max(0, Math.min(2, temperature)) : undefined,
+    seed: typeof seed === 'number' ? Math.floor(seed) : undefined,
+  };
+};
+
+const HARM_CATEGORIES: HarmCategory[] = ['harassment', 'hate-speech', 'sexually-explicit', 'dangerous-content'];
+const SAFETY_THRESHOLDS: SafetyThreshold[] = ['default', 'none', 'high', 'medium', 'low'];
+
+const readSafety = (value: unknown): SafetyThresholds | undefined => {
+  if (value === undefined) return undefined;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new HttpError(400, `"safety" must map harm categories to thresholds.`);
+  }
+  return Object.fromEntries(Object.entries(value).map(([category, threshold]) => {
+    if (!HARM_CATEGORIES.includes(category as HarmCategory) || !SAFETY_THRESHOLDS.includes(threshold as SafetyThreshold)) {
+      throw new HttpError(400, `"safety" takes ${HARM_CATEGORIES.join(', ')}, each set to one of ${SAFETY_THRESHOLDS.join(', ')}.`);
+    }
+    return [category, threshold];
+  }));
+};
+
+const readHistory = (value: unknown): ChatTurn[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_HISTORY_TURNS) {
+    throw new HttpError(400, `"history" must be an array of at most ${MAX_HISTORY_TURNS} turns.`);
+  }
+  return value.map((turn: Partial<ChatTurn>) => {
+    if ((turn.role !== 'user' && turn.role !== 'model') || typeof turn.text !== 'string') {
+      throw new HttpError(400, `Every "history" turn needs a role of user or model and a text.`);
+    }
+    return { role: turn.role, text: turn.text };
+  });
+};
+
+const readTools = (value: unknown): ToolDeclaration[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.length > MAX_TOOLS) {
+    throw new HttpError(400, `"tools" must be an array of at most ${MAX_TOOLS} declarations.`);
+  }
+  return value.map((tool: Partial<ToolDeclaration>) => {
+    if (typeof tool.name !== 'string' || typeof tool.description !== 'string' || !tool.parameters || typeof tool.parameters !== 'object') {
+      throw new HttpError(400, `Every "tools" entry needs a name, a description and a parameters schema.`);
+    }
+    return { name: tool.name, description: tool.description, parameters: tool.parameters };
+  });
+};
+
+const usageHeader = (usage: ModelUsage | null): Record<string, string> =>
+  usage ? { [USAGE_HEADER]: JSON.stringify(usage) } : {};
+
+const story: RouteHandler = async (provider, body, res, signal) => {
+  const image = readImage(body.image, true)!;
+  const prompt = requireText(body, 'prompt');
+  let usage: ModelUsage | null = null;
+  const stream = provider.streamStory({
+    image,
+    prompt,
+    variation: readVariation(body.variation),
+    safety: readSafety(body.safety),
+    signal,
+    onUsage: (reported) => { usage = reported; },
+  });
+
+  // One JSON object per line: text chunks, then the usage once the model has finished
+  const writeLine = (line: StoryStreamLine) => {
+    // Headers wait for the first line, so a provider failing up front still gets a proper error status
+    if (!res.headersSent) {
+      res.writeHead(200, {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        [MODEL_HEADER]: provider.storyModel,
+      });
+    }
+    res.write(`${JSON.stringify(line)}\n`);
+  };
+  try {
+    for await (const chunk of stream) {
+      writeLine({ text: chunk });
+    }
+  } catch (error) {
+    // Too late for an error status, e.g. the safety filter stopped the story part way
+    if (!res.headersSent || signal.aborted) throw error;
+    writeLine({ error: toErrorBody(toMuseError(error)) });
+    res.end();
+    return;
+  }
+  if (usage) writeLine({ usage });
+  if (!res.headersSent) {
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', [MODEL_HEADER]: provider.storyModel });
+  }
+  res.end();
+};
+
+const structured: RouteHandler = async (provider, body, res, signal) => {
+  if (!body.schema || typeof body.schema !== 'object') {
+    throw new HttpError(400, `"schema" must be a JSON schema object.`);
+  }
+  let usage: ModelUsage | null = null;
+  const result = await provider.generateStructured({
+    image: readImage(body.image, false),
+    prompt: requireText(body, 'prompt'),
+    schema: body.schema as JsonSchema,
+    safety: readSafety(body.safety),
+    signal,
+    onUsage: (reported) => { usage = reported; },
+  });
+  sendJson(res, 200, result, usageHeader(usage));
+};
+
+const chat: RouteHandler = async (provider, body, res, signal) => {
+  const { image, headers } = readChatImage(body);
+  const session = provider.startChat({ image, history: readHistory(body.history) });
+  let usage: ModelUsage | null = null;
+  const reply = await session.sendMessage({
+    message: requireText(body, 'message'),
+    systemInstruction: requireText(body, 'systemInstruction', MAX_TEXT_LENGTH * 2), // Carries the whole draft
+    tools: readTools(body.tools),
+    safety: readSafety(body.safety),
+    signal,
+    onUsage: (reported) => { usage = reported; },
+  });
+  sendJson(res, 200, { reply: reply.text, toolCalls: reply.toolCalls }, { ...usageHeader(usage), ...headers });
+};
+
+/** Checks the setup message that opens a live voice session, like a request body. */
+export const readLiveSetup = (body: Body) => ({
+  systemInstruction: requireText(body, 'systemInstruction', MAX_TEXT_LENGTH * 2),
+  image: readImage(body.image, false),
+  history: readHistory(body.history),
+  safety: readSafety(body.safety),
+});
+
+const tokens: RouteHandler = async (provider, body, res, signal) => {
+  const systemInstruction = body.systemInstruction === undefined ? undefined : requireText(body, 'systemInstruction', MAX_TEXT_LENGTH * 2);
+  const { image, headers } = readChatImage(body);
+  const count = await provider.countTokens({
+    image,
+    systemInstruction,
+    turns: readHistory(body.history),
+    signal,
+  });
+  sendJson(res, 200, { tokens: count, budget: provider.chatTokenBudget }, headers);
+};
+
+const speech: RouteHandler = async (provider, body, res, signal) => {
+  let usage: ModelUsage | null = null;
+  const pcm = await provider.generateSpeech({
+    text: requireText(body, 'text', MAX_SPEECH_LENGTH),
+    signal,
+    onUsage: (reported) => { usage = reported; },
+  });
+  if (!pcm) {
+    res.writeHead(204, usageHeader(usage));
+    res.end();
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': pcm.byteLength, ...usageHeader(usage) });
+  res.end(pcm);
+};
+
+const illustration: RouteHandler = async (provider, body, res, signal) => {
+  let usage: ModelUsage | null = null;
+  const image = await provider.generateImage({
+    prompt: requireText(body, 'prompt'),
+    reference: readImage(body.reference, false),
+    safety: readSafety(body.safety),
+    signal,
+    onUsage: (reported) => { usage = reported; },
+  });
+  sendJson(res, 200, { image }, usageHeader(usage));
+};
+
+// Not a model call: fetches an image URL the browser can't read cross-origin
+const image: RouteHandler = async (_provider, body, res, signal) => {
+  const { bytes, mimeType } = await fetchRemoteImage(requireText(body, 'url', 4096), signal);
+  res.writeHead(200, { 'Content-Type': mimeType, 'Content-Length': bytes.byteLength });
+  res.end(bytes);
+};
+
+/** POST endpoints, keyed by path relative to the API base. */
+export const ROUTES: Record<string, RouteHandler> = {
+  '/story': story,
+  '/structured': structured,
+  '/chat': chat,
+  '/tokens': tokens,
+  '/speech': speech,
+  '/illustration': illustration,
+  '/image': image,
+};
+
+/** Address to rate limit by; only trusts X-Forwarded-For when told it sits behind a proxy. */
+export const clientAddress = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string' && forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+/**
+ * Whether a request may come from the page that sent it: its Origin is on `allowed` or is
+ * the host the request was sent to. Browsers always send an Origin on WebSockets and
+ * cross-site requests, so one that is missing isn't from another site's page.
+ */
+export const isAllowedOrigin = (req: IncomingMessage, allowed: string[], trustProxy: boolean): boolean => {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  if (allowed.includes(origin)) return true;
+  const forwarded = req.headers['x-forwarded-host'];
+  const host = trustProxy && typeof forwarded === 'string' && forwarded ? forwarded.split(',')[0].trim() : req.headers.host;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_CHAT_TOKEN_BUDGET, getModelConfig } from "./config";
+
+// Every variable the config reads, cleared so the machine's own environment can't leak in
+const VARIABLES = [
+  'MUSE_PROVIDER', 'GEMINI_API_KEY', 'API_KEY', 'MUSE_API_KEY', 'MUSE_API_BASE_URL', 'MUSE_CHAT_TOKEN_BUDGET',
+  'MUSE_STORY_MODEL', 'MUSE_CHAT_MODEL', 'MUSE_SPEECH_MODEL', 'MUSE_IMAGE_MODEL', 'MUSE_LIVE_MODEL', 'MUSE_VOICE',
+];
+
+const withEnv = (values: Record<string, string>) => {
+  for (const name of VARIABLES) vi.stubEnv(name, values[name] ?? '');
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getModelConfig', () => {
+  it('uses Gemini when it has a key and the mock provider otherwise', () => {
+    withEnv({ GEMINI_API_KEY: 'key' });
+    expect(getModelConfig()).toMatchObject({ provider: 'gemini', apiKey: 'key', storyModel: 'gemini-3-pro-preview' });
+    withEnv({});
+    expect(getModelConfig()).toMatchObject({ provider: 'mock', apiKey: '', storyModel: 'mock-story' });
+  });
+
+  it('takes the provider, models and endpoint from the environment', () => {
+    withEnv({ MUSE_PROVIDER: ' OpenAI ', MUSE_API_KEY: 'sk', MUSE_STORY_MODEL: 'gpt-4o', MUSE_API_BASE_URL: 'https://api.openai.com/v1' });
+    expect(getModelConfig()).toMatchObject({
+      provider: 'openai',
+      apiKey: 'sk',
+      storyModel: 'gpt-4o',
+      chatModel: 'llava',
+      baseUrl: 'https://api.openai.com/v1',
+    });
+  });
+
+  it('keeps the Gemini key away from other providers', () => {
+    withEnv({ MUSE_PROVIDER: 'openai', GEMINI_API_KEY: 'gemini-key' });
+    expect(getModelConfig().apiKey).toBe('');
+  });
+
+  it('rejects an unknown provider', () => {
+    withEnv({ MUSE_PROVIDER: 'claude' });
+    expect(() => getModelConfig()).toThrow('Unknown MUSE_PROVIDER "claude"');
+  });
+
+  it('ignores a chat token budget that is not a positive number', () => {
+    withEnv({ MUSE_CHAT_TOKEN_BUDGET: '1000.7' });
+    expect(getModelConfig().chatTokenBudget).toBe(1000);
+    withEnv({ MUSE_CHAT_TOKEN_BUDGET: 'lots' });
+    expect(getModelConfig().chatTokenBudget).toBe(DEFAULT_CHAT_TOKEN_BUDGET);
+  });
+});
@@ -0,0 +1,84 @@
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ModelConfig {
+  provider: ProviderId;
+  storyModel: string;
+  chatModel: string;
+  speechModel: string;
+  imageModel: string; // Draws storybook illustrations
+  liveModel: string; // Holds spoken conversations with the co-author
+  voice: string;
+  apiKey: string;
+  baseUrl: string;
+  chatTokenBudget: number; // Context the co-author chat may fill before older turns are summarized
+}
+
+export const DEFAULT_CHAT_TOKEN_BUDGET = 32000;
+
+const PROVIDER_DEFAULTS: Record<ProviderId, Omit<ModelConfig, 'provider' | 'apiKey' | 'chatTokenBudget'>> = {
+  gemini: {
+    storyModel: 'gemini-3-pro-preview',
+    chatModel: 'gemini-3-pro-preview',
+    speechModel: 'gemini-2.5-flash-preview-tts',
+    imageModel: 'gemini-2.5-flash-image',
+    liveModel: 'gemini-2.5-flash-native-audio-preview-09-2025',
+    voice: 'Puck', // Expressive voice
+    baseUrl: '',
+  },
+  // Works against OpenAI itself or any compatible server, e.g. Ollama's /v1 endpoint.
+  openai: {
+    storyModel: 'llava',
+    chatModel: 'llava',
+    speechModel: 'tts-1',
+    imageModel: 'gpt-image-1',
+    liveModel: '', // No live sessions over this API
+    voice: 'alloy',
+    baseUrl: 'http://localhost:11434/v1',
+  },
+  mock: {
+    storyModel: 'mock-story',
+    chatModel: 'mock-chat',
+    speechModel: 'mock-tts',
+    imageModel: 'mock-image',
+    liveModel: 'mock-live',
+    voice: 'mock',
+    baseUrl: '',
+  },
+};
+
+const isProviderId = (value: string): value is ProviderId => value in PROVIDER_DEFAULTS;
+
+/**
+ * Resolves the model configuration from the server's environment.
+ * Without an explicit MUSE_PROVIDER we use Gemini when a key is present and
+ * fall back to the offline mock provider otherwise.
+ */
+export const getModelConfig = (): ModelConfig => {
+  const requested = (process.env.MUSE_PROVIDER || '').trim().toLowerCase();
+  const geminiKey = process.env.GEMINI_API_KEY || process.env.API_KEY || '';
+
+  let provider: ProviderId;
+  if (requested) {
+    if (!isProviderId(requested)) {
+      throw new Error(`Unknown MUSE_PROVIDER "${requested}". Expected one of: ${Object.keys(PROVIDER_DEFAULTS).join(', ')}.`);
+    }
+    provider = requested;
+  } else {
+    provider = geminiKey ? 'gemini' : 'mock';
+  }
+
+  const defaults = PROVIDER_DEFAULTS[provider];
+  const budget = Number(process.env.MUSE_CHAT_TOKEN_BUDGET);
+  return {
+    provider,
+    storyModel: process.env.MUSE_STORY_MODEL || defaults.storyModel,
+    chatModel: process.env.MUSE_CHAT_MODEL || defaults.chatModel,
+    speechModel: process.env.MUSE_SPEECH_MODEL || defaults.speechModel,
+    imageModel: process.env.MUSE_IMAGE_MODEL || defaults.imageModel,
+    liveModel: process.env.MUSE_LIVE_MODEL || defaults.liveModel,
+    voice: process.env.MUSE_VOICE || defaults.voice,
+    apiKey: provider === 'gemini' ? geminiKey : process.env.MUSE_API_KEY || '',
+    baseUrl: process.env.MUSE_API_BASE_URL || defaults.baseUrl,
+    chatTokenBudget: budget > 0 ? Math.floor(budget) : DEFAULT_CHAT_TOKEN_BUDGET,
+  };
+};
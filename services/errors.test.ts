@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest";
+import { MuseError, kindFromStatus, toMuseError, withRetry } from "./errors";
+
+// Fails with each error in turn, then succeeds
+const failing = (...errors: unknown[]) => vi.fn(async () => {
+  if (errors.length) throw errors.shift();
+  return 'done';
+});
+
+const fast = { baseDelayMs: 1, maxDelayMs: 5 };
+
+describe('withRetry', () => {
+  it('retries retryable failures until the operation succeeds', async () => {
+    const operation = failing(new MuseError('network', 'Down'), new MuseError('rate-limit', 'Slow down'));
+    await expect(withRetry(operation, fast)).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the given number of retries', async () => {
+    const operation = failing(...Array.from({ length: 5 }, () => new MuseError('network', 'Down')));
+    await expect(withRetry(operation, { ...fast, retries: 2 })).rejects.toMatchObject({ kind: 'network' });
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it("doesn't retry failures that would only happen again", async () => {
+    const operation = failing(new MuseError('safety', 'Blocked'));
+    await expect(withRetry(operation, fast)).rejects.toMatchObject({ kind: 'safety' });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets canRetry veto a retry', async () => {
+    const operation = failing(new MuseError('network', 'Down'));
+    await expect(withRetry(operation, { ...fast, canRetry: () => false })).rejects.toMatchObject({ kind: 'network' });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('turns whatever was thrown into a MuseError', async () => {
+    const error = await withRetry(failing(new Error('invalid argument: bad image')), fast).catch(e => e);
+    expect(error).toBeInstanceOf(MuseError);
+    expect(error.kind).toBe('invalid-input');
+  });
+
+  it('stops waiting as soon as it is aborted', async () => {
+    const controller = new AbortController();
+    const operation = failing(new MuseError('network', 'Down', { retryAfterMs: 60_000 }));
+    const result = withRetry(operation, { signal: controller.signal, maxDelayMs: 60_000 });
+    await new Promise(resolve => setTimeout(resolve, 10)); // Into the wait before the retry
+    controller.abort();
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('toMuseError', () => {
+  it('classifies by status, then by message', () => {
+    expect(toMuseError(Object.assign(new Error('Nope'), { status: 429 })).kind).toBe('rate-limit');
+    expect(toMuseError(new Error('API key not valid')).kind).toBe('auth');
+    expect(toMuseError(new TypeError('Failed to fetch')).kind).toBe('network');
+    expect(toMuseError('something odd').kind).toBe('unknown');
+  });
+
+  it('maps the statuses the Muse server answers with', () => {
+    expect(kindFromStatus(402)).toBe('budget');
+    expect(kindFromStatus(451)).toBe('safety');
+    expect(kindFromStatus(413)).toBe('invalid-input');
+    expect(kindFromStatus(503)).toBe('network');
+  });
+});
@@ -0,0 +1,183 @@
+import { abortableDelay, isAbortError } from "../utils/abort";
+import { HarmCategory } from "./providers/types";
+
+export type MuseErrorKind =
+  | 'auth'           // Missing, invalid or unauthorised API key
+  | 'rate-limit'     // Quota exhausted or too many requests
+  | 'safety'         // The model refused or its output was blocked
+  | 'network'        // Could not reach the server or provider, or it failed upstream
+  | 'invalid-input'  // The request itself was rejected (bad image, too long, ...)
+  | 'empty-response' // The model answered with nothing usable
+  | 'budget'         // The call would go over the user's spending limit
+  | 'unknown';
+
+/** Kinds where the same request may well succeed if tried again shortly. */
+const RETRYABLE_KINDS: MuseErrorKind[] = ['rate-limit', 'network', 'empty-response'];
+
+/**
+ * Every failure the UI sees is a MuseError, so each surface can tell the user
+ * what went wrong and whether retrying makes sense.
+ */
+export class MuseError extends Error {
+  readonly status?: number;
+  /** Server-suggested wait before retrying, from Retry-After. */
+  readonly retryAfterMs?: number;
+  /** For 'safety' errors, the category that tripped the filter, when the provider says. */
+  readonly category?: HarmCategory;
+
+  constructor(
+    readonly kind: MuseErrorKind,
+    message: string,
+    options: { status?: number; retryAfterMs?: number; category?: HarmCategory; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'MuseError';
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.category = options.category;
+  }
+
+  get isRetryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+export const kindFromStatus = (status: number): MuseErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 402) return 'budget';
+  if (status === 429) return 'rate-limit';
+  if (status === 451) return 'safety';
+  if (status === 400 || status === 404 || status === 413 || status === 415 || status === 422) return 'invalid-input';
+  if (status >= 500) return 'network';
+  return 'unknown';
+};
+
+/** HTTP status the Muse server reports each kind with. */
+export const STATUS_FOR_KIND: Record<MuseErrorKind, number> = {
+  'auth': 401,
+  'rate-limit': 429,
+  'safety': 451,
+  'network': 502,
+  'invalid-input': 400,
+  'empty-response': 502,
+  'budget': 402,
+  'unknown': 500,
+};
+
+/** How the Muse server reports a failure: in the body of an error response, or as the last line of a stream. */
+export interface ErrorBody {
+  error: string;
+  kind: MuseErrorKind;
+  category?: HarmCategory;
+}
+
+export const toErrorBody = (error: MuseError): ErrorBody => ({ error: error.message, kind: error.kind, category: error.category });
+
+export const fromErrorBody = (body: ErrorBody, options: { status?: number; retryAfterMs?: number } = {}): MuseError =>
+  new MuseError(body.kind, body.error, { ...options, category: body.category });
+
+/**
+ * Reads the Muse server's error body (and Retry-After) off a failed response.
+ */
+export const errorFromResponse = async (response: Response, fallback: string): Promise<MuseError> => {
+  const detail = await response.json().catch(() => null) as Partial<ErrorBody> | null;
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  return fromErrorBody(
+    { error: detail?.error || fallback, kind: detail?.kind || kindFromStatus(response.status), category: detail?.category },
+    { status: response.status, retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined }
+  );
+};
+
+const AUTH_PATTERN = /api[ _-]?key|unauthori[sz]ed|permission[ _]denied|unauthenticated/i;
+
+const MESSAGE_PATTERNS: [RegExp, MuseErrorKind][] = [
+  [/quota|rate[ _-]?limit|resource[ _]exhausted|too many requests/i, 'rate-limit'],
+  [/safety|blocked|prohibited|recitation/i, 'safety'],
+  [/fetch failed|failed to fetch|networkerror|econn|etimedout|enotfound|socket|unavailable|deadline/i, 'network'],
+  [/invalid[ _]argument|unsupported|too large|malformed/i, 'invalid-input'],
+];
+
+/**
+ * Classifies anything thrown by a provider, fetch or the SDKs into a MuseError.
+ * Callers check for aborts first, so cancellation is never reported as a failure.
+ */
+export const toMuseError = (error: unknown): MuseError => {
+  if (error instanceof MuseError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: unknown } | null)?.status;
+
+  // Gemini reports a bad key as a plain 400, so the message wins over the status here
+  if (AUTH_PATTERN.test(message)) return new MuseError('auth', message, { cause: error });
+  if (typeof status === 'number' && kindFromStatus(status) !== 'unknown') {
+    return new MuseError(kindFromStatus(status), message, { status, cause: error });
+  }
+  const match = MESSAGE_PATTERNS.find(([pattern]) => pattern.test(message));
+  if (match) return new MuseError(match[1], message, { cause: error });
+  // fetch rejects with a bare TypeError when the connection itself fails
+  if (error instanceof TypeError) return new MuseError('network', message, { cause: error });
+  return new MuseError('unknown', message, { cause: error });
+};
+
+export const HARM_CATEGORY_LABELS: Record<HarmCategory, string> = {
+  'harassment': 'Harassment',
+  'hate-speech': 'Hate speech',
+  'sexually-explicit': 'Sexually explicit',
+  'dangerous-content': 'Dangerous content',
+};
+
+/** Title and explanation shown to the user for each kind of failure. */
+export const describeError = (error: MuseError): { title: string; detail: string } => {
+  switch (error.kind) {
+    case 'auth':
+      return { title: "Not authorised", detail: "The server's API key is missing or was rejected." };
+    case 'rate-limit':
+      return { title: "Too many requests", detail: "The muse needs a moment. Wait a little and try again." };
+    case 'safety':
+      return error.category
+        ? { title: `Blocked as ${HARM_CATEGORY_LABELS[error.category].toLowerCase()}`, detail: `The safety filter judged this ${HARM_CATEGORY_LABELS[error.category].toLowerCase()}. Rephrase it, or loosen that category in the safety settings.` }
+        : { title: "Blocked by safety filters", detail: "The model declined this request. Try a different image or wording." };
+    case 'network':
+      return { title: "Connection problem", detail: "Couldn't reach the muse. Check your connection and that the server is running." };
+    case 'invalid-input':
+      return { title: "Request rejected", detail: error.message };
+    case 'empty-response':
+      return { title: "Nothing came back", detail: "The model returned an empty response." };
+    case 'budget':
+      return { title: "Over budget", detail: `${error.message} Raise or remove the limit on the usage dashboard to continue.` };
+    default:
+      return { title: "Something went wrong", detail: error.message };
+  }
+};
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  /** Retries after the first attempt. */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Vetoes a retry, e.g. once part of a streamed response has been shown. */
+  canRetry?: () => boolean;
+}
+
+/**
+ * Runs `operation`, retrying retryable failures with exponential backoff and jitter.
+ * Only wrap operations that are safe to repeat. Rejects with a MuseError (or the abort reason).
+ */
+export const withRetry = async <T>(
+  operation: () => Promise<T>,
+  { signal, retries = 2, baseDelayMs = 800, maxDelayMs = 10_000, canRetry }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (signal?.aborted || isAbortError(error)) throw error;
+      const museError = toMuseError(error);
+      if (!museError.isRetryable || attempt >= retries || canRetry?.() === false) throw museError;
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const delay = museError.retryAfterMs ?? backoff / 2 + Math.random() * (backoff / 2);
+      await abortableDelay(Math.min(delay, maxDelayMs), signal);
+    }
+  }
+};
@@ -0,0 +1,408 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MuseError } from "./errors";
+import { analyzeScene, createCoAuthorSession, extractStoryBible, generateStoryFromImage, generateStoryVariants, writeChapter } from "./geminiService";
+import { ChatReply, ChatSendRequest, ChatStartOptions, ChatTurn, ModelProvider, StoryRequest, createProvider, setProvider } from "./providers";
+import { DEFAULT_STORY_SETTINGS } from "./promptBuilder";
+
+const IMAGE = { base64: 'aW1hZ2U=', mimeType: 'image/png', width: 1, height: 1 };
+
+// The mock provider with some of its methods replaced, made the one the services use
+const useProvider = (overrides: Partial<ModelProvider> = {}): ModelProvider => {
+  const provider = Object.assign(createProvider({
+    provider: 'mock',
+    storyModel: 'mock-story',
+    chatModel: 'mock-chat',
+    speechModel: 'mock-tts',
+    imageModel: 'mock-image',
+    liveModel: 'mock-live',
+    voice: 'mock',
+    apiKey: '',
+    baseUrl: '',
+    chatTokenBudget: 32000,
+  }), overrides);
+  setProvider(provider);
+  return provider;
+};
+
+// A story stream that yields the chunks given, then fails with `error` if there is one
+const streamOf = (chunks: string[], error?: Error) => async function* () {
+  yield* chunks;
+  if (error) throw error;
+};
+
+const networkError = () => new MuseError('network', "Connection reset.", { retryAfterMs: 1 });
+
+// Chats that answer every message with `reply`, recording the history each started from
+// (copied, as the session keeps adding to it) and the messages they were sent. The first
+// `failures` chats fail instead, as a turn with tool calls does when its second request fails.
+const recordingChats = (reply: ChatReply = { text: 'Good idea.', toolCalls: [] }, failures = 0) => {
+  const histories: ChatTurn[][] = [];
+  const requests: ChatSendRequest[] = [];
+  const startChat = vi.fn(({ history = [] }: ChatStartOptions) => {
+    histories.push([...history]);
+    const fails = histories.length <= failures;
+    return {
+      sendMessage: async (request: ChatSendRequest) => {
+        requests.push(request);
+        if (fails) throw networkError();
+        return reply;
+      },
+    };
+  });
+  return { startChat, histories, requests };
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('generateStoryFromImage', () => {
+  it('reports the text so far after every chunk', async () => {
+    useProvider({ streamStory: streamOf(['Once ', 'upon ', 'a time.']) });
+    const onChunk = vi.fn();
+
+    expect(await generateStoryFromImage(IMAGE, { onChunk })).toBe('Once upon a time.');
+    expect(onChunk.mock.calls.map(([text]) => text)).toEqual(['Once ', 'Once upon ', 'Once upon a time.']);
+  });
+
+  it('retries a stream that fails before its first chunk', async () => {
+    const streamStory = vi.fn()
+      .mockImplementationOnce(streamOf([], networkError()))
+      .mockImplementationOnce(streamOf(['Once upon a time.']));
+    useProvider({ streamStory });
+
+    expect(await generateStoryFromImage(IMAGE)).toBe('Once upon a time.');
+    expect(streamStory).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not restart a stream the user has already seen text from', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const streamStory = vi.fn(streamOf(['Once '], networkError()));
+    useProvider({ streamStory });
+
+    await expect(generateStoryFromImage(IMAGE)).rejects.toMatchObject({ kind: 'network' });
+    expect(streamStory).toHaveBeenCalledOnce();
+  });
+
+  it('treats an empty stream as a failure', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    useProvider({ streamStory: streamOf(['  ', '\n']) });
+
+    await expect(generateStoryFromImage(IMAGE)).rejects.toMatchObject({ kind: 'empty-response' });
+  });
+
+  it('passes a cancellation through without logging it', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    useProvider();
+    const controller = new AbortController();
+
+    const story = generateStoryFromImage(IMAGE, { signal: controller.signal });
+    controller.abort();
+
+    await expect(story).rejects.toMatchObject({ name: 'AbortError' });
+    expect(error).not.toHaveBeenCalled();
+  });
+});
+
+describe('generateStoryVariants', () => {
+  it('writes each take with its own seed and a hotter temperature', async () => {
+    const streamStory = vi.fn(async function* ({ variation }: StoryRequest) {
+      yield `Take ${variation?.seed}`;
+    });
+    useProvider({ streamStory });
+
+    expect(await generateStoryVariants(IMAGE, 3, { baseSeed: 10 })).toEqual(['Take 10', 'Take 11', 'Take 12']);
+    expect(streamStory.mock.calls.map(([request]) => request.variation?.temperature)).toEqual([0.7, 1.0, 1.3]);
+  });
+
+  it('gives null for takes that fail, and only fails when all do', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    useProvider({
+      streamStory: async function* ({ variation }: StoryRequest) {
+        if (variation?.seed !== 1) throw new MuseError('safety', "Blocked.");
+        yield 'The one that worked.';
+      },
+    });
+    expect(await generateStoryVariants(IMAGE, 2, { baseSeed: 0 })).toEqual([null, 'The one that worked.']);
+    await expect(generateStoryVariants(IMAGE, 2, { baseSeed: 2 })).rejects.toMatchObject({ kind: 'safety' });
+  });
+});
+
+describe('createCoAuthorSession', () => {
+  it('starts one chat, seeded with the image and the saved transcript', async () => {
+    const { startChat, histories, requests } = recordingChats();
+    useProvider({ startChat });
+    const history: ChatTurn[] = [{ role: 'user', text: 'Who is the keeper?' }, { role: 'model', text: 'An old sailor.' }];
+    const session = createCoAuthorSession(IMAGE, 'The tide came in.', history);
+
+    const reply = await session.sendMessage('What is his name?');
+    await session.sendMessage('And his dog?');
+
+    expect(reply).toMatchObject({ text: 'Good idea.', edits: [] });
+    expect(histories).toEqual([history]);
+    expect(startChat.mock.calls[0][0].image).toBe(IMAGE);
+    expect(requests.map(request => request.message)).toEqual(['What is his name?', 'And his dog?']);
+  });
+
+  it('shows the co-author the latest draft with every message', async () => {
+    const { startChat, requests } = recordingChats();
+    useProvider({ startChat });
+    const session = createCoAuthorSession(IMAGE, 'The tide came in.');
+
+    await session.sendMessage('Thoughts?');
+    session.setDraft('The tide went out.');
+    await session.sendMessage('And now?');
+
+    expect(requests[0].systemInstruction).toContain('The tide came in.');
+    expect(requests[1].systemInstruction).toContain('The tide went out.');
+    expect(requests[1].systemInstruction).not.toContain('The tide came in.');
+  });
+
+  it('starts over from another history', async () => {
+    const { startChat, histories } = recordingChats();
+    useProvider({ startChat });
+    const session = createCoAuthorSession(IMAGE);
+    const branch: ChatTurn[] = [{ role: 'user', text: 'Hello' }, { role: 'model', text: 'Hi.' }];
+
+    session.setHistory(branch);
+
+    expect(histories).toEqual([[], branch]);
+  });
+
+  it('rebuilds the chat from the finished turns when an attempt fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { startChat, histories } = recordingChats(undefined, 1);
+    useProvider({ startChat });
+    const history: ChatTurn[] = [{ role: 'user', text: 'Who is the keeper?' }, { role: 'model', text: 'An old sailor.' }];
+    const session = createCoAuthorSession(IMAGE, 'The tide came in.', history);
+
+    const reply = await session.sendMessage('What is his name?');
+
+    expect(reply.text).toBe('Good idea.');
+    expect(histories).toEqual([history, history]);
+  });
+
+  it('keeps the history as it was when every attempt fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { startChat, histories } = recordingChats(undefined, Infinity);
+    useProvider({ startChat });
+    const history: ChatTurn[] = [{ role: 'user', text: 'Hello' }, { role: 'model', text: 'Hi.' }];
+    const session = createCoAuthorSession(IMAGE, '', history);
+
+    await expect(session.sendMessage('Still there?')).rejects.toMatchObject({ kind: 'network' });
+
+    // The first chat, then one rebuild per attempt
+    expect(histories).toEqual([history, history, history, history]);
+  });
+
+  it('turns proposed edits into draft edits, with a reply when the model only called tools', async () => {
+    const { startChat } = recordingChats({
+      text: '',
+      toolCalls: [{ name: 'rename_character', args: { old_name: 'Ann', new_name: 'Bea' } }],
+    });
+    useProvider({ startChat });
+    const session = createCoAuthorSession(IMAGE, 'Ann waited.');
+
+    const reply = await session.sendMessage('Rename Ann to Bea.');
+
+    expect(reply.edits).toEqual([{ type: 'rename-character', from: 'Ann', to: 'Bea' }]);
+    expect(reply.text).toBe("I've proposed an edit to the draft.");
+  });
+});
+
+describe('createCoAuthorSession context', () => {
+  // Eight turns of about 3,750 tokens each: past 80% of the mock's 32,000 token budget
+  const longHistory = (): ChatTurn[] => Array.from({ length: 8 }, (_, i) => ({
+    role: i % 2 ? 'model' : 'user',
+    text: `Turn ${i}. ${'x'.repeat(15000)}`,
+  }));
+
+  it('folds older turns into a summary when the count nears the budget', async () => {
+    const { startChat, histories } = recordingChats();
+    useProvider({ startChat, countTokens: async () => 30000, generateStructured: async () => ({ summary: 'They met.' }) });
+    const history = longHistory();
+    const session = createCoAuthorSession(IMAGE, '', history);
+
+    const reply = await session.sendMessage('Go on.');
+
+    expect(reply.condensed).toEqual({ summary: 'They met.', turns: 4 });
+    expect(reply.usage).toEqual({ tokens: 30000, budget: 32000 });
+    expect(histories[1]).toEqual(history.slice(-4));
+  });
+
+  it('leaves the conversation alone while it fits', async () => {
+    const { startChat, histories } = recordingChats();
+    useProvider({ startChat, countTokens: async () => 1000 });
+    const session = createCoAuthorSession(IMAGE, '', longHistory());
+
+    const reply = await session.sendMessage('Go on.');
+
+    expect(reply.condensed).toBeUndefined();
+    expect(histories).toHaveLength(1);
+  });
+
+  it('still condenses on an estimate when the tokens cannot be counted', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { startChat, histories } = recordingChats();
+    useProvider({
+      startChat,
+      countTokens: async () => { throw networkError(); },
+      generateStructured: async () => ({ summary: 'They met.' }),
+    });
+    const history = longHistory();
+    const session = createCoAuthorSession(IMAGE, '', history);
+
+    const reply = await session.sendMessage('Go on.');
+
+    expect(reply.condensed).toEqual({ summary: 'They met.', turns: 4 });
+    expect(reply.usage).toBeNull();
+    expect(histories[1]).toEqual(history.slice(-4));
+  });
+});
+
+describe('writeChapter', () => {
+  const chapters = [
+    { id: 'a', image: IMAGE, text: 'The keeper lit the lamp.' },
+    { id: 'b', image: { ...IMAGE, base64: 'c2Vjb25k' }, text: '' },
+    { id: 'c', image: IMAGE, text: 'The ship ran aground.' },
+  ];
+
+  it("writes from the chapter's own image, after the chapters before it", async () => {
+    const requests: StoryRequest[] = [];
+    useProvider({
+      streamStory: async function* (request: StoryRequest) {
+        requests.push(request);
+        yield '  The storm came in.  ';
+      },
+    });
+
+    expect(await writeChapter(chapters, 1, DEFAULT_STORY_SETTINGS)).toBe('The storm came in.');
+    expect(requests[0].image.base64).toBe('c2Vjb25k');
+    expect(requests[0].prompt).toContain('The keeper lit the lamp.');
+    expect(requests[0].prompt).toContain('The ship ran aground.');
+  });
+
+  it('says which chapter failed', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    useProvider({ streamStory: streamOf([], new MuseError('invalid-input', "Bad image.")) });
+
+    await expect(writeChapter(chapters, 2, DEFAULT_STORY_SETTINGS)).rejects.toMatchObject({ kind: 'invalid-input' });
+    expect(error).toHaveBeenCalledWith('Error writing chapter 3:', expect.anything());
+  });
+});
+
+describe('analyzeScene', () => {
+  it('tidies what the model sends back', async () => {
+    useProvider({
+      generateStructured: async () => ({
+        mood: '  eerie ',
+        lighting: 42,
+        colorPalette: ['#112233', ' #112233', '', 7],
+        objects: 'lamp',
+        characters: ['a keeper', 'a keeper ', 'a dog'],
+      }),
+    });
+
+    expect(await analyzeScene(IMAGE)).toEqual({
+      mood: 'eerie',
+      lighting: '',
+      timeOfDay: '',
+      colorPalette: ['#112233'],
+      objects: [],
+      characters: ['a keeper', 'a dog'],
+      setting: '',
+      suggestedGenres: [],
+    });
+  });
+
+  it('fails on an empty analysis', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    useProvider({ generateStructured: async () => null });
+
+    await expect(analyzeScene(IMAGE)).rejects.toMatchObject({ kind: 'empty-response' });
+  });
+});
+
+describe('extractStoryBible', () => {
+  it('keeps named entries of known kinds, tidied', async () => {
+    useProvider({
+      generateStructured: async () => ({
+        entries: [
+          { kind: 'character', name: ' Ann ', details: ' The keeper. ' },
+          { kind: 'place', name: 'Pier' },
+          { kind: 'creature', name: 'Kraken', details: 'Huge.' },
+          { kind: 'fact', name: ' ', details: 'Unnamed.' },
+        ],
+      }),
+    });
+
+    expect(await extractStoryBible('Ann waited on the pier.', [], [])).toEqual([
+      { kind: 'character', name: 'Ann', details: 'The keeper.' },
+      { kind: 'place', name: 'Pier', details: '' },
+    ]);
+  });
+
+  it('fails on an empty answer', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    useProvider({ generateStructured: async () => null });
+
+    await expect(extractStoryBible('Ann waited.', [], [])).rejects.toMatchObject({ kind: 'empty-response' });
+  });
+});
+
+describe('safety settings', () => {
+  // Saved settings, as the settings panel leaves them in the browser
+  const saveSafety = (settings: object) => {
+    vi.stubGlobal('localStorage', { getItem: (key: string) => (key === 'muse.safety' ? JSON.stringify(settings) : null) });
+  };
+
+  const recordingStories = () => {
+    const requests: StoryRequest[] = [];
+    useProvider({
+      streamStory: async function* (request: StoryRequest) {
+        requests.push(request);
+        yield 'Once upon a time.';
+      },
+    });
+    return requests;
+  };
+
+  it('sends the thresholds the user chose', async () => {
+    saveSafety({ thresholds: { harassment: 'medium' } });
+    const requests = recordingStories();
+
+    await generateStoryFromImage(IMAGE);
+
+    expect(requests[0].safety).toEqual({ harassment: 'medium' });
+    expect(requests[0].prompt).not.toContain('children aged');
+  });
+
+  it('blocks every category strictly in kid-safe mode and writes for the age range', async () => {
+    saveSafety({ thresholds: { harassment: 'none' }, kidSafe: true, ageRange: '4–6' });
+    const requests = recordingStories();
+
+    await generateStoryFromImage(IMAGE);
+
+    expect(requests[0].safety).toEqual({ 'harassment': 'low', 'hate-speech': 'low', 'sexually-explicit': 'low', 'dangerous-content': 'low' });
+    expect(requests[0].prompt).toContain('children aged 4–6');
+  });
+
+  it('steers away from what was blocked when asked to rephrase', async () => {
+    const requests = recordingStories();
+    const blocked = new MuseError('safety', "Blocked.", { category: 'dangerous-content' });
+
+    await generateStoryFromImage(IMAGE, { blocked });
+
+    expect(requests[0].prompt).toContain('blocked by a safety filter as dangerous content');
+  });
+
+  it('does not retry a blocked story', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const streamStory = vi.fn(streamOf([], new MuseError('safety', "Blocked.", { category: 'harassment' })));
+    useProvider({ streamStory });
+
+    await expect(generateStoryFromImage(IMAGE)).rejects.toMatchObject({ kind: 'safety', category: 'harassment' });
+    expect(streamStory).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,126 +1,684 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { decodeBase64, decodeAudioData } from "../utils/audioUtils";
+import { isAbortError } from "../utils/abort";
+import { HARM_CATEGORY_LABELS, MuseError, toMuseError, withRetry } from "./errors";
+import { DraftEdit, DraftEditOperation, ImagePayload, PromptTemplate, SceneAnalysis, StoryBibleEntry, StoryChapter, StorySettings } from "../types";
+import { describeDraftEdit } from "../utils/draftEdits";
+import { meterCall } from "./usage";
+import { loadSafetySettings } from "./preferences";
+import {
+  ChatTurn,
+  CountTokensRequest,
+  HarmCategory,
+  InlineImage,
+  JsonSchema,
+  LiveSession,
+  LiveSessionOptions,
+  SafetyThresholds,
+  ToolCall,
+  ToolDeclaration,
+  Variation,
+  getProvider,
+} from "./providers";
+import { estimateTokens } from "./providers/tokens";
+import {
+  BUILT_IN_TEMPLATES,
+  DEFAULT_STORY_SETTINGS,
+  SelectionEdit,
+  buildChapterPrompt,
+  buildContinuePrompt,
+  buildConversationSummaryPrompt,
+  buildIllustrationPrompt,
+  buildKidSafeNote,
+  buildRephraseNote,
+  buildSelectionPrompt,
+  buildStoryBiblePrompt,
+  buildStoryPrompt,
+  formatStoryBible,
+  formatTranscript,
+  STORY_BIBLE_KINDS,
+} from "./promptBuilder";
 
-const apiKey = process.env.API_KEY || '';
-const ai = new GoogleGenAI({ apiKey });
+const CO_AUTHOR_INSTRUCTION = "You are a helpful and creative writing assistant (Co-author). You help the user develop their story, offering ideas, answering questions about the plot, characters, or the world generated from the image. Keep answers concise but inspiring.";
+
+const VOICE_INSTRUCTION = "You are now talking with the user out loud. Keep each reply to a few spoken sentences, with no lists, headings or formatting, and let them interrupt you. You can't propose edits to the draft in a voice conversation; suggest changes in words instead.";
+
+const EDITING_INSTRUCTION = "When the user asks you to change the draft, call the edit tools rather than pasting rewritten text into your reply. Each call is shown to the user as a proposal they can accept or reject, so briefly say what you proposed and why. Paragraphs are counted from 1 and separated by blank lines.";
+
+// How many past proposals the co-author is reminded of
+const MAX_EDIT_NOTES = 10;
+
+// Past this share of the token budget, older chat turns are folded into the summary
+const CONDENSE_AT = 0.8;
+// Turns always sent word for word: the last two exchanges
+const KEEP_RECENT_TURNS = 4;
+// Condensing waits until it frees at least this many turns, so it doesn't run on every message
+const MIN_CONDENSED_TURNS = 4;
+
+const SUMMARY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { summary: { type: 'string', description: 'The running summary of the conversation.' } },
+  required: ['summary'],
+};
+
+/** Edit operations the co-author can propose; see `toDraftEdit` for how calls are read. */
+const CO_AUTHOR_TOOLS: ToolDeclaration[] = [
+  {
+    name: 'insert_paragraph',
+    description: 'Insert a new paragraph into the draft.',
+    parameters: {
+      type: 'object',
+      properties: {
+        after_paragraph: { type: 'integer', description: 'Number of the paragraph to insert after; 0 inserts before the first.' },
+        text: { type: 'string', description: 'The new paragraph.' },
+      },
+      required: ['after_paragraph', 'text'],
+    },
+  },
+  {
+    name: 'replace_text',
+    description: 'Replace a span of the draft with new text. Use for rewording a sentence or a passage.',
+    parameters: {
+      type: 'object',
+      properties: {
+        find: { type: 'string', description: 'Exact text currently in the draft, long enough to be unique.' },
+        replacement: { type: 'string', description: 'Text to put in its place.' },
+      },
+      required: ['find', 'replacement'],
+    },
+  },
+  {
+    name: 'rename_character',
+    description: 'Rename a character everywhere in the draft.',
+    parameters: {
+      type: 'object',
+      properties: {
+        old_name: { type: 'string', description: 'The name as it appears in the draft.' },
+        new_name: { type: 'string', description: 'The new name.' },
+      },
+      required: ['old_name', 'new_name'],
+    },
+  },
+  {
+    name: 'append_scene',
+    description: 'Add a new scene to the end of the draft.',
+    parameters: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'The scene, as one or more paragraphs.' },
+      },
+      required: ['text'],
+    },
+  },
+];
+
+// Reads a tool call back into an edit, dropping calls with missing or empty arguments
+const toDraftEdit = ({ name, args }: ToolCall): DraftEditOperation | null => {
+  const text = (key: string): string => (typeof args[key] === 'string' ? args[key] as string : '');
+  switch (name) {
+    case 'insert_paragraph':
+      return text('text').trim() ? { type: 'insert-paragraph', afterParagraph: Number(args.after_paragraph) || 0, text: text('text') } : null;
+    case 'replace_text':
+      return text('find') ? { type: 'replace-text', find: text('find'), replacement: text('replacement') } : null;
+    case 'rename_character':
+      return text('old_name').trim() && text('new_name').trim()
+        ? { type: 'rename-character', from: text('old_name').trim(), to: text('new_name').trim() }
+        : null;
+    case 'append_scene':
+      return text('text').trim() ? { type: 'append-scene', text: text('text') } : null;
+    default:
+      return null;
+  }
+};
+
+const ANALYSIS_PROMPT = "Analyze this image as a story setting. Describe the mood, the lighting, the time of day, its dominant colours, the notable objects and any characters, the kind of place it is, and the story genres it suggests. Keep each item short (a few words).";
+
+const STORY_BIBLE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    entries: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: STORY_BIBLE_KINDS.map(k => k.value) },
+          name: { type: 'string', description: 'Short name, e.g. a character name or a place name.' },
+          details: { type: 'string', description: 'One or two sentences of what the story has established.' },
+        },
+        required: ['kind', 'name', 'details'],
+      },
+    },
+  },
+  required: ['entries'],
+};
+
+const stringList = (description: string): JsonSchema => ({ type: 'array', description, items: { type: 'string' } });
+
+const SCENE_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    mood: { type: 'string', description: 'Overall emotional tone of the scene.' },
+    lighting: { type: 'string', description: 'Quality and direction of the light.' },
+    timeOfDay: { type: 'string', description: 'Apparent time of day.' },
+    colorPalette: stringList('3 to 6 dominant colours as hex codes, e.g. #1a2b3c.'),
+    objects: stringList('Notable objects in the scene.'),
+    characters: stringList('People or creatures in the scene; empty if none.'),
+    setting: { type: 'string', description: 'The kind of place this is.' },
+    suggestedGenres: stringList('Story genres the scene suggests.'),
+  },
+  required: ['mood', 'lighting', 'timeOfDay', 'colorPalette', 'objects', 'characters', 'setting', 'suggestedGenres'],
+};
+
+// Safety settings are read on every call, like the usage budget, so a change applies from the next request.
+// Kid-safe mode blocks anything with even a low chance of harm, whatever the thresholds say.
+const safetyThresholds = (): SafetyThresholds => {
+  const { thresholds, kidSafe } = loadSafetySettings();
+  if (!kidSafe) return thresholds;
+  return Object.fromEntries((Object.keys(HARM_CATEGORY_LABELS) as HarmCategory[]).map(category => [category, 'low']));
+};
+
+// Appended to everything that writes or draws: the kid-safe audience, and after a block, a steer away from it
+const withSafetyNotes = (prompt: string, blocked?: MuseError): string => {
+  const { kidSafe, ageRange } = loadSafetySettings();
+  const notes = [kidSafe && buildKidSafeNote(ageRange), blocked && buildRephraseNote(blocked.category)].filter(Boolean);
+  return notes.length ? `${prompt}\n\n${notes.join('\n\n')}` : prompt;
+};
+
+// Accumulates a streamed response, reporting the text so far after every chunk.
+// Failures are retried only until the first chunk arrives, so the user never sees text restart.
+const streamText = async (
+  image: InlineImage,
+  prompt: string,
+  { variation, blocked, signal, onChunk }: { variation?: Variation; blocked?: MuseError; signal?: AbortSignal; onChunk?: (textSoFar: string) => void }
+): Promise<string> => {
+  let text = '';
+  const request = { image, prompt: withSafetyNotes(prompt, blocked), variation, safety: safetyThresholds(), signal, onUsage: meterCall('story') };
+  await withRetry(async () => {
+    for await (const chunk of getProvider().streamStory(request)) {
+      text += chunk;
+      onChunk?.(text);
+    }
+  }, { signal, canRetry: () => !text });
+
+  if (!text.trim()) throw new MuseError('empty-response', "The model returned no text.");
+  return text;
+};
+
+// Logs and classifies a failure on its way to the UI; cancellations pass through quietly
+const reportError = (label: string, error: unknown): unknown => {
+  if (isAbortError(error)) return error;
+  const museError = toMuseError(error);
+  console.error(`${label}:`, museError);
+  return museError;
+};
+
+/**
+ * Name of the model writing stories, for attribution in the UI.
+ */
+export const getStoryModelName = (): string => getProvider().storyModel;
+
+export interface StoryStreamOptions {
+  signal?: AbortSignal;
+  settings?: StorySettings;
+  template?: PromptTemplate;
+  /** Details from the scene analysis the story should feature prominently. */
+  pinnedDetails?: string[];
+  /** Established characters, places and facts the story must stay consistent with. */
+  bible?: StoryBibleEntry[];
+  variation?: Variation;
+  /** The safety block a previous attempt hit; this attempt is asked to steer clear of it. */
+  blocked?: MuseError;
+  /** Called with the full text received so far every time a new chunk arrives. */
+  onChunk?: (textSoFar: string) => void;
+}
 
 /**
- * Generates a story opening based on an image.
- * Uses gemini-3-pro-preview for image understanding and creative writing.
+ * Generates a story opening based on an image, streaming it as it is written.
+ * Uses the configured provider's story model for image understanding and creative writing.
  */
 export const generateStoryFromImage = async (
-  base64Image: string,
-  mimeType: string
+  image: ImagePayload,
+  {
+    signal,
+    onChunk,
+    settings = DEFAULT_STORY_SETTINGS,
+    template = BUILT_IN_TEMPLATES[0],
+    pinnedDetails = [],
+    bible = [],
+    variation,
+    blocked,
+  }: StoryStreamOptions = {}
 ): Promise<string> => {
   try {
-    // We clean the base64 string if it contains the header
-    const cleanBase64 = base64Image.replace(/^data:image\/\w+;base64,/, "");
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: cleanBase64,
-            },
-          },
-          {
-            text: "Analyze the mood, lighting, and details of this image. Then, act as a master storyteller. Write a compelling, atmospheric opening paragraph (approx 150 words) for a story set in this scene. Focus on sensory details and establishing the tone."
-          },
-        ],
-      },
+    return await streamText(image, buildStoryPrompt(settings, template, pinnedDetails, bible), {
+      variation,
+      blocked,
+      signal,
+      onChunk,
     });
+  } catch (error) {
+    throw reportError("Error generating story", error);
+  }
+};
+
+export interface DraftEditOptions {
+  signal?: AbortSignal;
+  bible?: StoryBibleEntry[];
+  /** The safety block a previous attempt hit; this attempt is asked to steer clear of it. */
+  blocked?: MuseError;
+  /** Called with the new text received so far (not including the existing draft). */
+  onChunk?: (textSoFar: string) => void;
+}
 
-    return response.text || "I couldn't generate a story at this time.";
+/**
+ * Writes the next scene of the story. Resolves with the new text only.
+ */
+export const continueStory = async (
+  image: ImagePayload,
+  draft: string,
+  settings: StorySettings,
+  { signal, onChunk, bible, blocked }: DraftEditOptions = {}
+): Promise<string> => {
+  try {
+    return (await streamText(image, buildContinuePrompt(settings, draft, bible), { signal, onChunk, blocked })).trim();
+  } catch (error) {
+    throw reportError("Error continuing story", error);
+  }
+};
+
+/**
+ * Rewrites, expands or condenses a passage of the draft. Resolves with the replacement passage.
+ */
+export const editSelection = async (
+  image: ImagePayload,
+  draft: string,
+  selection: string,
+  mode: SelectionEdit,
+  { signal, onChunk, bible, blocked }: DraftEditOptions = {}
+): Promise<string> => {
+  try {
+    return (await streamText(image, buildSelectionPrompt(mode, draft, selection, bible), { signal, onChunk, blocked })).trim();
+  } catch (error) {
+    throw reportError("Error editing selection", error);
+  }
+};
+
+/**
+ * Writes (or rewrites) one storyboard chapter from its image, following on from the
+ * chapters before it and leading into the next one if it has been written.
+ */
+export const writeChapter = async (
+  chapters: StoryChapter[],
+  index: number,
+  settings: StorySettings,
+  { signal, onChunk, bible, blocked }: DraftEditOptions = {}
+): Promise<string> => {
+  const previous = chapters.slice(0, index).map(c => c.text).filter(text => text.trim());
+  const prompt = buildChapterPrompt(settings, index, chapters.length, previous, chapters[index + 1]?.text, bible);
+  try {
+    return (await streamText(chapters[index].image, prompt, { signal, onChunk, blocked })).trim();
   } catch (error) {
-    console.error("Error generating story:", error);
-    throw error;
+    throw reportError(`Error writing chapter ${index + 1}`, error);
   }
 };
 
+export interface IllustrationOptions {
+  signal?: AbortSignal;
+  bible?: StoryBibleEntry[];
+}
+
 /**
- * Generates speech from text.
- * Uses gemini-2.5-flash-preview-tts.
+ * Draws one storybook page for a scene of the draft, using the story's image as the
+ * reference for art style and characters. Page numbers are counted from 0.
  */
-export const generateSpeech = async (text: string): Promise<AudioBuffer | null> => {
+export const illustrateScene = async (
+  reference: ImagePayload,
+  sceneText: string,
+  index: number,
+  total: number,
+  { signal, bible }: IllustrationOptions = {}
+): Promise<ImagePayload> => {
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-            voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: 'Puck' }, // Expressive voice
-            },
+    const image = await withRetry(() => getProvider().generateImage({
+      prompt: withSafetyNotes(buildIllustrationPrompt(sceneText, index, total, bible)),
+      reference,
+      safety: safetyThresholds(),
+      signal,
+      onUsage: meterCall('illustration'),
+    }), { signal });
+    if (!image) throw new MuseError('empty-response', "The model returned no illustration.");
+    return { ...image, width: 0, height: 0 };
+  } catch (error) {
+    throw reportError(`Error illustrating page ${index + 1}`, error);
+  }
+};
+
+// Each take samples a little hotter than the last
+const VARIANT_TEMPERATURES = [0.7, 1.0, 1.3, 1.6];
+
+export interface VariantStreamOptions extends Omit<StoryStreamOptions, 'onChunk' | 'variation'> {
+  /** Seed of the first take; the rest count up from it. Random unless given. */
+  baseSeed?: number;
+  onVariantChunk?: (index: number, textSoFar: string) => void;
+}
+
+/**
+ * Generates several takes on the same story in parallel, each with its own temperature and seed.
+ * Takes that fail come back as null; the call only rejects if every take fails.
+ */
+export const generateStoryVariants = async (
+  image: ImagePayload,
+  count: number,
+  { baseSeed = Math.floor(Math.random() * 1_000_000), onVariantChunk, ...options }: VariantStreamOptions = {}
+): Promise<(string | null)[]> => {
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, (_, index) =>
+      generateStoryFromImage(image, {
+        ...options,
+        variation: {
+          temperature: VARIANT_TEMPERATURES[index % VARIANT_TEMPERATURES.length],
+          seed: baseSeed + index,
         },
-      },
-    });
+        onChunk: (textSoFar) => onVariantChunk?.(index, textSoFar),
+      })
+    )
+  );
 
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    
-    if (!base64Audio) {
-      console.warn("No audio data received");
-      return null;
-    }
+  options.signal?.throwIfAborted();
+  if (results.every(r => r.status === 'rejected')) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+  return results.map(r => (r.status === 'fulfilled' ? r.value : null));
+};
 
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-      sampleRate: 24000
-    });
+/**
+ * Produces a structured scene analysis for the image using a JSON response schema.
+ */
+export const analyzeScene = async (
+  image: ImagePayload,
+  signal?: AbortSignal
+): Promise<SceneAnalysis> => {
+  try {
+    const raw = await withRetry(() => getProvider().generateStructured({
+      image,
+      prompt: ANALYSIS_PROMPT,
+      schema: SCENE_ANALYSIS_SCHEMA,
+      safety: safetyThresholds(),
+      signal,
+      onUsage: meterCall('analysis'),
+    }), { signal }) as Partial<SceneAnalysis> | null;
+    if (!raw) throw new MuseError('empty-response', "The scene analysis came back empty.");
 
-    const audioBytes = decodeBase64(base64Audio);
-    return await decodeAudioData(audioBytes, audioContext);
+    // Models occasionally drop fields or repeat items; normalise before the UI sees it
+    const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+    const list = (value: unknown) =>
+      Array.isArray(value) ? [...new Set(value.map(text).filter(Boolean))] : [];
 
+    return {
+      mood: text(raw?.mood),
+      lighting: text(raw?.lighting),
+      timeOfDay: text(raw?.timeOfDay),
+      colorPalette: list(raw?.colorPalette),
+      objects: list(raw?.objects),
+      characters: list(raw?.characters),
+      setting: text(raw?.setting),
+      suggestedGenres: list(raw?.suggestedGenres),
+    };
   } catch (error) {
-    console.error("Error generating speech:", error);
-    throw error;
+    throw reportError("Error analyzing scene", error);
   }
 };
 
+/** A story bible entry as the model reports it, before it is merged into the bible. */
+export type ExtractedBibleEntry = Pick<StoryBibleEntry, 'kind' | 'name' | 'details'>;
+
 /**
- * Sends a chat message to the bot.
- * Uses gemini-3-pro-preview.
+ * Pulls the characters, places, objects and facts the story has established out of
+ * the draft and the co-author chat, using the existing bible as a starting point.
  */
-export const sendChatMessage = async (
-  history: { role: 'user' | 'model'; parts: { text: string }[] }[],
-  newMessage: string,
-  imageContext?: { base64: string, mimeType: string } | null
-): Promise<string> => {
+export const extractStoryBible = async (
+  draft: string,
+  transcript: ChatTurn[],
+  bible: StoryBibleEntry[],
+  signal?: AbortSignal
+): Promise<ExtractedBibleEntry[]> => {
   try {
-    // If we have an image context, we should ideally include it in the chat history or prompt.
-    // However, the cleanest way for a persistent chat is to use the chat API.
-    // If it's the *very first* message, we might include the image.
-    // For simplicity in this specialized hook, we will just send text, 
-    // assuming the 'System Instruction' or initial context was set elsewhere,
-    // or we just prepend context about the story.
-    
-    // Construct the full history for the stateless generateContent or use Chat object.
-    // Using Chat object is better for multi-turn.
-    
-    const chat = ai.chats.create({
-      model: 'gemini-3-pro-preview',
-      history: history,
-      config: {
-        systemInstruction: "You are a helpful and creative writing assistant (Co-author). You help the user develop their story, offering ideas, answering questions about the plot, characters, or the world generated from the image. Keep answers concise but inspiring."
-      }
-    });
+    const raw = await withRetry(() => getProvider().generateStructured({
+      prompt: buildStoryBiblePrompt(draft, formatTranscript(transcript), bible),
+      schema: STORY_BIBLE_SCHEMA,
+      safety: safetyThresholds(),
+      signal,
+      onUsage: meterCall('analysis'),
+    }), { signal }) as { entries?: Partial<ExtractedBibleEntry>[] } | null;
+    if (!raw) throw new MuseError('empty-response', "The story bible came back empty.");
 
-    let messageToSend: any = newMessage;
-    
-    // Note: In a real app, passing the image again in every turn isn't ideal/necessary if established in history.
-    // For this implementation, we assume the initial 'story generation' set the stage, 
-    // but the Chat API history here is separate.
-    // To make the chat "aware" of the image, we can pass it once if history is empty, 
-    // but here we are just doing text-based follow up for simplicity unless requested.
-    // The user instruction says "AI powered chatbot... ask questions". 
-    
-    const result = await chat.sendMessage({ message: messageToSend });
-    return result.text;
+    const kinds = STORY_BIBLE_KINDS.map(k => k.value);
+    return (Array.isArray(raw.entries) ? raw.entries : []).flatMap(entry => {
+      const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+      if (!name || !kinds.includes(entry.kind!)) return [];
+      return [{ kind: entry.kind!, name, details: typeof entry.details === 'string' ? entry.details.trim() : '' }];
+    });
+  } catch (error) {
+    throw reportError("Error updating story bible", error);
+  }
+};
 
+/**
+ * Generates speech from text as raw 24kHz mono Int16 PCM, or null if the model returned no audio.
+ * Uses the configured provider's speech model. No Web Audio involved, so it also runs in Node;
+ * play it with `decodeAudioData` or save it with `encodeWav`.
+ */
+export const generateSpeech = async (text: string, signal?: AbortSignal): Promise<Uint8Array | null> => {
+  try {
+    const audioBytes = await withRetry(() => getProvider().generateSpeech({ text, signal, onUsage: meterCall('speech') }), { signal });
+    if (!audioBytes) console.warn("No audio data received");
+    return audioBytes;
   } catch (error) {
-    console.error("Chat error:", error);
-    return "I'm having trouble connecting to the muse right now.";
+    throw reportError("Error generating speech", error);
   }
 };
+
+export interface ChatContextUsage {
+  tokens: number; // What the last turn sent: instruction, image, history and message
+  budget: number;
+}
+
+export interface CoAuthorReply {
+  text: string;
+  edits: DraftEditOperation[]; // Proposed changes to the draft, for the user to review
+  usage: ChatContextUsage | null; // Null when the tokens couldn't be counted
+  /** Set when older turns were folded into the summary before this reply. */
+  condensed?: { summary: string; turns: number }; // `turns` from the start of the history
+}
+
+export interface CoAuthorSession {
+  /** Updates the draft the co-author sees; takes effect from the next message. */
+  setDraft(draft: string): void;
+  /** Tells the co-author which of its proposed edits were accepted or rejected. */
+  setEdits(edits: DraftEdit[]): void;
+  setBible(bible: StoryBibleEntry[]): void;
+  /**
+   * Replaces the conversation so far, e.g. to continue from another branch.
+   * `summary` stands in for any turns before `history` that were condensed.
+   */
+  setHistory(history: ChatTurn[], summary?: string): void;
+  sendMessage(message: string, signal?: AbortSignal): Promise<CoAuthorReply>;
+  /**
+   * Starts a spoken conversation that carries on from the history, seeing the same image,
+   * draft and bible. Its turns aren't added to the history; pass them to `setHistory`.
+   */
+  startVoice(options: VoiceSessionOptions): Promise<LiveSession>;
+}
+
+export type VoiceSessionOptions = Pick<LiveSessionOptions, 'onEvent' | 'onClose' | 'signal'>;
+
+interface CoAuthorContext {
+  draft: string;
+  edits: DraftEdit[];
+  bible: StoryBibleEntry[];
+  summary: string;
+}
+
+// Everything pinned around the conversation lives here, so it never scrolls out of view
+const buildCoAuthorInstruction = ({ draft, edits, bible, summary }: CoAuthorContext, allowEdits: boolean): string => {
+  const sections = [CO_AUTHOR_INSTRUCTION];
+  if (allowEdits) sections.push(EDITING_INSTRUCTION);
+  const { kidSafe, ageRange } = loadSafetySettings();
+  if (kidSafe) sections.push(buildKidSafeNote(ageRange));
+  const bibleBlock = formatStoryBible(bible);
+  if (bibleBlock) sections.push(bibleBlock);
+
+  const notes = edits.slice(-MAX_EDIT_NOTES).map(edit =>
+    `- ${describeDraftEdit(edit.operation)}: ${edit.status === 'pending' ? 'not decided yet' : edit.status}`
+  );
+  if (notes.length) {
+    sections.push(`Edits you proposed earlier and what the user decided (accepted ones are already in the draft):\n${notes.join('\n')}`);
+  }
+
+  if (summary.trim()) {
+    sections.push(`The start of this conversation has been condensed. Summary of what was discussed:\n\n"""\n${summary}\n"""`);
+  }
+
+  if (draft.trim()) {
+    sections.push(`You can see the image the story was written from, so you can answer questions about visual details the draft never mentions. The current draft of the story is below; it may have changed since earlier turns, so always treat this version as the latest.
+
+"""
+${draft}
+"""`);
+  }
+  return sections.join('\n\n');
+};
+
+const summarizeConversation = async (previousSummary: string, turns: ChatTurn[], signal?: AbortSignal): Promise<string> => {
+  const raw = await withRetry(() => getProvider().generateStructured({
+    prompt: buildConversationSummaryPrompt(previousSummary, turns),
+    schema: SUMMARY_SCHEMA,
+    safety: safetyThresholds(),
+    signal,
+    onUsage: meterCall('analysis'),
+  }), { signal }) as { summary?: unknown } | null;
+  const summary = typeof raw?.summary === 'string' ? raw.summary.trim() : '';
+  if (!summary) throw new MuseError('empty-response', "The conversation summary came back empty.");
+  return summary;
+};
+
+/**
+ * Starts a co-author chat that lives for the life of a story.
+ * The session is seeded once with the source image (and any saved transcript)
+ * and always sees the latest draft. With `allowEdits` it can also propose edits to it.
+ * When the conversation nears the provider's token budget, older turns are summarized.
+ */
+export const createCoAuthorSession = (
+  image: ImagePayload,
+  draft: string = '',
+  history: ChatTurn[] = [],
+  { allowEdits = true }: { allowEdits?: boolean } = {}
+): CoAuthorSession => {
+  const provider = getProvider();
+  const context: CoAuthorContext = { draft, edits: [], bible: [], summary: '' };
+  let turns: ChatTurn[] = [...history];
+  let chat = provider.startChat({ image, history: turns });
+
+  const restart = (nextTurns: ChatTurn[]) => {
+    turns = nextTurns;
+    chat = provider.startChat({ image, history: turns });
+  };
+
+  const countRequest = (message: string): CountTokensRequest => ({
+    image,
+    systemInstruction: buildCoAuthorInstruction(context, allowEdits),
+    turns: [...turns, { role: 'user', text: message }],
+  });
+
+  // Counting is advisory: if it fails the turn still goes ahead, just unmeasured
+  const measure = (message: string, signal?: AbortSignal): Promise<number | null> =>
+    provider.countTokens({ ...countRequest(message), signal }).catch(error => {
+      if (isAbortError(error)) throw error;
+      reportError("Couldn't count chat tokens", error);
+      return null;
+    });
+
+  return {
+    setDraft: (nextDraft) => {
+      context.draft = nextDraft;
+    },
+    setEdits: (nextEdits) => {
+      context.edits = nextEdits;
+    },
+    setBible: (nextBible) => {
+      context.bible = nextBible;
+    },
+    setHistory: (nextHistory, summary = '') => {
+      context.summary = summary;
+      restart([...nextHistory]);
+    },
+    sendMessage: async (message, signal) => {
+      try {
+        let tokens = await measure(message, signal);
+        let condensed: CoAuthorReply['condensed'];
+        const budget = provider.chatTokenBudget;
+
+        // Without a count, a local estimate still keeps the conversation inside the budget
+        const size = tokens ?? estimateTokens(countRequest(message));
+        if (size > budget * CONDENSE_AT && turns.length >= KEEP_RECENT_TURNS + MIN_CONDENSED_TURNS) {
+          const older = turns.slice(0, -KEEP_RECENT_TURNS);
+          const summary = await summarizeConversation(context.summary, older, signal).catch(error => {
+            if (isAbortError(error)) throw error;
+            reportError("Couldn't condense the conversation", error);
+            return null;
+          });
+          if (summary) {
+            context.summary = summary;
+            restart(turns.slice(-KEEP_RECENT_TURNS));
+            condensed = { summary, turns: older.length };
+            tokens = await measure(message, signal);
+          }
+        }
+
+        // A turn with tool calls is two requests, and the provider's chat may keep the first
+        // when the second fails, leaving a call with no answer; an empty reply is kept too.
+        // So a failed attempt rebuilds the chat from the turns that went through.
+        const reply = await withRetry(async () => {
+          try {
+            const result = await chat.sendMessage({
+              message,
+              systemInstruction: buildCoAuthorInstruction(context, allowEdits),
+              tools: allowEdits ? CO_AUTHOR_TOOLS : undefined,
+              safety: safetyThresholds(),
+              signal,
+              onUsage: meterCall('chat'),
+            });
+            const edits = result.toolCalls.map(toDraftEdit).filter((edit): edit is DraftEditOperation => edit !== null);
+            if (!result.text.trim() && !edits.length) throw new MuseError('empty-response', "The co-author returned an empty reply.");
+            return {
+              text: result.text.trim() || `I've proposed ${edits.length === 1 ? 'an edit' : `${edits.length} edits`} to the draft.`,
+              edits,
+            };
+          } catch (error) {
+            restart(turns);
+            throw error;
+          }
+        }, { signal });
+
+        turns.push({ role: 'user', text: message }, { role: 'model', text: reply.text });
+        return { ...reply, usage: tokens === null ? null : { tokens, budget }, condensed };
+      } catch (error) {
+        throw reportError("Chat error", error);
+      }
+    },
+    startVoice: async ({ onEvent, onClose, signal }) => {
+      try {
+        return await provider.connectLive({
+          systemInstruction: `${buildCoAuthorInstruction(context, false)}\n\n${VOICE_INSTRUCTION}`,
+          image,
+          history: turns,
+          safety: safetyThresholds(),
+          onEvent,
+          onClose: (error) => onClose(error && toMuseError(reportError("Voice conversation ended", error))),
+          onUsage: meterCall('voice'),
+          signal,
+        });
+      } catch (error) {
+        throw reportError("Error starting voice conversation", error);
+      }
+    },
+  };
+};
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MAX_INPUT_BYTES, fromDataUrl, preprocessImage, toDataUrl } from "./imagePreprocessor";
+
+class FakeBitmap {
+  closed = false;
+  constructor(readonly width: number, readonly height: number) {}
+  close() {
+    this.closed = true;
+  }
+}
+
+// Just enough of the canvas, bitmap and FileReader APIs to see the size and format that come out
+const fakeBrowser = (width: number, height: number, writable: string[] = ['image/jpeg', 'image/webp']) => {
+  const bitmap = new FakeBitmap(width, height);
+  const canvas = {
+    width: 0,
+    height: 0,
+    getContext: () => ({ fillRect: () => {}, drawImage: () => {} }),
+    toBlob: (callback: (blob: Blob) => void, format: string) =>
+      callback(new Blob(['pixels'], { type: writable.includes(format) ? format : 'image/png' })),
+  };
+  vi.stubGlobal('ImageBitmap', FakeBitmap);
+  vi.stubGlobal('createImageBitmap', vi.fn(async () => bitmap));
+  vi.stubGlobal('document', { createElement: () => canvas });
+  vi.stubGlobal('FileReader', class {
+    result: string | null = null;
+    onloadend: (() => void) | null = null;
+    readAsDataURL(blob: Blob) {
+      this.result = `data:${blob.type};base64,cGl4ZWxz`;
+      this.onloadend?.();
+    }
+  });
+  return { bitmap, canvas };
+};
+
+const photo = (type = 'image/jpeg', size = 10) => new Blob([new Uint8Array(size)], { type });
+
+describe('preprocessImage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('scales the longest side down to the maximum and re-encodes', async () => {
+    const { bitmap } = fakeBrowser(3000, 1500);
+    const image = await preprocessImage(photo(), { maxDimension: 1000, format: 'image/webp', quality: 0.8 });
+    expect(image).toEqual({ base64: 'cGl4ZWxz', mimeType: 'image/webp', width: 1000, height: 500 });
+    expect(bitmap.closed).toBe(true);
+  });
+
+  it('never scales small images up', async () => {
+    fakeBrowser(400, 300);
+    const image = await preprocessImage(photo(), { maxDimension: 1000, format: 'image/jpeg', quality: 0.8 });
+    expect([image.width, image.height]).toEqual([400, 300]);
+  });
+
+  it('falls back to JPEG when the browser cannot write the chosen format', async () => {
+    fakeBrowser(400, 300, ['image/jpeg']);
+    const image = await preprocessImage(photo(), { maxDimension: 1000, format: 'image/webp', quality: 0.8 });
+    expect(image.mimeType).toBe('image/jpeg');
+  });
+
+  it('refuses files that are not supported images', async () => {
+    await expect(preprocessImage(photo('application/pdf'))).rejects.toMatchObject({ kind: 'invalid-input' });
+    await expect(preprocessImage(photo('image/heic'))).rejects.toThrow("HEIC images aren't supported");
+  });
+
+  it('refuses files over the size limit before decoding them', async () => {
+    fakeBrowser(10, 10);
+    await expect(preprocessImage(photo('image/png', MAX_INPUT_BYTES + 1))).rejects.toMatchObject({ kind: 'invalid-input' });
+    expect(createImageBitmap).not.toHaveBeenCalled();
+  });
+
+  it('refuses bitmaps with too many pixels, and still frees them', async () => {
+    const { bitmap } = fakeBrowser(20_000, 20_000);
+    await expect(preprocessImage(photo())).rejects.toThrow('too large to process');
+    expect(bitmap.closed).toBe(true);
+  });
+
+  it('reports damaged files as invalid input', async () => {
+    fakeBrowser(10, 10);
+    vi.mocked(createImageBitmap).mockRejectedValue(new DOMException('bad data', 'InvalidStateError'));
+    await expect(preprocessImage(photo())).rejects.toMatchObject({ kind: 'invalid-input' });
+  });
+});
+
+describe('data URLs', () => {
+  it('round-trips a payload', () => {
+    const image = { base64: 'aW1hZ2U=', mimeType: 'image/png', width: 2, height: 3 };
+    expect(fromDataUrl(toDataUrl(image), 2, 3)).toEqual(image);
+  });
+
+  it('keeps mime types with parameters and symbols', () => {
+    expect(fromDataUrl('data:image/svg+xml;charset=utf-8;base64,PHN2Zz4=')).toMatchObject({ mimeType: 'image/svg+xml', base64: 'PHN2Zz4=' });
+  });
+
+  it('treats bare base64 as JPEG', () => {
+    expect(fromDataUrl('aW1hZ2U=')).toMatchObject({ mimeType: 'image/jpeg', base64: 'aW1hZ2U=' });
+  });
+});
@@ -0,0 +1,144 @@
+import { ImageFormat, ImagePayload, ImagePreprocessOptions } from "../types";
+import { MuseError } from "./errors";
+
+export const DEFAULT_IMAGE_OPTIONS: ImagePreprocessOptions = {
+  maxDimension: 1536,
+  format: 'image/jpeg',
+  quality: 0.85,
+};
+
+export const MAX_DIMENSION_CHOICES = [768, 1024, 1536, 2048];
+
+export const IMAGE_FORMATS: { value: ImageFormat; label: string }[] = [
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/webp', label: 'WEBP' },
+];
+
+/** Inputs the browser can decode reliably. HEIC and friends need converting first. */
+const SUPPORTED_INPUT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/bmp', 'image/avif', 'image/svg+xml'];
+
+/** Larger files are almost certainly not worth decoding in the browser. */
+export const MAX_INPUT_BYTES = 30 * 1024 * 1024;
+/** Decoding a bigger bitmap risks running the tab out of memory. */
+const MAX_INPUT_PIXELS = 100_000_000;
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const readAsDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// SVGs can't go through createImageBitmap, so they are rasterised through an <img>
+const loadViaElement = (blob: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new MuseError('invalid-input', "This image could not be read. The file may be damaged."));
+    };
+    img.src = url;
+  });
+
+const decode = async (file: Blob): Promise<{ source: CanvasImageSource; width: number; height: number }> => {
+  if (file.type === 'image/svg+xml') {
+    const img = await loadViaElement(file);
+    // SVGs without intrinsic dimensions report 0; give them a sensible canvas
+    return { source: img, width: img.naturalWidth || 1024, height: img.naturalHeight || 1024 };
+  }
+
+  try {
+    // 'from-image' bakes the EXIF orientation into the pixels, so phone photos come out upright
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    return { source: bitmap, width: bitmap.width, height: bitmap.height };
+  } catch (error) {
+    if (error instanceof TypeError) {
+      // Older engines reject 'from-image' but already honour EXIF orientation by default
+      const bitmap = await createImageBitmap(file).catch(() => null);
+      if (bitmap) return { source: bitmap, width: bitmap.width, height: bitmap.height };
+    }
+    throw new MuseError('invalid-input', "This image could not be read. The file may be damaged.", { cause: error });
+  }
+};
+
+const encode = (canvas: HTMLCanvasElement, format: ImageFormat, quality: number): Promise<Blob | null> =>
+  new Promise(resolve => canvas.toBlob(resolve, format, quality));
+
+/**
+ * Validates an uploaded file, then downscales it to fit `maxDimension`, applies its EXIF
+ * orientation and re-encodes it, so every model call carries a small, upright image.
+ */
+export const preprocessImage = async (
+  file: Blob,
+  { maxDimension, format, quality }: ImagePreprocessOptions = DEFAULT_IMAGE_OPTIONS
+): Promise<ImagePayload> => {
+  if (!file.type.startsWith('image/')) {
+    throw new MuseError('invalid-input', "That file isn't an image. Choose a JPG, PNG, WEBP or GIF.");
+  }
+  if (!SUPPORTED_INPUT_TYPES.includes(file.type)) {
+    const name = file.type.replace('image/', '').toUpperCase();
+    throw new MuseError('invalid-input', `${name} images aren't supported. Convert it to JPG or PNG first.`);
+  }
+  if (file.size > MAX_INPUT_BYTES) {
+    throw new MuseError('invalid-input', `This image is ${formatMegabytes(file.size)}; the limit is ${formatMegabytes(MAX_INPUT_BYTES)}.`);
+  }
+
+  const { source, width, height } = await decode(file);
+  try {
+    if (width * height > MAX_INPUT_PIXELS) {
+      throw new MuseError('invalid-input', `This image is ${width}×${height} pixels, which is too large to process.`);
+    }
+
+    const scale = Math.min(1, maxDimension / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new MuseError('unknown', "Image processing isn't available in this browser.");
+    // JPEG has no alpha, so transparent areas would otherwise turn black
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+    // Browsers that can't write WEBP hand back PNG instead; fall back to JPEG rather than bloat
+    let blob = await encode(canvas, format, quality);
+    if (!blob || blob.type !== format) blob = await encode(canvas, 'image/jpeg', quality);
+    if (!blob) throw new MuseError('unknown', "The image could not be re-encoded.");
+
+    const dataUrl = await readAsDataUrl(blob);
+    return {
+      base64: dataUrl.slice(dataUrl.indexOf(',') + 1),
+      mimeType: blob.type,
+      width: canvas.width,
+      height: canvas.height,
+    };
+  } finally {
+    if (source instanceof ImageBitmap) source.close();
+  }
+};
+
+/** The payload as a data URL, for <img> tags. */
+export const toDataUrl = (image: ImagePayload): string => `data:${image.mimeType};base64,${image.base64}`;
+
+/**
+ * Splits a data URL into a payload. Accepts any mime type, including ones like image/svg+xml.
+ */
+export const fromDataUrl = (dataUrl: string, width = 0, height = 0): ImagePayload => {
+  const match = /^data:([^;,]+)(?:;[^,]*)?,/.exec(dataUrl);
+  return {
+    base64: match ? dataUrl.slice(match[0].length) : dataUrl,
+    mimeType: match?.[1] || 'image/jpeg',
+    width,
+    height,
+  };
+};
@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchImageFromUrl } from "./imageSources";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const stubDownload = () =>
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array([1, 2, 3]), { headers: { 'Content-Type': 'image/png' } })));
+
+describe('fetchImageFromUrl', () => {
+  it('names the file after the last part of the path, decoded', async () => {
+    stubDownload();
+    const file = await fetchImageFromUrl('https://example.com/photos/caf%C3%A9.png');
+    expect(file.name).toBe('café.png');
+    expect(file.type).toBe('image/png');
+  });
+
+  it('keeps a name with a malformed escape as it was', async () => {
+    stubDownload();
+    const file = await fetchImageFromUrl('https://example.com/%E0%A4%A.png');
+    expect(file.name).toBe('%E0%A4%A.png');
+  });
+
+  it('falls back to a generic name when the path has none', async () => {
+    stubDownload();
+    expect((await fetchImageFromUrl('https://example.com/')).name).toBe('image');
+  });
+
+  it('rejects URLs that are not http or https before downloading', async () => {
+    stubDownload();
+    await expect(fetchImageFromUrl('ftp://example.com/cat.png')).rejects.toMatchObject({ kind: 'invalid-input' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
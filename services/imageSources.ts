@@ -0,0 +1,74 @@
+import { API_BASE_PATH } from "./providers";
+import { MuseError, errorFromResponse } from "./errors";
+
+/**
+ * Image files on the clipboard, e.g. from a screenshot or "Copy image" in a browser.
+ */
+export const imageFilesFromClipboard = (data: DataTransfer | null): File[] =>
+  Array.from<DataTransferItem>(data?.items ?? [])
+    .filter(item => item.kind === 'file' && item.type.startsWith('image/'))
+    .map(item => item.getAsFile())
+    .filter((file): file is File => file !== null);
+
+// The last path segment, decoded; a malformed escape leaves it as it was
+const fileNameFromUrl = (url: URL): string => {
+  const segment = url.pathname.split('/').pop() || '';
+  try {
+    return decodeURIComponent(segment) || 'image';
+  } catch {
+    return segment;
+  }
+};
+
+/**
+ * Downloads an image from a URL. Remote URLs go through the Muse server, since most
+ * sites don't allow the browser to read their images directly.
+ */
+export const fetchImageFromUrl = async (raw: string, signal?: AbortSignal): Promise<File> => {
+  const text = raw.trim();
+  if (text.startsWith('data:image/')) {
+    const blob = await (await fetch(text)).blob();
+    return new File([blob], 'pasted-image', { type: blob.type });
+  }
+
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    throw new MuseError('invalid-input', "That isn't a valid URL.");
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new MuseError('invalid-input', "Only http and https image URLs are supported.");
+  }
+
+  const response = await fetch(`${API_BASE_PATH}/image`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url: url.toString() }),
+    signal,
+  });
+  if (!response.ok) throw await errorFromResponse(response, "Couldn't download that image.");
+
+  const blob = await response.blob();
+  return new File([blob], fileNameFromUrl(url), { type: blob.type });
+};
+
+/**
+ * Grabs the current frame of a playing video as a JPEG file.
+ */
+export const captureVideoFrame = (video: HTMLVideoElement): Promise<File> =>
+  new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx || !canvas.width) {
+      reject(new MuseError('invalid-input', "The camera hasn't produced a picture yet."));
+      return;
+    }
+    ctx.drawImage(video, 0, 0);
+    canvas.toBlob(blob => {
+      if (blob) resolve(new File([blob], 'webcam.jpg', { type: 'image/jpeg' }));
+      else reject(new MuseError('unknown', "Couldn't capture the photo."));
+    }, 'image/jpeg', 0.92);
+  });
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getModelConfig } from "./config";
+import { concatPcm, pcmDuration, planNarration, synthesizeNarration } from "./narration";
+import { SpeechRequest, createProvider, setProvider } from "./providers";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('planNarration', () => {
+  it('starts with a single sentence so playback can begin early', () => {
+    const chunks = planNarration('Rain fell. The pier was empty. Nobody came.');
+    expect(chunks.map(chunk => chunk.text)).toEqual(['Rain fell.', 'The pier was empty. Nobody came.']);
+    expect(chunks[1].index).toBe(1);
+  });
+
+  it('never lets paragraphs share a chunk', () => {
+    const chunks = planNarration('Rain fell.\n\nThe pier was empty. Nobody came.\n\nThe end.');
+    expect(chunks.map(chunk => chunk.text)).toEqual(['Rain fell.', 'The pier was empty. Nobody came.', 'The end.']);
+  });
+
+  it('keeps chunks short and sentences where they are in the text', () => {
+    const text = `First. ${'A fairly long sentence about the sea and the sky. '.repeat(20)}`;
+    const chunks = planNarration(text);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(400);
+      for (const sentence of chunk.sentences) expect(text.slice(sentence.start, sentence.end)).toBe(sentence.text);
+    }
+  });
+});
+
+describe('synthesizeNarration', () => {
+  it('yields chunks in order while keeping the next ones in flight', async () => {
+    vi.stubEnv('MUSE_PROVIDER', 'mock');
+    const requested: string[] = [];
+    let finish: Record<string, () => void> = {};
+    setProvider(Object.assign(createProvider(getModelConfig()), {
+      generateSpeech: ({ text }: SpeechRequest) => {
+        requested.push(text);
+        return new Promise<Uint8Array>(resolve => {
+          finish = { ...finish, [text]: () => resolve(new TextEncoder().encode(text)) };
+        });
+      },
+    }));
+    const chunks = planNarration('One. Two.\n\nThree.\n\nFour.');
+    const narration = synthesizeNarration(chunks, { lookahead: 2 });
+
+    const first = narration.next();
+    await Promise.resolve();
+    expect(requested).toEqual(['One.', 'Two.']);
+    // Later chunks finishing first still wait their turn
+    finish['Two.']();
+    finish['One.']();
+    expect(new TextDecoder().decode((await first).value!.pcm)).toBe('One.');
+
+    const second = narration.next();
+    await Promise.resolve();
+    expect(requested).toEqual(['One.', 'Two.', 'Three.']);
+    expect((await second).value!.chunk.text).toBe('Two.');
+  });
+});
+
+describe('PCM helpers', () => {
+  it('measures and joins 24kHz 16-bit audio', () => {
+    expect(pcmDuration(new Uint8Array(48000))).toBe(1);
+    expect(concatPcm([new Uint8Array([1, 2]), new Uint8Array(0), new Uint8Array([3])])).toEqual(new Uint8Array([1, 2, 3]));
+  });
+});
@@ -0,0 +1,94 @@
+import { TextSpan, splitSentences } from "../utils/text";
+import { getProvider } from "./providers";
+import { withRetry } from "./errors";
+import { meterCall } from "./usage";
+
+export const NARRATION_SAMPLE_RATE = 24000;
+
+// Long enough to keep the number of requests down, short enough to stay well inside model limits
+const MAX_CHUNK_CHARS = 400;
+
+export interface NarrationChunk {
+  index: number;
+  text: string;
+  sentences: TextSpan[];
+}
+
+export interface SynthesizedChunk {
+  chunk: NarrationChunk;
+  pcm: Uint8Array; // Raw 24kHz mono Int16 PCM
+}
+
+/**
+ * Groups the story's sentences into chunks for synthesis. The first chunk is a single
+ * sentence so playback can begin as early as possible; paragraphs never share a chunk.
+ */
+export const planNarration = (text: string): NarrationChunk[] => {
+  const chunks: NarrationChunk[] = [];
+  let current: TextSpan[] = [];
+
+  const flush = () => {
+    if (!current.length) return;
+    chunks.push({
+      index: chunks.length,
+      text: current.map(s => s.text).join(' '),
+      sentences: current,
+    });
+    current = [];
+  };
+
+  for (const sentence of splitSentences(text)) {
+    const previous = current[current.length - 1];
+    const startsParagraph = previous && /\n\s*\n/.test(text.slice(previous.end, sentence.start));
+    const length = current.reduce((sum, s) => sum + s.text.length + 1, 0) + sentence.text.length;
+    if ((chunks.length === 0 && current.length === 1) || startsParagraph || length > MAX_CHUNK_CHARS) {
+      flush();
+    }
+    current.push(sentence);
+  }
+  flush();
+
+  return chunks;
+};
+
+/**
+ * Synthesizes chunks in order, keeping up to `lookahead` requests in flight so the
+ * next chunk is usually ready before the current one finishes playing.
+ */
+export async function* synthesizeNarration(
+  chunks: NarrationChunk[],
+  { signal, lookahead = 2 }: { signal?: AbortSignal; lookahead?: number } = {}
+): AsyncGenerator<SynthesizedChunk> {
+  const pending: Promise<Uint8Array | null>[] = [];
+  let next = 0;
+
+  const fill = () => {
+    while (next < chunks.length && pending.length < lookahead) {
+      const text = chunks[next++].text;
+      const promise = withRetry(() => getProvider().generateSpeech({ text, signal, onUsage: meterCall('speech') }), { signal });
+      promise.catch(() => undefined); // Surfaced when awaited below, in order
+      pending.push(promise);
+    }
+  };
+
+  for (const chunk of chunks) {
+    fill();
+    const pcm = await pending.shift()!;
+    signal?.throwIfAborted();
+    yield { chunk, pcm: pcm ?? new Uint8Array(0) };
+  }
+}
+
+/** Seconds of audio in a PCM chunk. */
+export const pcmDuration = (pcm: Uint8Array): number => pcm.byteLength / 2 / NARRATION_SAMPLE_RATE;
+
+/** Joins synthesized chunks into one recording. */
+export const concatPcm = (chunks: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(chunks.reduce((sum, c) => sum + c.byteLength, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return result;
+};
@@ -0,0 +1,87 @@
+import { ImagePreprocessOptions, ModelPrice, PromptTemplate, SafetySettings, StorySettings, UsageBudget } from "../types";
+import { DEFAULT_STORY_SETTINGS } from "./promptBuilder";
+import { DEFAULT_IMAGE_OPTIONS } from "./imagePreprocessor";
+
+const SETTINGS_KEY = 'muse.storySettings';
+const TEMPLATES_KEY = 'muse.promptTemplates';
+const IMAGE_OPTIONS_KEY = 'muse.imageOptions';
+const PRICES_KEY = 'muse.modelPrices';
+const BUDGET_KEY = 'muse.usageBudget';
+const SAFETY_KEY = 'muse.safety';
+
+/** List prices when this was written, in US dollars per million tokens. The first match wins. */
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gemini-3-pro-preview', input: 2, output: 12, audio: 0 },
+  { model: 'gemini-2.5-pro*', input: 1.25, output: 10, audio: 0 },
+  { model: 'gemini-2.5-flash-preview-tts', input: 0.5, output: 0, audio: 10 },
+  { model: 'gemini-2.5-flash-image*', input: 0.3, output: 30, audio: 0 }, // About $0.04 an image
+  { model: 'gemini-2.5-flash-native-audio*', input: 3, output: 2, audio: 12 }, // Input priced as audio
+  { model: 'gemini-2.5-flash*', input: 0.3, output: 2.5, audio: 0 },
+  { model: 'gpt-4o-mini*', input: 0.15, output: 0.6, audio: 0 },
+  { model: 'gpt-4o*', input: 2.5, output: 10, audio: 0 },
+  { model: 'gpt-image-1', input: 5, output: 40, audio: 0 },
+  { model: 'tts-1', input: 60, output: 0, audio: 0 }, // $15 per million characters
+  { model: 'mock-*', input: 0, output: 0, audio: 0 },
+];
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = { daily: 0, perStory: 0, mode: 'warn' };
+
+export const DEFAULT_SAFETY_SETTINGS: SafetySettings = { thresholds: {}, kidSafe: false, ageRange: '7–9' };
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const loadStorySettings = (): StorySettings => ({
+  ...DEFAULT_STORY_SETTINGS,
+  ...readJson<Partial<StorySettings>>(SETTINGS_KEY, {}),
+});
+
+export const saveStorySettings = (settings: StorySettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** User-saved templates only; built-ins live in promptBuilder. */
+export const loadUserTemplates = (): PromptTemplate[] => readJson<PromptTemplate[]>(TEMPLATES_KEY, []);
+
+export const saveUserTemplates = (templates: PromptTemplate[]): void => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+export const loadImageOptions = (): ImagePreprocessOptions => ({
+  ...DEFAULT_IMAGE_OPTIONS,
+  ...readJson<Partial<ImagePreprocessOptions>>(IMAGE_OPTIONS_KEY, {}),
+});
+
+export const saveImageOptions = (options: ImagePreprocessOptions): void => {
+  localStorage.setItem(IMAGE_OPTIONS_KEY, JSON.stringify(options));
+};
+
+export const loadModelPrices = (): ModelPrice[] => readJson<ModelPrice[]>(PRICES_KEY, DEFAULT_MODEL_PRICES);
+
+export const saveModelPrices = (prices: ModelPrice[]): void => {
+  localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+};
+
+export const loadUsageBudget = (): UsageBudget => ({
+  ...DEFAULT_USAGE_BUDGET,
+  ...readJson<Partial<UsageBudget>>(BUDGET_KEY, {}),
+});
+
+export const saveUsageBudget = (budget: UsageBudget): void => {
+  localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+};
+
+export const loadSafetySettings = (): SafetySettings => ({
+  ...DEFAULT_SAFETY_SETTINGS,
+  ...readJson<Partial<SafetySettings>>(SAFETY_KEY, {}),
+});
+
+export const saveSafetySettings = (settings: SafetySettings): void => {
+  localStorage.setItem(SAFETY_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { PromptTemplate, StoryBibleEntry } from "../types";
+import { BUILT_IN_TEMPLATES, DEFAULT_STORY_SETTINGS, buildChapterPrompt, buildStoryBiblePrompt, buildStoryPrompt, fillTemplate, findTemplate, formatStoryBible } from "./promptBuilder";
+
+const template = (body: string): PromptTemplate => ({ id: 'custom', name: 'Custom', body });
+
+describe('fillTemplate', () => {
+  it('fills known variables, allowing spaces inside the braces, and drops unknown ones', () => {
+    expect(fillTemplate('A {{ tone }} {{genre}} tale{{unknown}}.', { tone: 'dark', genre: 'mystery' })).toBe('A dark mystery tale.');
+  });
+});
+
+describe('findTemplate', () => {
+  it('falls back to the first built-in template', () => {
+    const custom = template('Write.');
+    expect(findTemplate([...BUILT_IN_TEMPLATES, custom], 'custom')).toBe(custom);
+    expect(findTemplate(BUILT_IN_TEMPLATES, 'deleted')).toBe(BUILT_IN_TEMPLATES[0]);
+  });
+});
+
+describe('buildStoryPrompt', () => {
+  it('writes the settings into the template', () => {
+    const prompt = buildStoryPrompt(
+      { ...DEFAULT_STORY_SETTINGS, genre: 'Science fiction', tone: 'Tense', targetWords: 300, language: 'French' },
+      template('{{genre}}|{{tone}}|{{pov}}|{{tense}}|{{length}}|{{readingLevel}}|{{language}}')
+    );
+    expect(prompt).toBe('science fiction|tense|third person limited|past|300|adult|French');
+  });
+
+  it('leaves the genre to the model when any will do', () => {
+    expect(buildStoryPrompt(DEFAULT_STORY_SETTINGS, template('A {{genre}} story.'))).toBe('A fitting story.');
+  });
+
+  it('puts pinned details where the template asks, or at the end', () => {
+    const pins = ['a red door', 'fog'];
+    expect(buildStoryPrompt(DEFAULT_STORY_SETTINGS, template('Write.{{details}} Go.'), pins))
+      .toBe('Write. Make these details central to the scene: a red door; fog. Go.');
+    expect(buildStoryPrompt(DEFAULT_STORY_SETTINGS, template('Write.'), pins))
+      .toBe('Write. Make these details central to the scene: a red door; fog.');
+  });
+});
+
+describe('buildChapterPrompt', () => {
+  it('opens the story from the first image, splitting the length across chapters', () => {
+    const prompt = buildChapterPrompt({ ...DEFAULT_STORY_SETTINGS, targetWords: 900 }, 0, 3, []);
+    expect(prompt).toContain('scene 1 of 3');
+    expect(prompt).toContain('This chapter opens the story');
+    expect(prompt).toContain('about 300 words');
+  });
+
+  it('continues from the chapters before it and leads into the next one', () => {
+    const prompt = buildChapterPrompt(DEFAULT_STORY_SETTINGS, 1, 3, ['The keeper lit the lamp.'], 'The ship ran aground.');
+    expect(prompt).toContain('The keeper lit the lamp.');
+    expect(prompt).toContain('lead naturally into the chapter that follows');
+    expect(prompt).toContain('The ship ran aground.');
+  });
+
+  it('keeps short chapters to a minimum length', () => {
+    expect(buildChapterPrompt({ ...DEFAULT_STORY_SETTINGS, targetWords: 100 }, 0, 10, [])).toContain('about 80 words');
+  });
+});
+
+const BIBLE: StoryBibleEntry[] = [
+  { id: '1', kind: 'character', name: ' Ann ', details: ' The keeper. ' },
+  { id: '2', kind: 'place', name: 'Pier', details: '' },
+  { id: '3', kind: 'fact', name: '  ', details: 'Unnamed.' },
+];
+
+describe('formatStoryBible', () => {
+  it('lists named entries, with their details when they have some', () => {
+    expect(formatStoryBible(BIBLE).split('\n').slice(1)).toEqual(['- character: Ann (The keeper.)', '- place: Pier']);
+  });
+
+  it('is empty without entries', () => {
+    expect(formatStoryBible([])).toBe('');
+  });
+
+  it('is added to the story prompt', () => {
+    expect(buildStoryPrompt(DEFAULT_STORY_SETTINGS, template('Write.'), [], BIBLE)).toContain('- character: Ann (The keeper.)');
+  });
+});
+
+describe('buildStoryBiblePrompt', () => {
+  it('keeps the start and end of long drafts, and the end of the chat', () => {
+    const draft = `Start.${'x'.repeat(20000)}End.`;
+    const prompt = buildStoryBiblePrompt(draft, `${'y'.repeat(5000)}Last words.`, BIBLE);
+
+    expect(prompt).toContain('Start.');
+    expect(prompt).toContain('End.');
+    expect(prompt).toContain('[...]');
+    expect(prompt).toContain('Last words.');
+    expect(prompt).toContain('The bible so far, to update');
+    expect(prompt.length).toBeLessThan(20000);
+  });
+});
@@ -0,0 +1,217 @@
+import { ChatMessage, PromptTemplate, StoryBibleEntry, StoryBibleKind, StorySettings } from "../types";
+import { HarmCategory } from "./providers/types";
+import { HARM_CATEGORY_LABELS } from "./errors";
+
+export const GENRES = ['Any', 'Literary', 'Fantasy', 'Science fiction', 'Mystery', 'Horror', 'Romance', 'Adventure', 'Fairy tale', 'Historical'];
+export const TONES = ['Atmospheric', 'Whimsical', 'Dark', 'Hopeful', 'Melancholic', 'Humorous', 'Tense', 'Lyrical'];
+export const POINTS_OF_VIEW = ['First person', 'Second person', 'Third person limited', 'Third person omniscient'];
+export const TENSES = ['Past', 'Present'];
+export const READING_LEVELS = ['Early reader', 'Middle grade', 'Young adult', 'Adult'];
+export const LANGUAGES = ['English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Hindi', 'Japanese', 'Chinese'];
+
+export const STORY_BIBLE_KINDS: { value: StoryBibleKind; label: string }[] = [
+  { value: 'character', label: 'Characters' },
+  { value: 'place', label: 'Places' },
+  { value: 'object', label: 'Objects' },
+  { value: 'fact', label: 'Facts' },
+];
+
+export const DEFAULT_TEMPLATE_ID = 'opening';
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'Atmospheric opening',
+    builtIn: true,
+    body: "Analyze the mood, lighting, and details of this image. Then, act as a master storyteller. Write a compelling, {{tone}} opening for a {{genre}} story set in this scene, about {{length}} words long. Write in the {{pov}} point of view and the {{tense}} tense, for a {{readingLevel}} audience, in {{language}}. Focus on sensory details and establishing the tone.{{details}}",
+  },
+  {
+    id: 'flash-fiction',
+    name: 'Complete flash fiction',
+    builtIn: true,
+    body: "Study this image and write a complete {{genre}} flash fiction piece of about {{length}} words inspired by it, with a beginning, middle and a satisfying end. Tone: {{tone}}. Point of view: {{pov}}, {{tense}} tense. Audience: {{readingLevel}}. Language: {{language}}.{{details}}",
+  },
+];
+
+export const DEFAULT_STORY_SETTINGS: StorySettings = {
+  genre: 'Any',
+  tone: 'Atmospheric',
+  pointOfView: 'Third person limited',
+  tense: 'Past',
+  targetWords: 150,
+  readingLevel: 'Adult',
+  language: 'English',
+  templateId: DEFAULT_TEMPLATE_ID,
+  variantCount: 1,
+};
+
+export const MAX_VARIANTS = 4;
+
+/** Variables a template may reference, with what they expand to. */
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+  genre: 'Chosen genre',
+  tone: 'Chosen tone',
+  pov: 'Narrative point of view',
+  tense: 'Past or present',
+  length: 'Target length in words',
+  readingLevel: 'Target audience',
+  language: 'Output language',
+  details: 'Pinned scene details, as a sentence (empty when nothing is pinned)',
+};
+
+/**
+ * Replaces every {{name}} in the body; unknown names expand to nothing.
+ */
+export const fillTemplate = (body: string, variables: Record<string, string>): string =>
+  body.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => variables[name] ?? '');
+
+export const findTemplate = (templates: PromptTemplate[], id: string): PromptTemplate =>
+  templates.find(t => t.id === id) ?? BUILT_IN_TEMPLATES[0];
+
+/**
+ * The story bible as a block of prompt text, or '' when it is empty.
+ */
+export const formatStoryBible = (bible: StoryBibleEntry[] = []): string => {
+  const lines = bible
+    .filter(entry => entry.name.trim())
+    .map(entry => `- ${entry.kind}: ${entry.name.trim()}${entry.details.trim() ? ` (${entry.details.trim()})` : ''}`);
+  return lines.length
+    ? `Story bible. Stay consistent with these established characters, places, objects and facts:\n${lines.join('\n')}`
+    : '';
+};
+
+const withBible = (prompt: string, bible?: StoryBibleEntry[]): string => {
+  const block = formatStoryBible(bible);
+  return block ? `${prompt}\n\n${block}` : prompt;
+};
+
+/**
+ * Compiles story settings, a template, pinned details and the story bible into the final story instruction.
+ */
+export const buildStoryPrompt = (
+  settings: StorySettings,
+  template: PromptTemplate,
+  pinnedDetails: string[] = [],
+  bible: StoryBibleEntry[] = []
+): string => {
+  const details = pinnedDetails.length
+    ? ` Make these details central to the scene: ${pinnedDetails.join('; ')}.`
+    : '';
+
+  const prompt = fillTemplate(template.body, {
+    genre: settings.genre === 'Any' ? 'fitting' : settings.genre.toLowerCase(),
+    tone: settings.tone.toLowerCase(),
+    pov: settings.pointOfView.toLowerCase(),
+    tense: settings.tense.toLowerCase(),
+    length: String(settings.targetWords),
+    readingLevel: settings.readingLevel.toLowerCase(),
+    language: settings.language,
+    details,
+  });
+
+  // Templates that leave out {{details}} still get the pins
+  return withBible(/\{\{\s*details\s*\}\}/.test(template.body) ? prompt : prompt + details, bible);
+};
+
+export type SelectionEdit = 'rewrite' | 'expand' | 'condense';
+
+const SELECTION_INSTRUCTIONS: Record<SelectionEdit, string> = {
+  rewrite: 'Rewrite the passage with fresh wording, keeping its meaning, rough length and voice.',
+  expand: 'Expand the passage to roughly twice its length with richer sensory detail, keeping its voice.',
+  condense: 'Condense the passage to roughly half its length, keeping the essential beats and voice.',
+};
+
+const quoteDraft = (draft: string) => `"""\n${draft}\n"""`;
+
+/**
+ * Instruction for writing the next scene after the current draft.
+ */
+export const buildContinuePrompt = (settings: StorySettings, draft: string, bible: StoryBibleEntry[] = []): string =>
+  withBible(`Here is a story inspired by this image so far:\n\n${quoteDraft(draft)}\n\nContinue it with the next scene, about ${settings.targetWords} words. Keep the ${settings.pointOfView.toLowerCase()} point of view, the ${settings.tense.toLowerCase()} tense, the tone and the language of the draft. Reply with only the new text, without repeating the draft.`, bible);
+
+/**
+ * Instruction for rewriting, expanding or condensing one passage of the draft.
+ */
+export const buildSelectionPrompt = (mode: SelectionEdit, draft: string, selection: string, bible: StoryBibleEntry[] = []): string =>
+  withBible(`Here is a story inspired by this image:\n\n${quoteDraft(draft)}\n\nThis passage is selected:\n\n${quoteDraft(selection)}\n\n${SELECTION_INSTRUCTIONS[mode]} It must still fit seamlessly where it sits in the story. Reply with only the replacement passage.`, bible);
+
+/** Fewest words a storyboard chapter is asked for, however many images share the length. */
+const MIN_CHAPTER_WORDS = 80;
+
+/**
+ * Instruction for writing one chapter of a storyboard from its image. The chapters
+ * before it (and the one after, when regenerating) keep characters and plot continuous.
+ */
+export const buildChapterPrompt = (
+  settings: StorySettings,
+  index: number,
+  total: number,
+  previousChapters: string[],
+  nextChapter?: string,
+  bible: StoryBibleEntry[] = []
+): string => {
+  const words = Math.max(MIN_CHAPTER_WORDS, Math.round(settings.targetWords / total));
+  const genre = settings.genre === 'Any' ? '' : ` Genre: ${settings.genre.toLowerCase()}.`;
+  const context = previousChapters.length
+    ? `The story so far:\n\n${quoteDraft(previousChapters.join('\n\n'))}\n\nContinue it: keep the same characters, names and plot threads, and move the story on through what this image shows.`
+    : 'This chapter opens the story, so introduce the main characters and set up a plot the later images can carry forward.';
+  const following = nextChapter?.trim()
+    ? `\n\nIt must lead naturally into the chapter that follows:\n\n${quoteDraft(nextChapter)}`
+    : '';
+
+  return withBible(`This image is scene ${index + 1} of ${total} in a storyboard for a story told across ${total} chapters, one per image.${genre} ${context}${following}\n\nWrite chapter ${index + 1}, about ${words} words, in a ${settings.tone.toLowerCase()} tone for a ${settings.readingLevel.toLowerCase()} audience, in the ${settings.pointOfView.toLowerCase()} point of view and the ${settings.tense.toLowerCase()} tense, in ${settings.language}. Reply with only the chapter text, without a heading.`, bible);
+};
+
+/**
+ * Instruction for drawing one page of the storybook. The attached image sets the art
+ * style and shows the characters, so every page looks like the same book.
+ */
+export const buildIllustrationPrompt = (sceneText: string, index: number, total: number, bible: StoryBibleEntry[] = []): string =>
+  withBible(`Illustrate page ${index + 1} of ${total} of a picture book. The attached image is the style reference: match its art style, palette and lighting, and draw any characters or places it shows exactly as they appear there. The page tells this part of the story:\n\n${quoteDraft(sceneText)}\n\nDraw one picture of its most important moment, landscape format, with no text, captions or speech bubbles in the image.`, bible);
+
+// Keeps the extraction prompt inside the server's per-field limit
+const MAX_BIBLE_DRAFT_CHARS = 12000;
+const MAX_BIBLE_CHAT_CHARS = 4000;
+
+/**
+ * Instruction for pulling the story bible out of the draft and the co-author chat.
+ * Long drafts keep their beginning and end, where characters are introduced and where the story is now.
+ */
+export const buildStoryBiblePrompt = (draft: string, transcript: string, bible: StoryBibleEntry[] = []): string => {
+  const half = MAX_BIBLE_DRAFT_CHARS / 2;
+  const clipped = draft.length > MAX_BIBLE_DRAFT_CHARS ? `${draft.slice(0, half)}\n[...]\n${draft.slice(-half)}` : draft;
+  const chat = transcript.trim()
+    ? `\n\nDecisions may also have been made in this conversation between the author and their co-author:\n\n${quoteDraft(transcript.slice(-MAX_BIBLE_CHAT_CHARS))}`
+    : '';
+  const known = formatStoryBible(bible);
+
+  return `Here is a story draft:\n\n${quoteDraft(clipped)}${chat}${known ? `\n\nThe bible so far, to update:\n${known}` : ''}\n\nList the named characters, places and important objects in the story, plus any facts a writer must keep consistent (relationships, ages, rules of the world, events that happened). Give each a short name and one or two sentences of details as the story currently has them. Only include what the draft or the conversation actually establishes.`;
+};
+
+/**
+ * A chat transcript as plain lines, for prompts that read a conversation.
+ */
+export const formatTranscript = (turns: Pick<ChatMessage, 'role' | 'text'>[]): string =>
+  turns.map(turn => `${turn.role === 'user' ? 'Author' : 'Co-author'}: ${turn.text}`).join('\n');
+
+/**
+ * Instruction for folding older chat turns into a running summary of the conversation.
+ */
+export const buildConversationSummaryPrompt = (previousSummary: string, turns: Pick<ChatMessage, 'role' | 'text'>[]): string => {
+  const earlier = previousSummary.trim() ? `Summary of the conversation before this:\n\n${quoteDraft(previousSummary)}\n\n` : '';
+  return `${earlier}This is the next part of a conversation between an author and their writing co-author about a story:\n\n${quoteDraft(formatTranscript(turns))}\n\nWrite one summary of the whole conversation so far, so the co-author can carry on without the full transcript. Keep every decision, idea the author liked, open question and request, and drop small talk. Use a short paragraph or a few bullet points.`;
+};
+
+export const KID_AGE_RANGES = ['4–6', '7–9', '10–12', '13–15'];
+
+/**
+ * Added to every story, chat and illustration instruction in kid-safe mode.
+ */
+export const buildKidSafeNote = (ageRange: string): string =>
+  `Everything you write or draw is for children aged ${ageRange}, for example in a classroom. Keep it suitable for that age: peril stays mild and is resolved, nobody is badly hurt, there is no romance beyond friendship, no bad language and nothing cruel or frightening. Use words a child of that age can read.`;
+
+/**
+ * Added when retrying something the safety filter blocked, steering away from whatever tripped it.
+ */
+export const buildRephraseNote = (category?: HarmCategory): string =>
+  `An earlier attempt at this was blocked by a safety filter${category ? ` as ${HARM_CATEGORY_LABELS[category].toLowerCase()}` : ''}. Write it again so it stays well clear of that: keep anything difficult off the page or only hinted at, and make it suitable for a general audience.`;
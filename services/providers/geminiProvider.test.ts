@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from "vitest";
+import { GeminiProvider } from "./geminiProvider";
+
+const provider = () => new GeminiProvider({
+  provider: 'gemini',
+  storyModel: 'gemini-2.5-flash',
+  chatModel: 'gemini-2.5-flash',
+  speechModel: 'gemini-2.5-flash-preview-tts',
+  imageModel: 'gemini-2.5-flash-image',
+  liveModel: 'gemini-2.5-flash-native-audio',
+  voice: 'Kore',
+  apiKey: 'key',
+  baseUrl: '',
+  chatTokenBudget: 32000,
+});
+
+// Stands in for the SDK's live API, with a connect that resolves when told to
+const fakeLive = () => {
+  const session = { close: vi.fn(), sendClientContent: vi.fn(), sendRealtimeInput: vi.fn() };
+  let connected = () => {};
+  const connect = vi.fn(() => new Promise<typeof session>(resolve => {
+    connected = () => resolve(session);
+  }));
+  return { session, connect, connected: () => connected() };
+};
+
+describe('GeminiProvider.connectLive', () => {
+  it('closes a session given up on while it connected', async () => {
+    const gemini = provider();
+    const live = fakeLive();
+    Object.assign(gemini, { ai: { live: { connect: live.connect } } });
+    const controller = new AbortController();
+    const onClose = vi.fn();
+
+    const connecting = gemini.connectLive({ systemInstruction: '', onEvent: () => {}, onClose, signal: controller.signal });
+    controller.abort();
+    live.connected();
+
+    await expect(connecting).rejects.toMatchObject({ name: 'AbortError' });
+    expect(live.session.close).toHaveBeenCalledOnce();
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it('seeds a connected session with the conversation so far', async () => {
+    const gemini = provider();
+    const live = fakeLive();
+    Object.assign(gemini, { ai: { live: { connect: live.connect } } });
+
+    const connecting = gemini.connectLive({
+      systemInstruction: '',
+      history: [{ role: 'user', text: 'Hi' }],
+      onEvent: () => {},
+      onClose: () => {},
+    });
+    live.connected();
+    const session = await connecting;
+
+    expect(live.session.sendClientContent).toHaveBeenCalledWith({ turns: [{ role: 'user', parts: [{ text: 'Hi' }] }], turnComplete: false });
+    session.close();
+    expect(live.session.close).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,371 @@
+import {
+  Content,
+  FinishReason,
+  FunctionCallingConfigMode,
+  GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
+  GoogleGenAI,
+  HarmBlockThreshold,
+  HarmCategory as GeminiHarmCategory,
+  HarmProbability,
+  LiveServerMessage,
+  MediaModality,
+  Modality,
+  SafetyRating,
+  SafetySetting,
+  Tool,
+  UsageMetadata,
+} from "@google/genai";
+import { ModelConfig } from "../config";
+import { MuseError } from "../errors";
+import { decodeBase64, encodeBase64 } from "../../utils/audioUtils";
+import { IMAGE_GROUNDING_ACK, IMAGE_GROUNDING_PROMPT, TOOL_CALL_RESULT } from "./grounding";
+import { addUsage } from "./tokens";
+import {
+  ChatStartOptions,
+  CountTokensRequest,
+  HarmCategory,
+  ImageGenerationRequest,
+  InlineImage,
+  LiveEvent,
+  LiveSession,
+  LiveSessionOptions,
+  ModelProvider,
+  ModelUsage,
+  ProviderChat,
+  SafetyThreshold,
+  SafetyThresholds,
+  SpeechRequest,
+  StoryRequest,
+  StructuredRequest,
+  ToolDeclaration,
+} from "./types";
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.RECITATION,
+];
+
+const GEMINI_CATEGORIES: Record<HarmCategory, GeminiHarmCategory> = {
+  'harassment': GeminiHarmCategory.HARM_CATEGORY_HARASSMENT,
+  'hate-speech': GeminiHarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  'sexually-explicit': GeminiHarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  'dangerous-content': GeminiHarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+};
+
+const GEMINI_THRESHOLDS: Record<Exclude<SafetyThreshold, 'default'>, HarmBlockThreshold> = {
+  none: HarmBlockThreshold.BLOCK_NONE,
+  high: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+  medium: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  low: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
+};
+
+const PROBABILITY_ORDER: (HarmProbability | undefined)[] = [
+  HarmProbability.NEGLIGIBLE,
+  HarmProbability.LOW,
+  HarmProbability.MEDIUM,
+  HarmProbability.HIGH,
+];
+
+const toSafetySettings = (safety: SafetyThresholds = {}): SafetySetting[] | undefined => {
+  const settings = (Object.keys(safety) as HarmCategory[]).flatMap(category => {
+    const threshold = safety[category];
+    return threshold && threshold !== 'default' ? [{ category: GEMINI_CATEGORIES[category], threshold: GEMINI_THRESHOLDS[threshold] }] : [];
+  });
+  return settings.length ? settings : undefined;
+};
+
+// The category a block was for: the rating marked as blocked, or failing that the likeliest harm
+const blockedCategory = (ratings: SafetyRating[] = []): HarmCategory | undefined => {
+  const rating = ratings.find(r => r.blocked)
+    ?? [...ratings].sort((a, b) => PROBABILITY_ORDER.indexOf(b.probability) - PROBABILITY_ORDER.indexOf(a.probability))[0];
+  return (Object.keys(GEMINI_CATEGORIES) as HarmCategory[]).find(category => GEMINI_CATEGORIES[category] === rating?.category);
+};
+
+// Blocked prompts and responses come back as successful calls with no text
+const assertNotBlocked = (response: GenerateContentResponse): void => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new MuseError('safety', `The prompt was blocked (${blockReason}).`, {
+      category: blockedCategory(response.promptFeedback?.safetyRatings),
+    });
+  }
+  const candidate = response.candidates?.[0];
+  if (BLOCKED_FINISH_REASONS.includes(candidate?.finishReason)) {
+    throw new MuseError('safety', `The response was blocked (${candidate?.finishReason}).`, {
+      category: candidate?.finishReason === FinishReason.SAFETY ? blockedCategory(candidate.safetyRatings) : undefined,
+    });
+  }
+};
+
+// Thinking is billed as output; audio output has its own price, so it is split out
+const readUsage = (model: string, metadata?: GenerateContentResponseUsageMetadata): ModelUsage => {
+  const audioTokens = metadata?.candidatesTokensDetails?.find(d => d.modality === MediaModality.AUDIO)?.tokenCount ?? 0;
+  return {
+    model,
+    inputTokens: (metadata?.promptTokenCount ?? 0) + (metadata?.toolUsePromptTokenCount ?? 0),
+    outputTokens: (metadata?.candidatesTokenCount ?? 0) - audioTokens + (metadata?.thoughtsTokenCount ?? 0),
+    audioTokens,
+  };
+};
+
+// Live sessions report in a different shape, per turn
+const readLiveUsage = (model: string, metadata: UsageMetadata): ModelUsage => {
+  const audioTokens = metadata.responseTokensDetails?.find(d => d.modality === MediaModality.AUDIO)?.tokenCount ?? 0;
+  return {
+    model,
+    inputTokens: (metadata.promptTokenCount ?? 0) + (metadata.toolUsePromptTokenCount ?? 0),
+    outputTokens: (metadata.responseTokenCount ?? 0) - audioTokens + (metadata.thoughtsTokenCount ?? 0),
+    audioTokens,
+  };
+};
+
+// What one message of a live session means for the app, in the order it should be handled
+const readLiveEvents = (message: LiveServerMessage): LiveEvent[] => {
+  const content = message.serverContent;
+  if (!content) return [];
+  const events: LiveEvent[] = [];
+  if (content.inputTranscription?.text) events.push({ type: 'transcript', role: 'user', text: content.inputTranscription.text });
+  for (const part of content.modelTurn?.parts ?? []) {
+    if (part.inlineData?.data) events.push({ type: 'audio', pcm: decodeBase64(part.inlineData.data) });
+  }
+  if (content.outputTranscription?.text) events.push({ type: 'transcript', role: 'model', text: content.outputTranscription.text });
+  if (content.interrupted) events.push({ type: 'interrupted' });
+  if (content.turnComplete) events.push({ type: 'turn-complete' });
+  return events;
+};
+
+const toGeminiTools = (tools: ToolDeclaration[] = []): Tool[] | undefined =>
+  tools.length
+    ? [{ functionDeclarations: tools.map(({ name, description, parameters }) => ({ name, description, parametersJsonSchema: parameters })) }]
+    : undefined;
+
+// Opening exchange that grounds a chat in its image
+const imageSeed = (image?: InlineImage | null): Content[] =>
+  image
+    ? [
+        { role: 'user', parts: [{ inlineData: { mimeType: image.mimeType, data: image.base64 } }, { text: IMAGE_GROUNDING_PROMPT }] },
+        { role: 'model', parts: [{ text: IMAGE_GROUNDING_ACK }] },
+      ]
+    : [];
+
+export class GeminiProvider implements ModelProvider {
+  readonly id = 'gemini' as const;
+  private readonly ai: GoogleGenAI;
+
+  constructor(private readonly config: ModelConfig) {
+    this.ai = new GoogleGenAI({ apiKey: config.apiKey });
+  }
+
+  get storyModel(): string {
+    return this.config.storyModel;
+  }
+
+  get chatTokenBudget(): number {
+    return this.config.chatTokenBudget;
+  }
+
+  async *streamStory({ image, prompt, variation, safety, signal, onUsage }: StoryRequest): AsyncIterable<string> {
+    const stream = await this.ai.models.generateContentStream({
+      model: this.config.storyModel,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: image.mimeType, data: image.base64 } },
+          { text: prompt },
+        ],
+      },
+      config: {
+        temperature: variation?.temperature,
+        seed: variation?.seed,
+        safetySettings: toSafetySettings(safety),
+        abortSignal: signal,
+      },
+    });
+    // Running totals; the last chunk carries the final count
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    for await (const chunk of stream) {
+      signal?.throwIfAborted();
+      assertNotBlocked(chunk);
+      usage = chunk.usageMetadata || usage;
+      if (chunk.text) yield chunk.text;
+    }
+    onUsage?.(readUsage(this.config.storyModel, usage));
+  }
+
+  async generateStructured({ image, prompt, schema, safety, signal, onUsage }: StructuredRequest): Promise<unknown> {
+    const response = await this.ai.models.generateContent({
+      model: this.config.storyModel,
+      contents: {
+        parts: [
+          ...(image ? [{ inlineData: { mimeType: image.mimeType, data: image.base64 } }] : []),
+          { text: prompt },
+        ],
+      },
+      config: {
+        responseMimeType: 'application/json',
+        responseJsonSchema: schema,
+        safetySettings: toSafetySettings(safety),
+        abortSignal: signal,
+      },
+    });
+    onUsage?.(readUsage(this.config.storyModel, response.usageMetadata));
+    assertNotBlocked(response);
+    return JSON.parse(response.text || 'null');
+  }
+
+  startChat({ image, history = [] }: ChatStartOptions): ProviderChat {
+    const chat = this.ai.chats.create({
+      model: this.config.chatModel,
+      history: [...imageSeed(image), ...history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }))],
+    });
+
+    return {
+      sendMessage: async ({ message, systemInstruction, tools, safety, signal, onUsage }) => {
+        const geminiTools = toGeminiTools(tools);
+        const safetySettings = toSafetySettings(safety);
+        const result = await chat.sendMessage({ message, config: { systemInstruction, tools: geminiTools, safetySettings, abortSignal: signal } });
+        const usage = readUsage(this.config.chatModel, result.usageMetadata);
+        assertNotBlocked(result);
+        const calls = result.functionCalls || [];
+        if (!calls.length) {
+          onUsage?.(usage);
+          return { text: result.text || '', toolCalls: [] };
+        }
+
+        // Answer the calls so the model can finish its reply; no further calls this turn
+        const followUp = await chat.sendMessage({
+          message: calls.map(call => ({ functionResponse: { id: call.id, name: call.name, response: TOOL_CALL_RESULT } })),
+          config: {
+            systemInstruction,
+            tools: geminiTools,
+            toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } },
+            safetySettings,
+            abortSignal: signal,
+          },
+        });
+        onUsage?.(addUsage(usage, readUsage(this.config.chatModel, followUp.usageMetadata)));
+        assertNotBlocked(followUp);
+        return {
+          text: [result.text, followUp.text].filter(Boolean).join('\n\n'),
+          toolCalls: calls.map(call => ({ name: call.name || '', args: call.args || {} })),
+        };
+      },
+    };
+  }
+
+  async countTokens({ image, systemInstruction, turns, signal }: CountTokensRequest): Promise<number> {
+    // The Gemini API can't count a system instruction on its own, so it rides along as text
+    const instruction: Content[] = systemInstruction ? [{ role: 'user', parts: [{ text: systemInstruction }] }] : [];
+    const response = await this.ai.models.countTokens({
+      model: this.config.chatModel,
+      contents: [...instruction, ...imageSeed(image), ...turns.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }))],
+      config: { abortSignal: signal },
+    });
+    return response.totalTokens ?? 0;
+  }
+
+  async generateSpeech({ text, signal, onUsage }: SpeechRequest): Promise<Uint8Array | null> {
+    const response = await this.ai.models.generateContent({
+      model: this.config.speechModel,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        abortSignal: signal,
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: this.config.voice },
+          },
+        },
+      },
+    });
+    onUsage?.(readUsage(this.config.speechModel, response.usageMetadata));
+    assertNotBlocked(response);
+
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    return base64Audio ? decodeBase64(base64Audio) : null;
+  }
+
+  async generateImage({ prompt, reference, safety, signal, onUsage }: ImageGenerationRequest): Promise<InlineImage | null> {
+    const response = await this.ai.models.generateContent({
+      model: this.config.imageModel,
+      contents: {
+        parts: [
+          ...(reference ? [{ inlineData: { mimeType: reference.mimeType, data: reference.base64 } }] : []),
+          { text: prompt },
+        ],
+      },
+      config: {
+        responseModalities: [Modality.IMAGE],
+        safetySettings: toSafetySettings(safety),
+        abortSignal: signal,
+      },
+    });
+    onUsage?.(readUsage(this.config.imageModel, response.usageMetadata));
+    assertNotBlocked(response);
+
+    const image = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData;
+    return image?.data ? { base64: image.data, mimeType: image.mimeType || 'image/png' } : null;
+  }
+
+  async connectLive({ systemInstruction, image, history = [], safety, onEvent, onClose, onUsage, signal }: LiveSessionOptions): Promise<LiveSession> {
+    let isClosed = false;
+    const finish = (error?: Error) => {
+      if (isClosed) return;
+      isClosed = true;
+      onClose(error);
+    };
+
+    const session = await this.ai.live.connect({
+      model: this.config.liveModel,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction,
+        safetySettings: toSafetySettings(safety),
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: this.config.voice },
+          },
+        },
+        // Transcripts of both sides, so the conversation also lands in the chat as text
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        abortSignal: signal,
+      },
+      callbacks: {
+        onmessage: (message) => {
+          if (message.usageMetadata) onUsage?.(readLiveUsage(this.config.liveModel, message.usageMetadata));
+          readLiveEvents(message).forEach(onEvent);
+        },
+        // Errors are followed by a close, which carries the reason
+        onclose: (event) => finish(
+          event.code === 1000
+            ? undefined
+            : new MuseError(event.code === 1006 ? 'network' : 'unknown', `The live session closed (${event.code}${event.reason ? `: ${event.reason}` : ''}).`)
+        ),
+      },
+    });
+    if (signal?.aborted) {
+      // Given up on while it connected; close it rather than leave a billed session open
+      isClosed = true;
+      session.close();
+      signal.throwIfAborted();
+    }
+
+    const context: Content[] = [...imageSeed(image), ...history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }))];
+    if (context.length) session.sendClientContent({ turns: context, turnComplete: false });
+
+    return {
+      sendAudio: (pcm) => {
+        if (!isClosed) session.sendRealtimeInput({ audio: { data: encodeBase64(pcm), mimeType: 'audio/pcm;rate=16000' } });
+      },
+      close: () => {
+        if (isClosed) return;
+        finish();
+        session.close();
+      },
+    };
+  }
+}
@@ -0,0 +1,6 @@
+// Opening exchange that seeds a chat session with the story's source image.
+export const IMAGE_GROUNDING_PROMPT = "This is the image that inspired the story we are writing together. Refer back to it whenever I ask about what it shows.";
+export const IMAGE_GROUNDING_ACK = "I have the image in front of me. Ask me anything about it or the story.";
+
+// What every tool call is answered with: the app shows it to the user rather than running it.
+export const TOOL_CALL_RESULT = { status: "Shown to the user for review. They will accept or reject it; the next draft you see reflects their choice." };
@@ -0,0 +1,41 @@
+import { ModelConfig } from "../config";
+import { GeminiProvider } from "./geminiProvider";
+import { MockProvider } from "./mockProvider";
+import { OpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { ProxyProvider } from "./proxyProvider";
+import { ModelProvider } from "./types";
+
+export * from "./types";
+
+/** Path the Muse server's endpoints are mounted under; the dev server proxies it. */
+export const API_BASE_PATH = '/api';
+
+/** Builds the provider selected by a configuration. Used server-side, where the keys live. */
+export const createProvider = (config: ModelConfig): ModelProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiProvider(config);
+    case 'openai':
+      return new OpenAICompatibleProvider(config);
+    case 'mock':
+      return new MockProvider(config);
+  }
+};
+
+let activeProvider: ModelProvider | null = null;
+
+/**
+ * Replaces the provider the services talk to. The batch CLI uses this to run a
+ * provider in-process, where it holds the API key itself.
+ */
+export const setProvider = (provider: ModelProvider): void => {
+  activeProvider = provider;
+};
+
+/** The provider the app talks to: the Muse server, so no API key reaches the browser. */
+export const getProvider = (): ModelProvider => {
+  if (!activeProvider) {
+    activeProvider = new ProxyProvider(API_BASE_PATH);
+  }
+  return activeProvider;
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from "vitest";
+import { SafetyThresholds, createProvider } from ".";
+
+const IMAGE = { base64: 'aW1hZ2U=', mimeType: 'image/png' };
+
+const mock = () => createProvider({
+  provider: 'mock',
+  storyModel: 'mock-story',
+  chatModel: 'mock-chat',
+  speechModel: 'mock-tts',
+  imageModel: 'mock-image',
+  liveModel: 'mock-live',
+  voice: 'mock',
+  apiKey: '',
+  baseUrl: '',
+  chatTokenBudget: 32000,
+});
+
+const collect = async (chunks: AsyncIterable<string>) => {
+  let text = '';
+  for await (const chunk of chunks) text += chunk;
+  return text;
+};
+
+// The mock streams word by word with a pause between, which fake timers skip
+const collectNow = async (chunks: AsyncIterable<string>) => {
+  vi.useFakeTimers();
+  try {
+    const text = collect(chunks);
+    await vi.runAllTimersAsync();
+    return await text;
+  } finally {
+    vi.useRealTimers();
+  }
+};
+
+describe('MockProvider', () => {
+  it('writes the same story for the same image and prompt', async () => {
+    const onUsage = vi.fn();
+    const first = await collectNow(mock().streamStory({ image: IMAGE, prompt: 'Write a story.', onUsage }));
+    const second = await collectNow(mock().streamStory({ image: IMAGE, prompt: 'Write a story.' }));
+
+    expect(first).toBe(second);
+    expect(first.split('\n\n')).toHaveLength(2);
+    expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ model: 'mock-story' }));
+  });
+
+  it('answers structured requests in the shape of the schema', async () => {
+    const result = await mock().generateStructured({
+      prompt: 'Describe the scene.',
+      schema: {
+        type: 'object',
+        properties: {
+          mood: { type: 'string', enum: ['calm', 'tense'] },
+          palette: { type: 'array', items: { type: 'string', description: 'Hex colour' } },
+          count: { type: 'integer' },
+        },
+      },
+    }) as { mood: string; palette: string[]; count: number };
+
+    expect(['calm', 'tense']).toContain(result.mood);
+    expect(result.palette.every(colour => /^#[0-9a-f]{6}$/.test(colour))).toBe(true);
+    expect(Number.isInteger(result.count)).toBe(true);
+  });
+
+  it('stops streaming when aborted', async () => {
+    const controller = new AbortController();
+    const chunks = mock().streamStory({ image: IMAGE, prompt: 'Write a story.', signal: controller.signal });
+    controller.abort();
+    await expect(collect(chunks)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('blocks prompts its stand-in filter rates at or above the threshold', async () => {
+    const request = (safety: SafetyThresholds) => mock().generateStructured({ prompt: 'The keeper hid the bomb.', schema: { type: 'object', properties: {} }, safety });
+
+    await expect(request({ 'dangerous-content': 'medium' })).rejects.toMatchObject({ kind: 'safety', category: 'dangerous-content' });
+    await expect(request({ 'dangerous-content': 'high' })).resolves.toBeDefined();
+    await expect(request({ 'harassment': 'low' })).resolves.toBeDefined();
+    await expect(request({})).resolves.toBeDefined();
+  });
+});
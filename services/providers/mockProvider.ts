@@ -0,0 +1,329 @@
+import { ModelConfig } from "../config";
+import { MuseError } from "../errors";
+import { abortableDelay } from "../../utils/abort";
+import { AUDIO_TOKENS_PER_SECOND, estimateTextTokens, estimateTokens, estimateUsage } from "./tokens";
+import {
+  ChatStartOptions,
+  CountTokensRequest,
+  HarmCategory,
+  ImageGenerationRequest,
+  InlineImage,
+  JsonSchema,
+  LiveSession,
+  LiveSessionOptions,
+  ModelProvider,
+  ProviderChat,
+  SafetyThreshold,
+  SafetyThresholds,
+  SpeechRequest,
+  StoryRequest,
+  StructuredRequest,
+  ToolCall,
+  ToolDeclaration,
+} from "./types";
+
+const SAMPLE_RATE = 24000;
+const LIVE_INPUT_SAMPLE_RATE = 16000;
+const STREAM_DELAY_MS = 25;
+// What Gemini bills for one generated image
+const IMAGE_OUTPUT_TOKENS = 1290;
+
+// A stand-in safety filter, so blocked responses can be tried offline: these words are rated
+// at a fixed likelihood of harm and blocked when the request's threshold for them is that strict
+const MOCK_HARM_RATINGS: [RegExp, HarmCategory, SafetyThreshold][] = [
+  [/\b(blood|weapons?|bombs?)\b/i, 'dangerous-content', 'medium'],
+  [/\b(idiot|stupid|loser)\b/i, 'harassment', 'medium'],
+  [/\bhate\b/i, 'hate-speech', 'low'],
+  [/\b(kiss|kissed|naked)\b/i, 'sexually-explicit', 'low'],
+];
+
+// Thresholds from the most to the least permissive of those that block anything
+const STRICTNESS: SafetyThreshold[] = ['high', 'medium', 'low'];
+
+const assertMockSafe = (text: string, safety: SafetyThresholds = {}): void => {
+  for (const [pattern, category, likelihood] of MOCK_HARM_RATINGS) {
+    const threshold = safety[category];
+    if (threshold && STRICTNESS.indexOf(threshold) >= STRICTNESS.indexOf(likelihood) && pattern.test(text)) {
+      throw new MuseError('safety', `The response was blocked (mock ${category} filter).`, { category });
+    }
+  }
+};
+
+const SETTINGS = [
+  'a fog-bound harbour town',
+  'an abandoned observatory on a hill',
+  'a night market lit by paper lanterns',
+  'a forest where the snow never settles',
+];
+
+const OPENINGS = [
+  'Nobody in {setting} remembered who had lit the first lamp, but everyone knew who would put out the last.',
+  'The air in {setting} tasted of rain that had not yet fallen, and Mara had learned to trust that taste.',
+  'Three bells rang across {setting} that evening, one more than the old keeper had ever allowed.',
+  'In {setting}, the shadows stretched long and patient, as if they were waiting to be asked a question.',
+];
+
+const CHAT_REPLIES = [
+  'What if the quiet figure at the edge of the scene has been waiting for someone who never arrived?',
+  'Try leaning on the light: let a single detail in the image become the clue that drives the next scene.',
+  'A good next beat would be an interruption — a sound, a knock, a letter — that forces your protagonist to choose.',
+  'Consider revealing a little of the setting\'s history through an object your character picks up.',
+];
+
+const MOCK_SCENE = 'Later, when the lamps had burned low, a knock came at the door. Nobody moved to answer it, and yet it swung open all the same.';
+
+// Recognises the co-author's two simplest requests so edit proposals can be tried offline
+const mockToolCalls = (message: string, tools: ToolDeclaration[] = []): ToolCall[] => {
+  const offered = new Set(tools.map(tool => tool.name));
+  const rename = /\brename\s+(?:the\s+)?(.+?)\s+to\s+(.+?)[.!?]*$/i.exec(message.trim());
+  if (rename && offered.has('rename_character')) {
+    return [{ name: 'rename_character', args: { old_name: rename[1], new_name: rename[2] } }];
+  }
+  if (/\b(add|append|write)\b.*\bscene\b/i.test(message) && offered.has('append_scene')) {
+    return [{ name: 'append_scene', args: { text: MOCK_SCENE } }];
+  }
+  return [];
+};
+
+// The stand-in live session hears speech by loudness alone: a turn ends after a pause
+const SPEECH_LEVEL = 0.02; // RMS, as a fraction of full scale
+const MIN_SPEECH_SECONDS = 0.3;
+const END_OF_TURN_SECONDS = 0.7;
+const LIVE_WORD_MS = 250; // How fast the mock co-author talks
+
+/** A soft tone of the given length, pitched by the text so different words sound different. */
+const mockTone = (text: string, seconds: number): Uint8Array => {
+  const pcm = new Int16Array(Math.max(1, Math.floor(seconds * SAMPLE_RATE)));
+  const frequency = 220 + (hash(text) % 220);
+  for (let i = 0; i < pcm.length; i++) {
+    pcm[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * 0.2 * 32767);
+  }
+  return new Uint8Array(pcm.buffer);
+};
+
+const FAKE_WORDS = [
+  'weathered', 'amber dusk', 'lantern', 'quiet harbour', 'the cartographer', 'mist',
+  'copper light', 'overgrown stairway', 'melancholy', 'a stray cat', 'mystery', 'fairy tale',
+];
+
+const FAKE_COLOURS = ['#2f3e46', '#cad2c5', '#e09f3e', '#9e2a2b', '#335c67', '#fff3b0'];
+
+/** FNV-1a, good enough to turn any input into a stable index. */
+const hash = (input: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const pick = <T>(items: T[], seed: number): T => items[seed % items.length];
+
+/**
+ * A simple landscape in two colours picked from the prompt, as an SVG. Stands in for a
+ * generated illustration: the same prompt always draws the same picture.
+ */
+const mockIllustration = (seed: number): InlineImage => {
+  const sky = pick(FAKE_COLOURS, seed);
+  const land = pick(FAKE_COLOURS, (seed >>> 4) + 1);
+  const sunX = 120 + (seed % 560);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="600" viewBox="0 0 800 600">
+<defs><linearGradient id="sky" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="${sky}"/><stop offset="1" stop-color="#ffffff"/></linearGradient></defs>
+<rect width="800" height="600" fill="url(#sky)"/>
+<circle cx="${sunX}" cy="150" r="60" fill="#fff3b0" opacity="0.9"/>
+<path d="M0 420 Q200 ${300 + (seed % 80)} 400 400 T800 ${360 + ((seed >>> 8) % 80)} V600 H0 Z" fill="${land}"/>
+<path d="M0 500 Q250 ${430 + ((seed >>> 12) % 60)} 500 500 T800 480 V600 H0 Z" fill="${land}" opacity="0.6"/>
+<text x="400" y="570" font-family="sans-serif" font-size="20" fill="#ffffff" text-anchor="middle">mock illustration</text>
+</svg>`;
+  return { base64: btoa(svg), mimeType: 'image/svg+xml' };
+};
+
+/**
+ * Builds a plausible value for any schema, seeded so it never changes between runs.
+ * Strings described as hex colours get colours; everything else draws from a word list.
+ */
+const fakeFromSchema = (schema: JsonSchema, seed: number): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, child]) => [key, fakeFromSchema(child, hash(`${seed}:${key}`))])
+      );
+    case 'array':
+      return schema.items
+        ? [0, 1, 2].map(i => fakeFromSchema(schema.items!, hash(`${seed}:${i}`)))
+        : [];
+    case 'string':
+      if (schema.enum?.length) return pick(schema.enum, seed);
+      if (/hex/i.test(schema.description || '')) return pick(FAKE_COLOURS, seed);
+      return pick(FAKE_WORDS, seed);
+    case 'number':
+    case 'integer':
+      return seed % 10;
+    case 'boolean':
+      return seed % 2 === 0;
+  }
+};
+
+/**
+ * Deterministic, offline stand-in for a real model.
+ * The same inputs always produce the same outputs, so the app can be developed,
+ * demoed and tested without an API key or network access.
+ */
+export class MockProvider implements ModelProvider {
+  readonly id = 'mock' as const;
+
+  constructor(private readonly config: ModelConfig) {}
+
+  get storyModel(): string {
+    return this.config.storyModel;
+  }
+
+  get chatTokenBudget(): number {
+    return this.config.chatTokenBudget;
+  }
+
+  async *streamStory({ image, prompt, variation, safety, signal, onUsage }: StoryRequest): AsyncIterable<string> {
+    assertMockSafe(prompt, safety);
+    const seed = hash(`${image.base64}${prompt}${variation?.seed ?? ''}`);
+    const setting = pick(SETTINGS, seed);
+    const opening = pick(OPENINGS, seed >>> 3).replace('{setting}', setting);
+    const story = `${opening} The light fell at a slant, picking out details that seemed placed there on purpose: a worn step, a half-open door, a colour that did not belong.\n\nSomewhere beyond the edge of what could be seen, something had already begun to move, and the scene held its breath as if it knew.`;
+
+    // Stream word by word with a small pause so the live rendering is visible.
+    for (const word of story.match(/\S+\s*/g) || []) {
+      await abortableDelay(STREAM_DELAY_MS, signal);
+      yield word;
+    }
+    onUsage?.(estimateUsage(this.config.storyModel, { image, text: prompt }, story));
+  }
+
+  async generateStructured({ image, prompt, schema, safety, signal, onUsage }: StructuredRequest): Promise<unknown> {
+    await abortableDelay(STREAM_DELAY_MS, signal);
+    assertMockSafe(prompt, safety);
+    const result = fakeFromSchema(schema, hash((image?.base64 || '') + prompt));
+    onUsage?.(estimateUsage(this.config.storyModel, { image, text: prompt }, JSON.stringify(result)));
+    return result;
+  }
+
+  startChat({ image, history = [] }: ChatStartOptions): ProviderChat {
+    let turns = history.length;
+    const imageSeed = image ? hash(image.base64) : 0;
+
+    return {
+      sendMessage: async ({ message, systemInstruction, tools, safety, signal, onUsage }) => {
+        signal?.throwIfAborted();
+        assertMockSafe(message, safety);
+        const toolCalls = mockToolCalls(message, tools);
+        const text = toolCalls.length
+          ? "I've suggested a change to the draft. Have a look and accept it if it works for you."
+          : pick(CHAT_REPLIES, hash(`${imageSeed}:${turns}:${message}`));
+        turns += 2;
+        onUsage?.(estimateUsage(this.config.chatModel, { image, text: systemInstruction + message }, text));
+        return { text, toolCalls };
+      },
+    };
+  }
+
+  async countTokens(request: CountTokensRequest): Promise<number> {
+    request.signal?.throwIfAborted();
+    return estimateTokens(request);
+  }
+
+  async generateSpeech({ text, signal, onUsage }: SpeechRequest): Promise<Uint8Array | null> {
+    signal?.throwIfAborted();
+    // A tone whose length follows the text, roughly 0.3s per word.
+    const words = text.split(/\s+/).filter(Boolean).length;
+    const pcm = mockTone(text, Math.min(words * 0.3, 60));
+    onUsage?.({
+      model: this.config.speechModel,
+      inputTokens: estimateTextTokens(text),
+      outputTokens: 0,
+      audioTokens: Math.ceil((pcm.byteLength / 2 / SAMPLE_RATE) * AUDIO_TOKENS_PER_SECOND),
+    });
+    return pcm;
+  }
+
+  async generateImage({ prompt, reference, safety, signal, onUsage }: ImageGenerationRequest): Promise<InlineImage | null> {
+    await abortableDelay(STREAM_DELAY_MS * 20, signal);
+    assertMockSafe(prompt, safety);
+    onUsage?.({ ...estimateUsage(this.config.imageModel, { image: reference, text: prompt }), outputTokens: IMAGE_OUTPUT_TOKENS });
+    return mockIllustration(hash(`${reference?.base64 || ''}${prompt}`));
+  }
+
+  /**
+   * A stand-in live session for trying voice mode offline. It can't understand speech:
+   * a turn is any stretch of sound followed by a pause, and the reply is one of the chat
+   * replies, spoken as tones word by word. Sound during a reply interrupts it.
+   */
+  async connectLive({ systemInstruction, image, history = [], onEvent, onClose, onUsage, signal }: LiveSessionOptions): Promise<LiveSession> {
+    await abortableDelay(STREAM_DELAY_MS, signal);
+    const imageSeed = image ? hash(image.base64) : 0;
+    let turns = history.length;
+    let isClosed = false;
+    let speech = 0; // Seconds of sound in the user's current turn
+    let silence = 0; // Seconds of quiet since it
+    let reply: AbortController | null = null;
+
+    const respond = async (heard: number) => {
+      const controller = new AbortController();
+      reply = controller;
+      const text = pick(CHAT_REPLIES, hash(`${imageSeed}:${turns}`));
+      turns += 2;
+      onEvent({ type: 'transcript', role: 'user', text: `[${heard.toFixed(1)} seconds of speech]` });
+
+      let spoken = '';
+      try {
+        for (const word of text.match(/\S+\s*/g) || []) {
+          await abortableDelay(LIVE_WORD_MS, controller.signal);
+          spoken += word;
+          onEvent({ type: 'transcript', role: 'model', text: word });
+          onEvent({ type: 'audio', pcm: mockTone(word, LIVE_WORD_MS / 1000) });
+        }
+        onEvent({ type: 'turn-complete' });
+      } catch {
+        // Interrupted or closed; whatever was said so far still counts
+      } finally {
+        if (reply === controller) reply = null;
+        onUsage?.({
+          ...estimateUsage(this.config.liveModel, { image, text: systemInstruction }, spoken),
+          audioTokens: Math.ceil((spoken.split(/\s+/).filter(Boolean).length * LIVE_WORD_MS / 1000) * AUDIO_TOKENS_PER_SECOND),
+        });
+      }
+    };
+
+    return {
+      sendAudio: (pcm) => {
+        if (isClosed) return;
+        const samples = new Int16Array(pcm.buffer, pcm.byteOffset, pcm.byteLength >> 1);
+        const seconds = samples.length / LIVE_INPUT_SAMPLE_RATE;
+        let sumOfSquares = 0;
+        for (const sample of samples) sumOfSquares += sample * sample;
+
+        if (Math.sqrt(sumOfSquares / (samples.length || 1)) / 32768 >= SPEECH_LEVEL) {
+          if (reply) {
+            reply.abort();
+            reply = null;
+            onEvent({ type: 'interrupted' });
+            onEvent({ type: 'turn-complete' });
+          }
+          speech += seconds;
+          silence = 0;
+        } else if (speech > 0) {
+          silence += seconds;
+          if (silence >= END_OF_TURN_SECONDS) {
+            if (speech >= MIN_SPEECH_SECONDS) respond(speech);
+            speech = 0;
+            silence = 0;
+          }
+        }
+      },
+      close: () => {
+        if (isClosed) return;
+        isClosed = true;
+        reply?.abort();
+        onClose();
+      },
+    };
+  }
+}
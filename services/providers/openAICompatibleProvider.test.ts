@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { OpenAICompatibleProvider } from "./openAICompatibleProvider";
+
+const provider = new OpenAICompatibleProvider({
+  provider: 'openai',
+  storyModel: 'llava',
+  chatModel: 'llava',
+  speechModel: 'tts-1',
+  imageModel: 'gpt-image-1',
+  liveModel: '',
+  voice: 'alloy',
+  apiKey: 'key',
+  baseUrl: 'http://images.test/v1/',
+  chatTokenBudget: 32000,
+});
+
+const json = (body: unknown) => new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+
+// Answers each request by its URL
+const stubFetch = (responses: Record<string, () => Response>) => {
+  const fetch = vi.fn(async (url: string, _init?: RequestInit) => responses[url]());
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('OpenAICompatibleProvider.generateImage', () => {
+  it('uses the base64 image in the response', async () => {
+    stubFetch({ 'http://images.test/v1/images/generations': () => json({ data: [{ b64_json: 'iVBORw==' }] }) });
+    const onUsage = vi.fn();
+
+    expect(await provider.generateImage({ prompt: 'A lighthouse', onUsage })).toEqual({ base64: 'iVBORw==', mimeType: 'image/png' });
+    expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ model: 'gpt-image-1' }));
+  });
+
+  it('downloads the image when the response links to it', async () => {
+    const fetch = stubFetch({
+      'http://images.test/v1/images/generations': () => json({ data: [{ url: 'https://cdn.test/image.webp' }] }),
+      'https://cdn.test/image.webp': () => new Response(new Uint8Array([1, 2, 3]), { headers: { 'Content-Type': 'image/webp' } }),
+    });
+
+    expect(await provider.generateImage({ prompt: 'A lighthouse' })).toEqual({ base64: 'AQID', mimeType: 'image/webp' });
+    // Not sent with response_format, which gpt-image models reject
+    expect(JSON.parse(fetch.mock.calls[0][1]!.body as string)).toEqual({ model: 'gpt-image-1', prompt: 'A lighthouse', n: 1 });
+  });
+
+  it('fails with the status of a download that fails', async () => {
+    stubFetch({
+      'http://images.test/v1/images/generations': () => json({ data: [{ url: 'https://cdn.test/gone.png' }] }),
+      'https://cdn.test/gone.png': () => new Response('', { status: 503 }),
+    });
+
+    await expect(provider.generateImage({ prompt: 'A lighthouse' })).rejects.toMatchObject({ name: 'MuseError', status: 503 });
+  });
+
+  it('returns null when no image came back', async () => {
+    stubFetch({ 'http://images.test/v1/images/generations': () => json({ data: [] }) });
+    expect(await provider.generateImage({ prompt: 'A lighthouse' })).toBeNull();
+  });
+});
@@ -0,0 +1,312 @@
+import { ModelConfig } from "../config";
+import { MuseError, kindFromStatus } from "../errors";
+import { encodeBase64 } from "../../utils/audioUtils";
+import { IMAGE_GROUNDING_ACK, IMAGE_GROUNDING_PROMPT, TOOL_CALL_RESULT } from "./grounding";
+import { addUsage, estimateTextTokens, estimateTokens, estimateUsage } from "./tokens";
+import {
+  ChatStartOptions,
+  CountTokensRequest,
+  ImageGenerationRequest,
+  InlineImage,
+  LiveSession,
+  ModelProvider,
+  ModelUsage,
+  ProviderChat,
+  SpeechRequest,
+  StoryRequest,
+  StructuredRequest,
+  ToolDeclaration,
+} from "./types";
+
+type ChatMessageContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+interface ChatCompletionToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type ChatCompletionMessage =
+  | { role: 'system' | 'user' | 'assistant'; content: ChatMessageContent; tool_calls?: ChatCompletionToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+const imageUrlPart = (image: InlineImage) => ({
+  type: 'image_url' as const,
+  image_url: { url: `data:${image.mimeType};base64,${image.base64}` },
+});
+
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null; tool_calls?: ChatCompletionToolCall[] }; finish_reason?: string | null }[];
+  usage?: CompletionUsage | null;
+}
+
+const readUsage = (model: string, usage: CompletionUsage): ModelUsage => ({
+  model,
+  inputTokens: usage.prompt_tokens ?? 0,
+  outputTokens: usage.completion_tokens ?? 0,
+  audioTokens: 0,
+});
+
+const toOpenAITools = (tools: ToolDeclaration[] = []) =>
+  tools.length
+    ? tools.map(({ name, description, parameters }) => ({ type: 'function' as const, function: { name, description, parameters } }))
+    : undefined;
+
+// The REST shape has no per-category safety thresholds, and servers don't say which filter
+// fired, so a filtered answer is only reported as blocked
+const assertNotFiltered = (finishReason?: string | null): void => {
+  if (finishReason === 'content_filter') {
+    throw new MuseError('safety', "The response was blocked by the server's content filter.");
+  }
+};
+
+// Models occasionally emit malformed arguments; treat those as an empty call for the app to reject
+const parseArguments = (raw: string): Record<string, unknown> => {
+  try {
+    const args = JSON.parse(raw);
+    return args && typeof args === 'object' ? args : {};
+  } catch {
+    return {};
+  }
+};
+
+interface ImageGenerationResponse {
+  data?: { b64_json?: string; url?: string }[]; // DALL·E-style servers answer with a URL by default
+  usage?: { input_tokens?: number; output_tokens?: number } | null;
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+  usage?: CompletionUsage | null; // Only on the last chunk, and only from servers that honour include_usage
+}
+
+/**
+ * Talks to any server exposing the OpenAI REST shape (/chat/completions,
+ * /audio/speech, /images/generations): OpenAI itself, Ollama, LM Studio, vLLM and friends.
+ */
+export class OpenAICompatibleProvider implements ModelProvider {
+  readonly id = 'openai' as const;
+
+  constructor(private readonly config: ModelConfig) {}
+
+  get storyModel(): string {
+    return this.config.storyModel;
+  }
+
+  get chatTokenBudget(): number {
+    return this.config.chatTokenBudget;
+  }
+
+  async *streamStory({ image, prompt, variation, signal, onUsage }: StoryRequest): AsyncIterable<string> {
+    const response = await this.post('/chat/completions', {
+      model: this.config.storyModel,
+      stream: true,
+      stream_options: { include_usage: true },
+      temperature: variation?.temperature,
+      seed: variation?.seed,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            imageUrlPart(image),
+            { type: 'text', text: prompt },
+          ],
+        },
+      ],
+    }, signal);
+
+    let story = '';
+    let usage: CompletionUsage | null = null;
+    for await (const payload of readServerSentEvents(response, signal)) {
+      if (payload === '[DONE]') break;
+      const chunk = JSON.parse(payload) as ChatCompletionChunk;
+      usage = chunk.usage || usage;
+      assertNotFiltered(chunk.choices?.[0]?.finish_reason);
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) {
+        story += text;
+        yield text;
+      }
+    }
+    onUsage?.(usage ? readUsage(this.config.storyModel, usage) : estimateUsage(this.config.storyModel, { image, text: prompt }, story));
+  }
+
+  async generateStructured({ image, prompt, schema, signal, onUsage }: StructuredRequest): Promise<unknown> {
+    const response = await this.post('/chat/completions', {
+      model: this.config.storyModel,
+      messages: [
+        {
+          role: 'user',
+          content: [...(image ? [imageUrlPart(image)] : []), { type: 'text', text: prompt }],
+        },
+      ],
+      response_format: { type: 'json_schema', json_schema: { name: 'muse_response', schema } },
+    }, signal);
+    const data = await response.json() as ChatCompletionResponse;
+    const content = data.choices?.[0]?.message?.content || 'null';
+    onUsage?.(data.usage ? readUsage(this.config.storyModel, data.usage) : estimateUsage(this.config.storyModel, { image, text: prompt }, content));
+    assertNotFiltered(data.choices?.[0]?.finish_reason);
+    return JSON.parse(content);
+  }
+
+  startChat({ image, history = [] }: ChatStartOptions): ProviderChat {
+    // The REST API is stateless, so the session keeps the transcript and replays it.
+    const transcript: ChatCompletionMessage[] = [
+      ...(image
+        ? [
+            { role: 'user' as const, content: [imageUrlPart(image), { type: 'text' as const, text: IMAGE_GROUNDING_PROMPT }] },
+            { role: 'assistant' as const, content: IMAGE_GROUNDING_ACK },
+          ]
+        : []),
+      ...history.map(turn => ({ role: turn.role === 'model' ? 'assistant' as const : 'user' as const, content: turn.text })),
+    ];
+
+    return {
+      sendMessage: async ({ message, systemInstruction, tools, signal, onUsage }) => {
+        const userMessage: ChatCompletionMessage = { role: 'user', content: message };
+        const messages: ChatCompletionMessage[] = [{ role: 'system', content: systemInstruction }, ...transcript, userMessage];
+        const openAITools = toOpenAITools(tools);
+        const response = await this.post('/chat/completions', { model: this.config.chatModel, messages, tools: openAITools }, signal);
+        const data = await response.json() as ChatCompletionResponse;
+        const first = data.choices?.[0]?.message;
+        const calls = first?.tool_calls || [];
+        let reply = first?.content || '';
+        // Servers that don't report usage are estimated from the whole replayed transcript
+        const measure = ({ usage }: ChatCompletionResponse, output: string): ModelUsage => usage
+          ? readUsage(this.config.chatModel, usage)
+          : estimateUsage(this.config.chatModel, { image, text: messages.map(m => (typeof m.content === 'string' ? m.content : '')).join('') }, output);
+        let usage = measure(data, reply);
+        if (data.choices?.[0]?.finish_reason === 'content_filter') onUsage?.(usage);
+        assertNotFiltered(data.choices?.[0]?.finish_reason);
+
+        if (calls.length) {
+          // Answer the calls so the model can finish its reply; no further calls this turn
+          messages.push(
+            { role: 'assistant', content: reply, tool_calls: calls },
+            ...calls.map(call => ({ role: 'tool' as const, tool_call_id: call.id, content: JSON.stringify(TOOL_CALL_RESULT) }))
+          );
+          const followUp = await this.post('/chat/completions', {
+            model: this.config.chatModel,
+            messages,
+            tools: openAITools,
+            tool_choice: 'none',
+          }, signal);
+          const followUpData = await followUp.json() as ChatCompletionResponse;
+          const followUpText = followUpData.choices?.[0]?.message?.content || '';
+          usage = addUsage(usage, measure(followUpData, followUpText));
+          if (followUpData.choices?.[0]?.finish_reason === 'content_filter') onUsage?.(usage);
+          assertNotFiltered(followUpData.choices?.[0]?.finish_reason);
+          reply = [reply, followUpText].filter(Boolean).join('\n\n');
+        }
+        onUsage?.(usage);
+
+        transcript.push(userMessage, { role: 'assistant', content: reply });
+        return {
+          text: reply,
+          toolCalls: calls.map(call => ({ name: call.function.name, args: parseArguments(call.function.arguments) })),
+        };
+      },
+    };
+  }
+
+  // The REST shape has no counting endpoint, and local servers use all sorts of tokenizers
+  async countTokens(request: CountTokensRequest): Promise<number> {
+    return estimateTokens(request);
+  }
+
+  async generateSpeech({ text, signal, onUsage }: SpeechRequest): Promise<Uint8Array | null> {
+    // 'pcm' is 24kHz mono signed 16-bit little endian, the same shape Gemini returns.
+    const response = await this.post('/audio/speech', {
+      model: this.config.speechModel,
+      voice: this.config.voice,
+      input: text,
+      response_format: 'pcm',
+    }, signal);
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    // The speech endpoint reports nothing; it is priced by the input text
+    onUsage?.({ model: this.config.speechModel, inputTokens: estimateTextTokens(text), outputTokens: 0, audioTokens: 0 });
+    return bytes.length ? bytes : null;
+  }
+
+  // The JSON endpoint takes no input image, so the reference only reaches the model through the prompt
+  async generateImage({ prompt, signal, onUsage }: ImageGenerationRequest): Promise<InlineImage | null> {
+    const response = await this.post('/images/generations', { model: this.config.imageModel, prompt, n: 1 }, signal);
+    const data = await response.json() as ImageGenerationResponse;
+    onUsage?.({
+      model: this.config.imageModel,
+      inputTokens: data.usage?.input_tokens ?? estimateTextTokens(prompt),
+      outputTokens: data.usage?.output_tokens ?? 0,
+      audioTokens: 0,
+    });
+    const [image] = data.data ?? [];
+    if (image?.b64_json) return { base64: image.b64_json, mimeType: 'image/png' };
+    return image?.url ? this.download(image.url, signal) : null;
+  }
+
+  // Realtime speech has its own protocol that local servers don't offer
+  async connectLive(): Promise<LiveSession> {
+    throw new MuseError('invalid-input', "Voice conversations need the Gemini provider; the OpenAI-compatible provider has no live sessions.");
+  }
+
+  // Rather than asking for base64 with response_format, which gpt-image models reject, links are followed
+  private async download(url: string, signal?: AbortSignal): Promise<InlineImage> {
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new MuseError(kindFromStatus(response.status), `Downloading the generated image failed with ${response.status}.`, {
+        status: response.status,
+      });
+    }
+    const mimeType = (response.headers.get('content-type') || '').split(';')[0].trim() || 'image/png';
+    return { base64: encodeBase64(new Uint8Array(await response.arrayBuffer())), mimeType };
+  }
+
+  private async post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(`${this.config.baseUrl.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      throw new MuseError(kindFromStatus(response.status), `${path} failed with ${response.status}: ${await response.text()}`, {
+        status: response.status,
+      });
+    }
+    return response;
+  }
+}
+
+/** Yields the `data:` payloads of a text/event-stream response body. */
+async function* readServerSentEvents(response: Response, signal?: AbortSignal): AsyncIterable<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  try {
+    while (true) {
+      signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffered += decoder.decode(value, { stream: true });
+
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) yield line.slice(5).trim();
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
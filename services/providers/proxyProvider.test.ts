@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { IMAGE_ID_HEADER, ProxyProvider, UNKNOWN_IMAGE_STATUS } from "./proxyProvider";
+
+const image = { base64: 'AAAA', mimeType: 'image/png' };
+
+const reply = (headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify({ reply: 'Hello', toolCalls: [] }), { headers: { 'Content-Type': 'application/json', ...headers } });
+
+// The request bodies sent, in order, with each answered by the next response given
+const stubServer = (...responses: Response[]) => {
+  const bodies: Record<string, unknown>[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+    bodies.push(JSON.parse(init.body as string));
+    return responses.shift()!;
+  }));
+  return bodies;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('ProxyProvider chat images', () => {
+  it('sends the image once, then the id the server cached it under', async () => {
+    const bodies = stubServer(reply({ [IMAGE_ID_HEADER]: 'cached' }), reply({ [IMAGE_ID_HEADER]: 'cached' }));
+    const chat = new ProxyProvider('/api').startChat({ image });
+
+    await chat.sendMessage({ message: 'One', systemInstruction: 'Be helpful.' });
+    await chat.sendMessage({ message: 'Two', systemInstruction: 'Be helpful.' });
+
+    expect(bodies[0].image).toEqual(image);
+    expect(bodies[1].image).toBeUndefined();
+    expect(bodies[1].imageId).toBe('cached');
+    expect(bodies[1].history).toEqual([{ role: 'user', text: 'One' }, { role: 'model', text: 'Hello' }]);
+  });
+
+  it('sends the image again when the server has forgotten it', async () => {
+    const forgotten = new Response(JSON.stringify({ error: 'Send it again.', kind: 'unknown' }), { status: UNKNOWN_IMAGE_STATUS });
+    const bodies = stubServer(reply({ [IMAGE_ID_HEADER]: 'cached' }), forgotten, reply({ [IMAGE_ID_HEADER]: 'recached' }), reply());
+    const chat = new ProxyProvider('/api').startChat({ image });
+
+    await chat.sendMessage({ message: 'One', systemInstruction: 'Be helpful.' });
+    const { text } = await chat.sendMessage({ message: 'Two', systemInstruction: 'Be helpful.' });
+    await chat.sendMessage({ message: 'Three', systemInstruction: 'Be helpful.' });
+
+    expect(text).toBe('Hello');
+    expect(bodies.map(body => body.imageId ?? (body.image ? 'image' : 'none'))).toEqual(['image', 'cached', 'image', 'recached']);
+  });
+});
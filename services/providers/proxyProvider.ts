@@ -0,0 +1,262 @@
+import { DEFAULT_CHAT_TOKEN_BUDGET } from "../config";
+import { ErrorBody, MuseError, errorFromResponse, fromErrorBody } from "../errors";
+import {
+  ChatReply,
+  ChatStartOptions,
+  ChatTurn,
+  CountTokensRequest,
+  ImageGenerationRequest,
+  InlineImage,
+  LiveEvent,
+  LiveSession,
+  LiveSessionOptions,
+  ModelProvider,
+  ModelUsage,
+  ProviderChat,
+  SafetyThresholds,
+  SpeechRequest,
+  StoryRequest,
+  StructuredRequest,
+  UsageListener,
+} from "./types";
+
+/** Response header the server uses to report which model wrote a story. */
+export const MODEL_HEADER = 'X-Muse-Model';
+/** Response header carrying the call's ModelUsage as JSON, on every route but /story. */
+export const USAGE_HEADER = 'X-Muse-Usage';
+
+/**
+ * Response header with the id the server cached a chat's image under. Later /chat and
+ * /tokens requests send it as `imageId` in place of the image.
+ */
+export const IMAGE_ID_HEADER = 'X-Muse-Image-Id';
+/** Status for an `imageId` the server no longer has, e.g. after a restart; send the image again. */
+export const UNKNOWN_IMAGE_STATUS = 409;
+
+/** One line of the /story response, which streams newline-delimited JSON. */
+export type StoryStreamLine = { text: string } | { usage: ModelUsage } | { error: ErrorBody }; // An error ends the stream
+
+/** Path of the WebSocket endpoint live voice sessions run over. */
+export const LIVE_PATH = '/live';
+
+/**
+ * The first message on a live socket, as JSON. After it the browser only sends
+ * microphone audio, as binary frames of 16kHz mono Int16 PCM.
+ */
+export type LiveSetupFrame = {
+  type: 'setup';
+  systemInstruction: string;
+  image?: InlineImage | null;
+  history?: ChatTurn[];
+  safety?: SafetyThresholds;
+};
+
+/** What the server sends on a live socket as JSON. The model's audio comes as binary frames of 24kHz PCM. */
+export type LiveServerFrame =
+  | Exclude<LiveEvent, { type: 'audio' }>
+  | { type: 'ready' }
+  | { type: 'usage'; usage: ModelUsage }
+  | { type: 'error'; error: ErrorBody }; // The server closes the socket after it
+
+/**
+ * Opens the socket a live session runs over: the browser's WebSocket by default. Anything
+ * with the same interface fits, e.g. the `ws` package's in Node, pointed at a local stand-in.
+ */
+export type LiveSocketFactory = (url: string) => WebSocket;
+
+const reportUsage = (response: Response, onUsage?: UsageListener): void => {
+  const header = response.headers.get(USAGE_HEADER);
+  if (header && onUsage) onUsage(JSON.parse(header) as ModelUsage);
+};
+
+/**
+ * Runs every request through the Muse server (see `server/`), which holds the API
+ * keys and forwards to whichever provider it is configured with.
+ */
+export class ProxyProvider implements ModelProvider {
+  readonly id = 'proxy' as const;
+  // Only known once the server has answered a story request
+  private reportedModel = '';
+  // Only known once the server has counted tokens
+  private reportedBudget = 0;
+  // Ids the server cached images under, so chat turns don't upload them every time
+  private readonly imageIds = new WeakMap<InlineImage, string>();
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly openSocket: LiveSocketFactory = (url) => new WebSocket(url)
+  ) {}
+
+  get storyModel(): string {
+    return this.reportedModel || 'the Muse server';
+  }
+
+  get chatTokenBudget(): number {
+    return this.reportedBudget || DEFAULT_CHAT_TOKEN_BUDGET;
+  }
+
+  async *streamStory({ image, prompt, variation, safety, signal, onUsage }: StoryRequest): AsyncIterable<string> {
+    const response = await this.post('/story', { image, prompt, variation, safety }, signal);
+    this.reportedModel = response.headers.get(MODEL_HEADER) || this.reportedModel;
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    try {
+      while (true) {
+        signal?.throwIfAborted();
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+        for (const line of lines) {
+          if (!line) continue;
+          const parsed = JSON.parse(line) as StoryStreamLine;
+          if ('error' in parsed) throw fromErrorBody(parsed.error);
+          if ('usage' in parsed) onUsage?.(parsed.usage);
+          else if (parsed.text) yield parsed.text;
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  async generateStructured({ image, prompt, schema, safety, signal, onUsage }: StructuredRequest): Promise<unknown> {
+    const response = await this.post('/structured', { image, prompt, schema, safety }, signal);
+    reportUsage(response, onUsage);
+    return response.json();
+  }
+
+  startChat({ image, history = [] }: ChatStartOptions): ProviderChat {
+    // The server is stateless, so the session keeps the transcript and sends it every turn.
+    const transcript: ChatTurn[] = [...history];
+
+    return {
+      sendMessage: async ({ message, systemInstruction, tools, safety, signal, onUsage }) => {
+        const response = await this.postWithImage('/chat', image, { history: transcript, message, systemInstruction, tools, safety }, signal);
+        reportUsage(response, onUsage);
+        const { reply, toolCalls = [] } = await response.json() as { reply: string; toolCalls?: ChatReply['toolCalls'] };
+        transcript.push({ role: 'user', text: message }, { role: 'model', text: reply });
+        return { text: reply, toolCalls };
+      },
+    };
+  }
+
+  async countTokens({ image, systemInstruction, turns, signal }: CountTokensRequest): Promise<number> {
+    const response = await this.postWithImage('/tokens', image, { systemInstruction, history: turns }, signal);
+    const { tokens, budget } = await response.json() as { tokens: number; budget: number };
+    this.reportedBudget = budget || this.reportedBudget;
+    return tokens;
+  }
+
+  async generateSpeech({ text, signal, onUsage }: SpeechRequest): Promise<Uint8Array | null> {
+    const response = await this.post('/speech', { text }, signal);
+    reportUsage(response, onUsage);
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return bytes.length ? bytes : null;
+  }
+
+  async generateImage({ prompt, reference, safety, signal, onUsage }: ImageGenerationRequest): Promise<InlineImage | null> {
+    const response = await this.post('/illustration', { prompt, reference, safety }, signal);
+    reportUsage(response, onUsage);
+    const { image } = await response.json() as { image: InlineImage | null };
+    return image;
+  }
+
+  connectLive({ systemInstruction, image, history = [], safety, onEvent, onClose, onUsage, signal }: LiveSessionOptions): Promise<LiveSession> {
+    return new Promise((resolve, reject) => {
+      signal?.throwIfAborted();
+      const socket = this.openSocket(this.liveUrl());
+      socket.binaryType = 'arraybuffer';
+      let isReady = false;
+      let isClosed = false;
+
+      // Until the server says the session is ready, failures reject the connection instead
+      const finish = (error?: Error) => {
+        if (isClosed) return;
+        isClosed = true;
+        signal?.removeEventListener('abort', abort);
+        socket.close(1000);
+        if (isReady) onClose(error);
+        else reject(error ?? new MuseError('network', "The live session closed before it started."));
+      };
+      const abort = () => finish(signal?.reason);
+      signal?.addEventListener('abort', abort, { once: true });
+
+      socket.onopen = () => {
+        const setup: LiveSetupFrame = { type: 'setup', systemInstruction, image, history, safety };
+        socket.send(JSON.stringify(setup));
+      };
+      socket.onmessage = ({ data }) => {
+        if (typeof data !== 'string') {
+          onEvent({ type: 'audio', pcm: new Uint8Array(data as ArrayBuffer) });
+          return;
+        }
+        const frame = JSON.parse(data) as LiveServerFrame;
+        if (frame.type === 'ready') {
+          isReady = true;
+          signal?.removeEventListener('abort', abort);
+          resolve({
+            sendAudio: (pcm) => {
+              if (!isClosed) socket.send(pcm);
+            },
+            close: () => finish(),
+          });
+        } else if (frame.type === 'usage') {
+          onUsage?.(frame.usage);
+        } else if (frame.type === 'error') {
+          finish(fromErrorBody(frame.error));
+        } else {
+          onEvent(frame);
+        }
+      };
+      socket.onclose = ({ code }) => finish(code === 1000 ? undefined : new MuseError('network', "Lost the connection to the live session."));
+    });
+  }
+
+  // WebSockets need an absolute ws: URL, so a relative base is resolved against the page
+  private liveUrl(): string {
+    const url = new URL(`${this.baseUrl}${LIVE_PATH}`, globalThis.location?.href);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    return url.href;
+  }
+
+  // Names the image by the id the server cached it under once it has one, falling back
+  // to sending it in full if the server has since forgotten it
+  private async postWithImage(
+    path: string,
+    image: InlineImage | null | undefined,
+    body: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const imageId = image && this.imageIds.get(image);
+    let response: Response;
+    try {
+      response = await this.post(path, imageId ? { ...body, imageId } : { ...body, image }, signal);
+    } catch (error) {
+      if (!image || !imageId || !(error instanceof MuseError) || error.status !== UNKNOWN_IMAGE_STATUS) throw error;
+      this.imageIds.delete(image);
+      return this.postWithImage(path, image, body, signal);
+    }
+    const cachedId = response.headers.get(IMAGE_ID_HEADER);
+    if (image && cachedId) this.imageIds.set(image, cachedId);
+    return response;
+  }
+
+  private async post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      throw await errorFromResponse(response, `${path} failed with ${response.status}`);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,31 @@
+import { CountTokensRequest, ModelUsage } from "./types";
+
+// Roughly what Gemini charges for one image, and a typical English characters-per-token ratio
+const IMAGE_TOKENS = 258;
+const CHARS_PER_TOKEN = 4;
+/** Gemini bills generated speech at 25 tokens per second of audio. */
+export const AUDIO_TOKENS_PER_SECOND = 25;
+
+export const estimateTextTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Token count for providers without a counting endpoint. Close enough to budget with.
+ */
+export const estimateTokens = ({ image, systemInstruction = '', turns }: CountTokensRequest): number =>
+  (image ? IMAGE_TOKENS : 0) + estimateTextTokens(systemInstruction + turns.map(turn => turn.text).join(''));
+
+/** Usage of an image (or none) plus some text, for providers that don't report it. */
+export const estimateUsage = (model: string, input: { image?: unknown; text: string }, output = ''): ModelUsage => ({
+  model,
+  inputTokens: (input.image ? IMAGE_TOKENS : 0) + estimateTextTokens(input.text),
+  outputTokens: estimateTextTokens(output),
+  audioTokens: 0,
+});
+
+/** Combines the usage of several calls to the same model. */
+export const addUsage = (a: ModelUsage, b: ModelUsage): ModelUsage => ({
+  model: a.model,
+  inputTokens: a.inputTokens + b.inputTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  audioTokens: a.audioTokens + b.audioTokens,
+});
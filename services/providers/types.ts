@@ -0,0 +1,192 @@
+import { ProviderId } from '../config';
+
+export interface InlineImage {
+  base64: string; // Raw base64, without the data URL header
+  mimeType: string;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/** Sampling overrides, used to get different takes on the same prompt. */
+export interface Variation {
+  temperature?: number;
+  seed?: number;
+}
+
+/** Tokens one model call used, as the API reported them (or estimated where it doesn't). */
+export interface ModelUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number; // Text output, including any thinking
+  audioTokens: number; // Audio output, which is priced separately
+}
+
+/** Kinds of harm a provider's safety filter judges content on. */
+export type HarmCategory = 'harassment' | 'hate-speech' | 'sexually-explicit' | 'dangerous-content';
+
+/**
+ * How readily content in a category is blocked: at a low, medium or high likelihood
+ * of harm and above, never, or however the provider decides by default.
+ */
+export type SafetyThreshold = 'default' | 'none' | 'high' | 'medium' | 'low';
+
+/** Per-category thresholds for one call; categories left out use the provider's default. */
+export type SafetyThresholds = Partial<Record<HarmCategory, SafetyThreshold>>;
+
+/** Called when a call finishes with what it used; calls that fail part way may never report. */
+export type UsageListener = (usage: ModelUsage) => void;
+
+export interface StoryRequest {
+  image: InlineImage;
+  prompt: string;
+  variation?: Variation;
+  safety?: SafetyThresholds;
+  signal?: AbortSignal;
+  onUsage?: UsageListener;
+}
+
+/** The subset of JSON Schema that every provider can honour for structured output. */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+export interface StructuredRequest {
+  image?: InlineImage | null;
+  prompt: string;
+  schema: JsonSchema;
+  safety?: SafetyThresholds;
+  signal?: AbortSignal;
+  onUsage?: UsageListener;
+}
+
+export interface ChatStartOptions {
+  /** Image the conversation is grounded in, sent once at the start of the session. */
+  image?: InlineImage | null;
+  history?: ChatTurn[];
+}
+
+/** A function the chat model may call alongside its reply. */
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface ToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ChatSendRequest {
+  message: string;
+  /** Re-sent with every turn so context changes (e.g. draft edits) are picked up. */
+  systemInstruction: string;
+  tools?: ToolDeclaration[];
+  safety?: SafetyThresholds;
+  signal?: AbortSignal;
+  /** Reports once per turn, including any follow-up the provider made to answer tool calls. */
+  onUsage?: UsageListener;
+}
+
+/**
+ * The model's answer to one turn. Tool calls are proposals for the app to act on;
+ * providers acknowledge them to the model themselves, so `text` is always the final word.
+ */
+export interface ChatReply {
+  text: string;
+  toolCalls: ToolCall[];
+}
+
+/** A multi-turn conversation that keeps its own history between turns. */
+export interface ProviderChat {
+  sendMessage(request: ChatSendRequest): Promise<ChatReply>;
+}
+
+/** A chat context to measure: what would be sent for the next turn. */
+export interface CountTokensRequest {
+  image?: InlineImage | null;
+  systemInstruction?: string;
+  turns: ChatTurn[];
+  signal?: AbortSignal;
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  /** Image whose style and characters the new one should match. Not every provider can use it. */
+  reference?: InlineImage | null;
+  safety?: SafetyThresholds;
+  signal?: AbortSignal;
+  onUsage?: UsageListener;
+}
+
+export interface SpeechRequest {
+  text: string;
+  signal?: AbortSignal;
+  onUsage?: UsageListener;
+}
+
+/** Something that happened in a live voice session. */
+export type LiveEvent =
+  | { type: 'audio'; pcm: Uint8Array } // The model speaking: 24kHz mono Int16 PCM, to play as it arrives
+  | { type: 'transcript'; role: 'user' | 'model'; text: string } // More words of the current turn, to append
+  | { type: 'interrupted' } // The user spoke over the reply; drop any of its audio not yet played
+  | { type: 'turn-complete' };
+
+export interface LiveSessionOptions {
+  systemInstruction: string;
+  /** Image the conversation is grounded in, sent once at the start of the session. */
+  image?: InlineImage | null;
+  /** Earlier turns, typed or spoken, for the session to carry on from. */
+  history?: ChatTurn[];
+  safety?: SafetyThresholds;
+  onEvent: (event: LiveEvent) => void;
+  /** Called once when the session ends, including through `close`; with the reason if it failed. */
+  onClose: (error?: Error) => void;
+  /** Reports after every turn, so a long session is metered as it goes. */
+  onUsage?: UsageListener;
+  /** Aborting before the session is ready cancels it; afterwards use `close`. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A spoken conversation in progress. The model listens continuously, decides itself when
+ * the user has finished a turn, and stops talking when the user talks over it.
+ */
+export interface LiveSession {
+  /** Streams microphone audio: 16kHz mono Int16 PCM, in chunks of any size. */
+  sendAudio(pcm: Uint8Array): void;
+  close(): void;
+}
+
+/**
+ * A backend capable of powering Muse.
+ * Implementations must not touch browser-only APIs so they can also run in Node,
+ * where the Muse server uses them.
+ */
+export interface ModelProvider {
+  readonly id: ProviderId | 'proxy';
+  readonly storyModel: string;
+  /** Tokens the co-author chat may use before older turns are summarized. */
+  readonly chatTokenBudget: number;
+  /** Yields the story text incrementally, chunk by chunk. */
+  streamStory(request: StoryRequest): AsyncIterable<string>;
+  /** Returns the parsed JSON response, shaped by `schema`. */
+  generateStructured(request: StructuredRequest): Promise<unknown>;
+  startChat(options: ChatStartOptions): ProviderChat;
+  /** Tokens the chat model would see for this context; an estimate where the API can't count. */
+  countTokens(request: CountTokensRequest): Promise<number>;
+  /** Returns raw 24kHz mono Int16 PCM, or null when no audio came back. */
+  generateSpeech(request: SpeechRequest): Promise<Uint8Array | null>;
+  /** Returns the generated image, or null when the model answered without one. */
+  generateImage(request: ImageGenerationRequest): Promise<InlineImage | null>;
+  /** Opens a live voice session; resolves once it is ready for audio. */
+  connectLive(options: LiveSessionOptions): Promise<LiveSession>;
+}
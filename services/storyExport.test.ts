@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { StorySession } from "../types";
+import { exportStory, storyToMarkdown } from "./storyExport";
+
+const IMAGE = { base64: 'aW1hZ2U=', mimeType: 'image/png', width: 1, height: 1 };
+
+const session = (extra: Partial<StorySession> = {}): StorySession => ({
+  id: 'story-1',
+  title: 'The <Keeper>',
+  image: IMAGE,
+  generatedText: 'The tide came in.\n\nAnn waited.',
+  messages: [
+    { id: 'a', parentId: null, role: 'model', text: 'Hello!', activeChildId: 'b' },
+    { id: 'b', parentId: 'a', role: 'user', text: 'Who is Ann?', activeChildId: 'c' },
+    { id: 'c', parentId: 'b', role: 'model', text: 'The keeper.' },
+  ],
+  narration: null,
+  createdAt: 0,
+  updatedAt: 0,
+  ...extra,
+});
+
+const OPTIONS = { model: 'mock-story', includeChat: false, includeNarration: false };
+
+describe('storyToMarkdown', () => {
+  it('writes the metadata as front matter and the draft under the cover', () => {
+    const markdown = storyToMarkdown(session(), OPTIONS, 'cover.png');
+
+    expect(markdown).toMatch(/^---\ntitle: "The <Keeper>"\nwritten_with: "mock-story"\n/);
+    expect(markdown).toContain('# The <Keeper>\n\n![Cover image](cover.png)\n\nThe tide came in.\n\nAnn waited.\n');
+    expect(markdown).not.toContain('Appendix');
+  });
+
+  it('adds the chat as an appendix when asked', () => {
+    const markdown = storyToMarkdown(session(), { ...OPTIONS, includeChat: true }, 'cover.png');
+    // The greeting is left out
+    expect(markdown).toContain('## Appendix: Co-author chat\n\n**Author:** Who is Ann?\n\n**Co-author:** The keeper.\n');
+  });
+
+  it('heads each written chapter', () => {
+    const chapters = [
+      { id: '1', image: IMAGE, text: 'First.' },
+      { id: '2', image: IMAGE, text: '' },
+      { id: '3', image: IMAGE, text: 'Third.' },
+    ];
+    const markdown = storyToMarkdown(session({ chapters }), OPTIONS, 'cover.png');
+
+    expect(markdown).toContain('## Chapter 1');
+    expect(markdown).not.toContain('## Chapter 2');
+    expect(markdown).toContain('## Chapter 3');
+  });
+});
+
+describe('exportStory', () => {
+  it('names the file after the title', () => {
+    const file = exportStory(session(), 'html', OPTIONS);
+    expect(file).toMatchObject({ filename: 'the-keeper.html', mimeType: 'text/html' });
+  });
+
+  it('escapes the story in the web page', () => {
+    const html = exportStory(session(), 'html', OPTIONS).data as string;
+    expect(html).toContain('The &lt;Keeper&gt;');
+    expect(html).not.toContain('<Keeper>');
+  });
+
+  it('zips the Markdown with its images', () => {
+    const file = exportStory(session(), 'markdown', OPTIONS);
+    expect(file.filename).toBe('the-keeper.zip');
+    expect(file.data).toBeInstanceOf(Uint8Array);
+  });
+});
@@ -0,0 +1,320 @@
+import { ChatMessage, ImagePayload, StorySession } from "../types";
+import { activePath, transcriptOf } from "../utils/chatTree";
+import { decodeBase64, encodeBase64, encodeMp3 } from "../utils/audioUtils";
+import { slugify, splitParagraphs } from "../utils/text";
+import { createZip } from "../utils/zip";
+import { toDataUrl } from "./imagePreprocessor";
+import { displayTitle } from "./storyLibrary";
+
+export type ExportFormat = 'markdown' | 'html' | 'epub';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'markdown', label: 'Markdown', description: 'A .md file and its images, zipped' },
+  { value: 'html', label: 'Web page', description: 'One .html file with images and narration inside' },
+  { value: 'epub', label: 'EPUB', description: 'An e-book for readers and editors' },
+];
+
+export interface ExportOptions {
+  model: string; // The model that wrote the story, for the metadata
+  templateName?: string;
+  includeChat: boolean; // Add the co-author conversation as an appendix
+  includeNarration: boolean; // Embed the narration (HTML only); false when it no longer matches the draft
+}
+
+export interface ExportedFile {
+  data: Uint8Array | string;
+  filename: string;
+  mimeType: string;
+}
+
+// Story settings only name the language; readers want a code
+const LANGUAGE_CODES: Record<string, string> = {
+  English: 'en',
+  Spanish: 'es',
+  French: 'fr',
+  German: 'de',
+  Italian: 'it',
+  Portuguese: 'pt',
+  Hindi: 'hi',
+  Japanese: 'ja',
+  Chinese: 'zh',
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+/** A run of the story under one image: the whole draft, or one storyboard chapter. */
+interface StorySection {
+  heading: string | null;
+  image: ImagePayload;
+  imagePath: string; // Relative path the image is packaged under
+  paragraphs: string[];
+}
+
+interface ExportDocument {
+  title: string;
+  language: string;
+  metadata: [string, string][];
+  sections: StorySection[];
+  chat: Pick<ChatMessage, 'role' | 'text'>[];
+}
+
+const imagePath = (image: ImagePayload, name: string): string =>
+  `images/${name}.${IMAGE_EXTENSIONS[image.mimeType] || 'img'}`;
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+// Everything the three formats share, read once from the session
+const buildDocument = (session: StorySession, options: ExportOptions): ExportDocument => {
+  const settings = session.settings;
+  const sections: StorySection[] = session.chapters
+    ? session.chapters.flatMap((chapter, i) =>
+        chapter.text.trim()
+          ? [{ heading: `Chapter ${i + 1}`, image: chapter.image, imagePath: imagePath(chapter.image, `chapter-${i + 1}`), paragraphs: splitParagraphs(chapter.text) }]
+          : []
+      )
+    : [{ heading: null, image: session.image, imagePath: imagePath(session.image, 'cover'), paragraphs: splitParagraphs(session.generatedText) }];
+
+  const metadata: [string, string][] = [
+    ['Written with', options.model],
+    ['Created', formatDate(session.createdAt)],
+    ['Exported', formatDate(Date.now())],
+  ];
+  if (settings) {
+    metadata.push(
+      ['Genre', settings.genre],
+      ['Tone', settings.tone],
+      ['Point of view', settings.pointOfView],
+      ['Tense', settings.tense],
+      ['Reading level', settings.readingLevel],
+      ['Language', settings.language],
+      ['Target length', `${settings.targetWords} words`]
+    );
+  }
+  if (options.templateName) metadata.push(['Template', options.templateName]);
+
+  return {
+    title: displayTitle(session),
+    language: LANGUAGE_CODES[settings?.language || ''] || 'en',
+    metadata,
+    sections,
+    chat: options.includeChat ? transcriptOf(activePath(session.messages)) : [],
+  };
+};
+
+const speaker = (role: ChatMessage['role']): string => (role === 'user' ? 'Author' : 'Co-author');
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// Single line breaks inside a paragraph are kept, e.g. for verse or dialogue
+const paragraphHtml = (paragraph: string, selfClosing = false): string =>
+  `<p>${paragraph.split('\n').map(escapeXml).join(selfClosing ? '<br/>' : '<br>')}</p>`;
+
+const toMarkdown = (doc: ExportDocument): string => {
+  const frontMatter = [
+    '---',
+    `title: ${JSON.stringify(doc.title)}`,
+    ...doc.metadata.map(([label, value]) => `${label.toLowerCase().replace(/\s+/g, '_')}: ${JSON.stringify(value)}`),
+    '---',
+  ].join('\n');
+
+  const body = doc.sections.map(section => [
+    ...(section.heading ? [`## ${section.heading}`] : []),
+    `![${section.heading || 'Cover image'}](${section.imagePath})`,
+    ...section.paragraphs,
+  ].join('\n\n'));
+
+  const appendix = doc.chat.length
+    ? [`## Appendix: Co-author chat\n\n${doc.chat.map(turn => `**${speaker(turn.role)}:** ${turn.text}`).join('\n\n')}`]
+    : [];
+
+  return `${[frontMatter, `# ${doc.title}`, ...body, ...appendix].join('\n\n')}\n`;
+};
+
+const HTML_STYLE = `body{max-width:40rem;margin:3rem auto;padding:0 1.25rem;font-family:Georgia,'Times New Roman',serif;line-height:1.7;color:#1f2937}
+h1{font-size:2.25rem;line-height:1.2;margin-bottom:.5rem}h2{margin-top:3rem}
+img{display:block;max-width:100%;height:auto;margin:2rem auto;border-radius:.75rem}
+audio{width:100%;margin:1rem 0}
+dl.meta{display:grid;grid-template-columns:auto 1fr;gap:.25rem 1rem;font-family:system-ui,sans-serif;font-size:.85rem;color:#6b7280}
+dl.meta dt{font-weight:600}dl.meta dd{margin:0}
+section.chat{margin-top:4rem;border-top:1px solid #e5e7eb;font-family:system-ui,sans-serif;font-size:.9rem}
+section.chat .speaker{font-weight:600;color:#4f46e5}`;
+
+const metadataHtml = (doc: ExportDocument): string =>
+  `<dl class="meta">${doc.metadata.map(([label, value]) => `<dt>${escapeXml(label)}</dt><dd>${escapeXml(value)}</dd>`).join('')}</dl>`;
+
+const chatHtml = (doc: ExportDocument, selfClosing = false): string =>
+  doc.chat.map(turn => {
+    const [first = '', ...rest] = splitParagraphs(turn.text).map(p => paragraphHtml(p, selfClosing));
+    return first.replace('<p>', `<p><span class="speaker">${speaker(turn.role)}:</span> `) + rest.join('');
+  }).join('\n');
+
+const toHtml = (doc: ExportDocument, narration: Uint8Array | null): string => {
+  const sections = doc.sections.map(section => `<section>
+${section.heading ? `<h2>${escapeXml(section.heading)}</h2>\n` : ''}<img src="${toDataUrl(section.image)}" alt="${escapeXml(section.heading || 'Cover image')}">
+${section.paragraphs.map(p => paragraphHtml(p)).join('\n')}
+</section>`);
+
+  return `<!DOCTYPE html>
+<html lang="${doc.language}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="Muse">
+<title>${escapeXml(doc.title)}</title>
+<style>
+${HTML_STYLE}
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeXml(doc.title)}</h1>
+${metadataHtml(doc)}
+${narration ? `<audio controls src="data:audio/mpeg;base64,${encodeBase64(encodeMp3(narration))}"></audio>` : ''}
+</header>
+<main>
+${sections.join('\n')}
+</main>
+${doc.chat.length ? `<section class="chat">\n<h2>Appendix: Co-author chat</h2>\n${chatHtml(doc)}\n</section>` : ''}
+</body>
+</html>
+`;
+};
+
+const xhtmlPage = (doc: ExportDocument, title: string, body: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${doc.language}" lang="${doc.language}">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+// EPUB 3: a stored `mimetype` first, the container pointing at the package, then the book itself
+const toEpub = (doc: ExportDocument, sessionId: string): Uint8Array => {
+  const pages = [
+    {
+      id: 'title',
+      file: 'title.xhtml',
+      title: doc.title,
+      body: `<section epub:type="titlepage">\n<h1>${escapeXml(doc.title)}</h1>\n${metadataHtml(doc)}\n</section>`,
+    },
+    ...doc.sections.map((section, i) => ({
+      id: `section-${i + 1}`,
+      file: `section-${i + 1}.xhtml`,
+      title: section.heading || doc.title,
+      body: `<section epub:type="chapter">
+${section.heading ? `<h2>${escapeXml(section.heading)}</h2>\n` : ''}<img src="${section.imagePath}" alt="${escapeXml(section.heading || 'Cover image')}"/>
+${section.paragraphs.map(p => paragraphHtml(p, true)).join('\n')}
+</section>`,
+    })),
+    ...(doc.chat.length
+      ? [{
+          id: 'chat',
+          file: 'chat.xhtml',
+          title: 'Appendix: Co-author chat',
+          body: `<section class="chat" epub:type="appendix">\n<h2>Appendix: Co-author chat</h2>\n${chatHtml(doc, true)}\n</section>`,
+        }]
+      : []),
+  ];
+  const images = doc.sections.map((section, i) => ({ id: `image-${i + 1}`, section, cover: i === 0 }));
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+
+  const nav = xhtmlPage(doc, doc.title, `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${pages.map(page => `<li><a href="${page.file}">${escapeXml(page.title)}</a></li>`).join('\n')}
+</ol>
+</nav>`);
+
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${doc.language}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">urn:uuid:${sessionId}</dc:identifier>
+<dc:title>${escapeXml(doc.title)}</dc:title>
+<dc:language>${doc.language}</dc:language>
+<dc:description>${escapeXml(doc.metadata.map(([label, value]) => `${label}: ${value}`).join('. '))}</dc:description>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="style" href="style.css" media-type="text/css"/>
+${pages.map(page => `<item id="${page.id}" href="${page.file}" media-type="application/xhtml+xml"/>`).join('\n')}
+${images.map(({ id, section, cover }) => `<item id="${id}" href="${section.imagePath}" media-type="${section.image.mimeType}"${cover ? ' properties="cover-image"' : ''}/>`).join('\n')}
+</manifest>
+<spine>
+${pages.map(page => `<itemref idref="${page.id}"/>`).join('\n')}
+</spine>
+</package>
+`;
+
+  return createZip([
+    { path: 'mimetype', data: 'application/epub+zip' },
+    {
+      path: 'META-INF/container.xml',
+      data: `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`,
+    },
+    { path: 'OEBPS/content.opf', data: opf },
+    { path: 'OEBPS/nav.xhtml', data: nav },
+    { path: 'OEBPS/style.css', data: HTML_STYLE },
+    ...pages.map(page => ({ path: `OEBPS/${page.file}`, data: xhtmlPage(doc, page.title, page.body) })),
+    ...images.map(({ section }) => ({ path: `OEBPS/${section.imagePath}`, data: decodeBase64(section.image.base64) })),
+  ]);
+};
+
+/**
+ * The story as a standalone Markdown document, for callers that keep the images
+ * themselves. The cover is linked from `coverPath` instead of the zip's `images/` folder.
+ */
+export const storyToMarkdown = (session: StorySession, options: ExportOptions, coverPath: string): string => {
+  const doc = buildDocument(session, options);
+  return toMarkdown({
+    ...doc,
+    sections: doc.sections.map(section => (section.image === session.image ? { ...section, imagePath: coverPath } : section)),
+  });
+};
+
+/**
+ * Packages a story for readers outside Muse: its images, the draft, the metadata it
+ * was written with and, optionally, the co-author chat. Markdown comes zipped with
+ * its images, HTML is a single self-contained page, and EPUB is an EPUB 3 book.
+ */
+export const exportStory = (session: StorySession, format: ExportFormat, options: ExportOptions): ExportedFile => {
+  const doc = buildDocument(session, options);
+  const name = slugify(doc.title);
+
+  switch (format) {
+    case 'markdown':
+      return {
+        data: createZip([
+          { path: `${name}.md`, data: toMarkdown(doc) },
+          ...doc.sections.map(section => ({ path: section.imagePath, data: decodeBase64(section.image.base64) })),
+        ]),
+        filename: `${name}.zip`,
+        mimeType: 'application/zip',
+      };
+    case 'html': {
+      const narration = options.includeNarration && session.narration?.length ? session.narration : null;
+      return { data: toHtml(doc, narration), filename: `${name}.html`, mimeType: 'text/html' };
+    }
+    case 'epub':
+      return { data: toEpub(doc, session.id), filename: `${name}.epub`, mimeType: 'application/epub+zip' };
+  }
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { StorySession } from "../types";
+import { deriveTitle, displayTitle, matchesQuery } from "./storyLibrary";
+
+const session = (title: string, generatedText: string): StorySession => ({
+  id: 'story-1',
+  title,
+  image: { base64: '', mimeType: 'image/png', width: 0, height: 0 },
+  generatedText,
+  messages: [],
+  narration: null,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('deriveTitle', () => {
+  it('takes the first six words, without trailing punctuation', () => {
+    expect(deriveTitle('  The tide came in, slow and grey, over the pier.')).toBe('The tide came in, slow and…');
+    expect(deriveTitle('Rain fell.')).toBe('Rain fell…');
+  });
+
+  it('names an empty story', () => {
+    expect(deriveTitle(' \n ')).toBe('Untitled story');
+  });
+});
+
+describe('displayTitle', () => {
+  it('prefers the title the user gave', () => {
+    expect(displayTitle(session('The Keeper', 'Rain fell.'))).toBe('The Keeper');
+    expect(displayTitle(session('', 'Rain fell.'))).toBe('Rain fell…');
+  });
+});
+
+describe('matchesQuery', () => {
+  it('matches the title or the story, ignoring case', () => {
+    const story = session('The Keeper', 'A lighthouse on the cliff.');
+    expect(matchesQuery(story, 'keeper')).toBe(true);
+    expect(matchesQuery(story, ' LIGHTHOUSE ')).toBe(true);
+    expect(matchesQuery(story, 'harbour')).toBe(false);
+    expect(matchesQuery(story, '  ')).toBe(true);
+  });
+
+  it('matches a derived title', () => {
+    expect(matchesQuery(session('', 'Rain fell.'), 'rain fell…')).toBe(true);
+  });
+});
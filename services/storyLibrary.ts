@@ -0,0 +1,103 @@
+import { StorySession } from "../types";
+import { fromDataUrl } from "./imagePreprocessor";
+import { linkTranscript } from "../utils/chatTree";
+
+const DB_NAME = 'muse-library';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Sessions saved before image preprocessing kept the image as a data URL plus a mime type
+type StoredSession = StorySession & { originalImage?: string; mimeType?: string };
+
+// Older sessions also saved the chat as a flat list rather than a tree
+const upgradeSession = ({ originalImage, mimeType, ...session }: StoredSession): StorySession => ({
+  ...session,
+  image: originalImage && !session.image ? fromDataUrl(originalImage) : session.image,
+  messages: linkTranscript(session.messages),
+});
+
+export const createSessionId = (): string => crypto.randomUUID();
+
+/**
+ * Derives a title from the opening words of the story.
+ */
+export const deriveTitle = (story: string): string => {
+  const words = story.trim().split(/\s+/).filter(Boolean).slice(0, 6);
+  if (!words.length) return 'Untitled story';
+  return words.join(' ').replace(/[.,;:!?]+$/, '') + '…';
+};
+
+/**
+ * The user's title, or one derived from the story when it was never renamed.
+ */
+export const displayTitle = (session: StorySession): string =>
+  session.title || deriveTitle(session.generatedText);
+
+/**
+ * Lists every saved session, most recently updated first.
+ */
+export const listSessions = async (): Promise<StorySession[]> => {
+  const sessions = await runRequest<StoredSession[]>('readonly', store => store.getAll());
+  return sessions.map(upgradeSession).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getSession = async (id: string): Promise<StorySession | undefined> => {
+  const session = await runRequest<StoredSession | undefined>('readonly', store => store.get(id));
+  return session && upgradeSession(session);
+};
+
+export const saveSession = async (session: StorySession): Promise<void> => {
+  await runRequest('readwrite', store => store.put(session));
+};
+
+export const renameSession = async (id: string, title: string): Promise<void> => {
+  const session = await getSession(id);
+  if (!session) return;
+  await saveSession({ ...session, title, updatedAt: Date.now() });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+/**
+ * Case-insensitive match against the title and the story text.
+ */
+export const matchesQuery = (session: StorySession, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return displayTitle(session).toLowerCase().includes(needle)
+    || session.generatedText.toLowerCase().includes(needle);
+};
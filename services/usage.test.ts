@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { UsageBudget } from "../types";
+import { saveModelPrices, saveUsageBudget } from "./preferences";
+import { UsageEvent, clearUsageLog, costOf, dayKey, loadUsageLog, meterCall, priceFor, setUsageSession, subscribeToUsage } from "./usage";
+
+// A dollar a token, so costs are easy to follow
+const PRICES = [{ model: 'test-model', input: 1_000_000, output: 1_000_000, audio: 0 }];
+
+const spend = (dollars: number) => meterCall('chat')({ model: 'test-model', inputTokens: dollars, outputTokens: 0, audioTokens: 0 });
+
+const setBudget = (budget: Partial<UsageBudget>) => saveUsageBudget({ daily: 0, perStory: 0, mode: 'block', ...budget });
+
+beforeEach(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+  clearUsageLog();
+  setUsageSession('story-1');
+  saveModelPrices(PRICES);
+});
+
+afterEach(() => {
+  setUsageSession(null);
+  vi.unstubAllGlobals();
+});
+
+describe('meterCall', () => {
+  it('records the call against the current story', () => {
+    spend(2);
+    expect(loadUsageLog()).toMatchObject([{ kind: 'chat', sessionId: 'story-1', model: 'test-model', inputTokens: 2 }]);
+  });
+
+  it('blocks a call the daily budget has no room for', () => {
+    setBudget({ daily: 5 });
+    spend(2);
+    spend(2);
+    // The next chat is expected to cost what the last ones did: 2 + 2 + 2 > 5
+    expect(() => meterCall('chat')).toThrow(expect.objectContaining({ kind: 'budget', message: expect.stringContaining('daily budget') }));
+    // Other kinds have no history yet, so are expected to be free
+    expect(() => meterCall('speech')).not.toThrow();
+  });
+
+  it('only counts what was spent today', () => {
+    setBudget({ daily: 5 });
+    spend(2);
+    spend(2);
+    vi.useFakeTimers({ now: Date.now() + 24 * 60 * 60 * 1000 });
+    try {
+      expect(() => meterCall('chat')).not.toThrow();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('blocks a call over the story budget, but not on another story', () => {
+    setBudget({ perStory: 3 });
+    spend(2);
+    expect(() => meterCall('chat')).toThrow(expect.objectContaining({ kind: 'budget', message: expect.stringContaining("story's cost") }));
+    setUsageSession('story-2');
+    expect(() => meterCall('chat')).not.toThrow();
+  });
+
+  it('warns instead of blocking in warn mode', () => {
+    const events: UsageEvent[] = [];
+    const unsubscribe = subscribeToUsage(event => events.push(event));
+    try {
+      setBudget({ daily: 1, mode: 'warn' });
+      spend(2);
+      expect(() => meterCall('chat')).not.toThrow();
+      expect(events.map(event => event.type)).toEqual(['recorded', 'over-budget']);
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  it('never stops a call without a budget', () => {
+    spend(100);
+    expect(() => meterCall('chat')).not.toThrow();
+  });
+});
+
+describe('pricing', () => {
+  const prices = [
+    { model: 'gemini-2.5-flash-preview-tts', input: 0.5, output: 0, audio: 10 },
+    { model: 'gemini-2.5-flash*', input: 0.3, output: 2.5, audio: 0 },
+  ];
+
+  it('matches exact names before later prefixes', () => {
+    expect(priceFor('gemini-2.5-flash-preview-tts', prices)).toBe(prices[0]);
+    expect(priceFor('gemini-2.5-flash-lite', prices)).toBe(prices[1]);
+    expect(priceFor('gpt-4o', prices)).toBeUndefined();
+  });
+
+  it('prices tokens per million and leaves unknown models free', () => {
+    const record = { id: '1', at: 0, sessionId: null, kind: 'speech' as const, inputTokens: 1_000_000, outputTokens: 0, audioTokens: 500_000, latencyMs: 0 };
+    expect(costOf({ ...record, model: 'gemini-2.5-flash-preview-tts' }, prices)).toBe(5.5);
+    expect(costOf({ ...record, model: 'gpt-4o' }, prices)).toBe(0);
+  });
+
+  it('keys days in local time', () => {
+    expect(dayKey(new Date(2026, 0, 5, 23, 59).getTime())).toBe('2026-01-05');
+  });
+});
@@ -0,0 +1,184 @@
+import { ModelPrice, UsageKind, UsageRecord } from "../types";
+import { MuseError } from "./errors";
+import { UsageListener } from "./providers";
+import { loadModelPrices, loadUsageBudget } from "./preferences";
+
+const LOG_KEY = 'muse.usageLog';
+// Oldest calls are dropped past this, which keeps the log to a few hundred KB
+const MAX_RECORDS = 5000;
+// Recent calls of a kind averaged to predict what the next one will cost
+const ESTIMATE_SAMPLE = 20;
+
+export type UsageEvent =
+  | { type: 'recorded'; record: UsageRecord }
+  | { type: 'over-budget'; message: string }; // Only in warn mode; block mode throws instead
+
+let log: UsageRecord[] | null = null;
+let activeSessionId: string | null = null;
+const listeners = new Set<(event: UsageEvent) => void>();
+
+const emit = (event: UsageEvent): void => listeners.forEach(listener => listener(event));
+
+/**
+ * Every recorded call, oldest first.
+ */
+export const loadUsageLog = (): UsageRecord[] => {
+  if (!log) {
+    try {
+      log = JSON.parse(localStorage.getItem(LOG_KEY) || '[]') as UsageRecord[];
+    } catch {
+      log = [];
+    }
+  }
+  return log;
+};
+
+const saveUsageLog = (records: UsageRecord[]): void => {
+  log = records.slice(-MAX_RECORDS);
+  // Outside the browser, e.g. in the batch CLI, the log only lives as long as the process
+  if (typeof localStorage === 'undefined') return;
+  try {
+    localStorage.setItem(LOG_KEY, JSON.stringify(log));
+  } catch (error) {
+    // A full storage quota shouldn't fail the call being recorded
+    console.warn("Couldn't save the usage log", error);
+  }
+};
+
+export const clearUsageLog = (): void => {
+  saveUsageLog([]);
+};
+
+/** Calls from now on are attributed to this story. */
+export const setUsageSession = (id: string | null): void => {
+  activeSessionId = id;
+};
+
+/** Notifies `listener` of every recorded call and budget warning. Returns an unsubscribe function. */
+export const subscribeToUsage = (listener: (event: UsageEvent) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** The first entry of the table matching the model: exactly, or by a prefix ending in *. */
+export const priceFor = (model: string, prices: ModelPrice[]): ModelPrice | undefined =>
+  prices.find(price =>
+    price.model.endsWith('*') ? model.startsWith(price.model.slice(0, -1)) : model === price.model
+  );
+
+/** Estimated cost of a call in US dollars; unpriced models count as free. */
+export const costOf = (record: UsageRecord, prices: ModelPrice[]): number => {
+  const price = priceFor(record.model, prices);
+  if (!price) return 0;
+  return (record.inputTokens * price.input + record.outputTokens * price.output + record.audioTokens * price.audio) / 1_000_000;
+};
+
+/** Calendar day of a timestamp in local time, as YYYY-MM-DD. */
+export const dayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  audioTokens: number;
+  latencyMs: number; // Summed over every call
+  cost: number;
+  unpricedCalls: number; // Calls to models missing from the price table
+}
+
+export const totalUsage = (records: UsageRecord[], prices: ModelPrice[]): UsageTotals =>
+  records.reduce<UsageTotals>((totals, record) => ({
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + record.inputTokens,
+    outputTokens: totals.outputTokens + record.outputTokens,
+    audioTokens: totals.audioTokens + record.audioTokens,
+    latencyMs: totals.latencyMs + record.latencyMs,
+    cost: totals.cost + costOf(record, prices),
+    unpricedCalls: totals.unpricedCalls + (priceFor(record.model, prices) ? 0 : 1),
+  }), { calls: 0, inputTokens: 0, outputTokens: 0, audioTokens: 0, latencyMs: 0, cost: 0, unpricedCalls: 0 });
+
+/**
+ * Totals per group, e.g. per day or per story, in order of each group's latest call (newest first).
+ */
+export const groupUsage = (
+  records: UsageRecord[],
+  keyOf: (record: UsageRecord) => string,
+  prices: ModelPrice[]
+): { key: string; totals: UsageTotals }[] => {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    const group = groups.get(key);
+    if (group) group.push(record);
+    else groups.set(key, [record]);
+  }
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, latest: group[group.length - 1].at, totals: totalUsage(group, prices) }))
+    .sort((a, b) => b.latest - a.latest)
+    .map(({ key, totals }) => ({ key, totals }));
+};
+
+export const formatCost = (dollars: number): string =>
+  dollars > 0 && dollars < 0.01 ? `$${dollars.toFixed(4)}` : `$${dollars.toFixed(2)}`;
+
+// What a call of this kind usually costs, judged by the last few
+const estimateCost = (records: UsageRecord[], kind: UsageKind, prices: ModelPrice[]): number => {
+  const recent = records.filter(record => record.kind === kind).slice(-ESTIMATE_SAMPLE);
+  return recent.length ? totalUsage(recent, prices).cost / recent.length : 0;
+};
+
+// Checks the call against both limits before it is made
+const checkBudget = (kind: UsageKind): void => {
+  const budget = loadUsageBudget();
+  if (!budget.daily && !budget.perStory) return;
+
+  const prices = loadModelPrices();
+  const records = loadUsageLog();
+  const estimate = estimateCost(records, kind, prices);
+  const today = dayKey(Date.now());
+  const spentToday = totalUsage(records.filter(r => dayKey(r.at) === today), prices).cost;
+  const spentOnStory = activeSessionId ? totalUsage(records.filter(r => r.sessionId === activeSessionId), prices).cost : 0;
+
+  let message = '';
+  if (budget.daily && spentToday + estimate > budget.daily) {
+    message = `This call would take today's spending (${formatCost(spentToday)}) past the ${formatCost(budget.daily)} daily budget.`;
+  } else if (budget.perStory && activeSessionId && spentOnStory + estimate > budget.perStory) {
+    message = `This call would take the story's cost (${formatCost(spentOnStory)}) past its ${formatCost(budget.perStory)} budget.`;
+  }
+  if (!message) return;
+
+  if (budget.mode === 'block') throw new MuseError('budget', message);
+  emit({ type: 'over-budget', message });
+};
+
+/**
+ * Call right before a model call and pass the result as its `onUsage`: checks the
+ * call fits the budget (throwing a 'budget' MuseError in block mode), then records
+ * the usage the provider reports, timed from now.
+ */
+export const meterCall = (kind: UsageKind): UsageListener => {
+  checkBudget(kind);
+  const startedAt = Date.now();
+  const sessionId = activeSessionId;
+
+  return (usage) => {
+    const record: UsageRecord = {
+      id: crypto.randomUUID(),
+      at: Date.now(),
+      sessionId,
+      kind,
+      model: usage.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      audioTokens: usage.audioTokens,
+      latencyMs: Date.now() - startedAt,
+    };
+    saveUsageLog([...loadUsageLog(), record]);
+    emit({ type: 'recorded', record });
+  };
+};
@@ -1,13 +1,187 @@
+import { SafetyThresholds } from './services/providers/types';
+
+/**
+ * One message of the co-author chat. Messages form a tree: regenerating a reply or
+ * editing a message adds a sibling, and each message remembers which child is shown.
+ */
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   id: string;
+  parentId?: string | null; // Null for the greeting at the root
+  activeChildId?: string; // The branch shown below this message
+  summary?: string; // Set when the conversation up to here was condensed; sent in its place from then on
+  editIds?: string[]; // Draft edits the co-author proposed in this reply
+  spoken?: boolean; // Said aloud in voice mode; the text is a transcript
+}
+
+/** A change to the draft the co-author can propose. */
+export type DraftEditOperation =
+  | { type: 'insert-paragraph'; afterParagraph: number; text: string } // 0 inserts before the first paragraph
+  | { type: 'replace-text'; find: string; replacement: string }
+  | { type: 'rename-character'; from: string; to: string }
+  | { type: 'append-scene'; text: string };
+
+/** A proposed edit, shown on the draft until the user accepts or rejects it. */
+export interface DraftEdit {
+  id: string;
+  operation: DraftEditOperation;
+  status: 'pending' | 'accepted' | 'rejected';
+}
+
+export type ImageFormat = 'image/jpeg' | 'image/webp';
+
+/** How uploads are downscaled and re-encoded before they reach a model. */
+export interface ImagePreprocessOptions {
+  maxDimension: number; // Longest side, in pixels
+  format: ImageFormat;
+  quality: number; // 0 to 1
 }
 
-export interface StoryState {
-  originalImage: string | null; // Base64
+/** A preprocessed image, ready to send to a model. */
+export interface ImagePayload {
+  base64: string; // Raw base64, without the data URL header
   mimeType: string;
+  width: number; // 0 when unknown (sessions saved before preprocessing)
+  height: number;
+}
+
+/** One frame of a storyboard: an image and the chapter written for it. */
+export interface StoryChapter {
+  id: string;
+  image: ImagePayload;
+  text: string;
+}
+
+/** One page of the illustrated storybook: a scene of the draft and the picture drawn for it. */
+export interface StorybookPage {
+  id: string;
+  text: string;
+  illustration: ImagePayload | null; // Null until drawn, or when drawing failed
+}
+
+/** The draft laid out as a picture book, one generated illustration per scene. */
+export interface Storybook {
+  sourceText: string; // The draft the pages were split from
+  pages: StorybookPage[];
+}
+
+export type StoryBibleKind = 'character' | 'place' | 'object' | 'fact';
+
+/** Something the story has established, fed back into prompts to keep it consistent. */
+export interface StoryBibleEntry {
+  id: string;
+  kind: StoryBibleKind;
+  name: string;
+  details: string;
+  userEdited?: boolean; // Set once the user changes it; extraction leaves it alone from then on
+}
+
+/** A story as saved in the local library. */
+export interface StorySession {
+  id: string;
+  title: string; // Empty until the user renames it
+  image: ImagePayload; // The cover: the only image, or a storyboard's first
+  chapters?: StoryChapter[]; // Present for storyboard stories; generatedText is then their joined text
   generatedText: string;
-  isGenerating: boolean;
-  isPlayingAudio: boolean;
+  messages: ChatMessage[];
+  draftEdits?: DraftEdit[];
+  bible?: StoryBibleEntry[];
+  storybook?: Storybook | null;
+  narration: Uint8Array | null; // Raw 24kHz Int16 PCM
+  narratedText?: string; // The draft the narration was made from
+  narrationSentences?: TimedSentence[];
+  versions?: DraftVersion[];
+  analysis?: SceneAnalysis | null;
+  pinnedDetails?: string[];
+  settings?: StorySettings;
+  model?: string; // Story model that wrote the draft; missing from stories saved before it was recorded
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Structured breakdown of the uploaded image. */
+export interface SceneAnalysis {
+  mood: string;
+  lighting: string;
+  timeOfDay: string;
+  colorPalette: string[]; // Hex colours
+  objects: string[];
+  characters: string[];
+  setting: string;
+  suggestedGenres: string[];
+}
+
+/** Knobs the user controls when generating a story. */
+export interface StorySettings {
+  genre: string;
+  tone: string;
+  pointOfView: string;
+  tense: string;
+  targetWords: number;
+  readingLevel: string;
+  language: string;
+  templateId: string; // Which PromptTemplate compiles these settings
+  variantCount: number; // Takes generated side by side (1 streams straight into the draft)
+}
+
+/** A story instruction with {{variable}} placeholders filled from StorySettings. */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string;
+  builtIn?: boolean;
+}
+
+/** A snapshot of the draft, taken automatically as it changes. */
+export interface DraftVersion {
+  id: string;
+  text: string;
+  label: string; // What produced it, e.g. "Generated" or "Edited"
+  createdAt: number;
+}
+
+/** A sentence of the draft and when it is spoken in the narration, in seconds. */
+export interface TimedSentence {
+  start: number; // Character offsets into the narrated text
+  end: number;
+  startTime: number;
+  endTime: number;
+}
+
+export type UsageKind = 'story' | 'analysis' | 'chat' | 'speech' | 'illustration' | 'voice';
+
+/** One model call, as kept in the local usage log. */
+export interface UsageRecord {
+  id: string;
+  at: number; // When the call finished
+  sessionId: string | null; // Null for calls made before a story was started
+  kind: UsageKind;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  audioTokens: number;
+  latencyMs: number;
+}
+
+/** What a model costs, in US dollars per million tokens. */
+export interface ModelPrice {
+  model: string; // Exact model name, or a prefix ending in *
+  input: number;
+  output: number;
+  audio: number;
+}
+
+/** Spending limits in US dollars; 0 means no limit. */
+export interface UsageBudget {
+  daily: number;
+  perStory: number;
+  mode: 'warn' | 'block'; // What happens when a call would go over
+}
+
+/** The user's safety settings, applied to every model call that produces text or images. */
+export interface SafetySettings {
+  thresholds: SafetyThresholds; // Categories left out use the provider's default
+  kidSafe: boolean; // Blocks at the strictest level and writes for `ageRange`
+  ageRange: string; // One of KID_AGE_RANGES
 }
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { abortableDelay, isAbortError } from "./abort";
+
+describe('abortableDelay', () => {
+  it('resolves after the delay', async () => {
+    await expect(abortableDelay(1)).resolves.toBeUndefined();
+  });
+
+  it('rejects with the abort reason when the signal fires first', async () => {
+    const controller = new AbortController();
+    const delay = abortableDelay(60_000, controller.signal);
+    controller.abort();
+
+    const error = await delay.catch(reason => reason);
+    expect(isAbortError(error)).toBe(true);
+  });
+
+  it('rejects at once for a signal that has already fired', async () => {
+    await expect(abortableDelay(60_000, AbortSignal.abort())).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('isAbortError', () => {
+  it('recognizes errors by name', () => {
+    expect(isAbortError(new DOMException('Stopped', 'AbortError'))).toBe(true);
+    expect(isAbortError(new Error('Stopped'))).toBe(false);
+    expect(isAbortError('AbortError')).toBe(false);
+  });
+});
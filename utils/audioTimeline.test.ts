@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { AudioTimeline } from "./audioTimeline";
+
+interface FakeSource {
+  buffer: { duration: number } | null;
+  playbackRate: { value: number };
+  started?: { when: number; offset: number };
+  stopped: boolean;
+  onended: (() => void) | null;
+}
+
+// Just enough of an AudioContext to see what the timeline schedules, with a clock the test moves
+const fakeContext = () => {
+  const sources: FakeSource[] = [];
+  const gain = { value: 1 };
+  const context = {
+    currentTime: 0,
+    state: 'running',
+    destination: {},
+    createGain: () => ({ gain, connect: () => {} }),
+    createBufferSource: () => {
+      const source: FakeSource & Record<string, unknown> = {
+        buffer: null,
+        playbackRate: { value: 1 },
+        stopped: false,
+        onended: null,
+        connect: () => {},
+        start: (when: number, offset: number) => {
+          source.started = { when, offset };
+        },
+        stop: () => {
+          source.stopped = true;
+        },
+      };
+      sources.push(source);
+      return source;
+    },
+  };
+  const timeline = new AudioTimeline(context as unknown as AudioContext);
+  return { context, timeline, sources, gain };
+};
+
+const seconds = (duration: number) => ({ duration }) as AudioBuffer;
+
+describe('AudioTimeline', () => {
+  it('schedules segments back to back from where playback starts', () => {
+    const { timeline, sources } = fakeContext();
+    timeline.append(seconds(2));
+    timeline.append(seconds(3));
+    timeline.play(1);
+
+    expect(timeline.duration).toBe(5);
+    expect(sources.map(source => source.started)).toEqual([{ when: 0, offset: 1 }, { when: 1, offset: 0 }]);
+  });
+
+  it('leaves out segments that are already behind the start', () => {
+    const { timeline, sources } = fakeContext();
+    timeline.append(seconds(2));
+    timeline.append(seconds(3));
+    timeline.play(2.5);
+
+    expect(sources.map(source => source.started)).toEqual([{ when: 0, offset: 0.5 }]);
+  });
+
+  it('keeps its place across a pause, a seek and a change of speed', () => {
+    const { context, timeline, sources } = fakeContext();
+    timeline.append(seconds(10));
+    timeline.play(0);
+    context.currentTime = 2;
+    timeline.pause();
+    expect(timeline.position).toBe(2);
+    expect(sources[0].stopped).toBe(true);
+
+    timeline.seek(20);
+    expect(timeline.position).toBe(10);
+    timeline.seek(4);
+
+    timeline.play();
+    timeline.setRate(2);
+    context.currentTime = 3;
+    expect(timeline.position).toBe(6);
+    expect(sources[sources.length - 1].playbackRate.value).toBe(2);
+  });
+
+  it('waits at the end for more audio and picks up with the next segment', () => {
+    const { context, timeline, sources } = fakeContext();
+    timeline.append(seconds(1));
+    timeline.play(0);
+    context.currentTime = 3;
+    expect(timeline.position).toBe(1);
+
+    timeline.append(seconds(1));
+    expect(sources[1].started).toEqual({ when: 3, offset: 0 });
+    expect(timeline.position).toBe(1);
+  });
+
+  it('reports the end once it is complete and the last segment has played', () => {
+    const { timeline, sources } = fakeContext();
+    let ended = 0;
+    timeline.onEnded = () => ended++;
+    timeline.append(seconds(1));
+    timeline.play(0);
+    sources[0].onended?.();
+    expect(ended).toBe(0);
+
+    timeline.append(seconds(1));
+    timeline.markComplete();
+    sources[1].onended?.();
+    expect(ended).toBe(1);
+    expect(timeline.isPlaying).toBe(false);
+  });
+
+  it('keeps the volume between silent and full', () => {
+    const { timeline, gain } = fakeContext();
+    timeline.setVolume(1.5);
+    expect(gain.value).toBe(1);
+    timeline.setVolume(-1);
+    expect(gain.value).toBe(0);
+  });
+});
@@ -0,0 +1,152 @@
+interface Segment {
+  buffer: AudioBuffer;
+  start: number; // Seconds from the start of the timeline
+}
+
+/**
+ * Plays a sequence of AudioBuffers as one continuous timeline while more are still
+ * being appended. Playback can start from any point; if it catches up with the end of
+ * what has been appended so far it waits there and resumes when the next segment lands.
+ */
+export class AudioTimeline {
+  private segments: Segment[] = [];
+  private sources: AudioBufferSourceNode[] = [];
+  private playing = false;
+  private complete = false;
+  // Where the timeline was at a given context time; position is extrapolated from here
+  private anchorTime = 0;
+  private anchorPosition = 0;
+  private pausedPosition = 0;
+  private rate = 1;
+  private readonly output: GainNode;
+
+  /** Called once playback reaches the end of a complete timeline. */
+  onEnded: (() => void) | null = null;
+
+  constructor(private readonly ctx: AudioContext) {
+    this.output = ctx.createGain();
+    this.output.connect(ctx.destination);
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /** Seconds of audio appended so far. */
+  get duration(): number {
+    const last = this.segments[this.segments.length - 1];
+    return last ? last.start + last.buffer.duration : 0;
+  }
+
+  get position(): number {
+    if (!this.playing) return this.pausedPosition;
+    const elapsed = (this.ctx.currentTime - this.anchorTime) * this.rate;
+    return Math.min(this.anchorPosition + elapsed, this.duration);
+  }
+
+  append(buffer: AudioBuffer): void {
+    const segment = { buffer, start: this.duration };
+    this.segments.push(segment);
+    if (!this.playing) return;
+
+    if (segment.start < this.anchorPosition + (this.ctx.currentTime - this.anchorTime) * this.rate) {
+      // Playback ran dry waiting for this segment; pick up from it now
+      this.anchorTime = this.ctx.currentTime;
+      this.anchorPosition = segment.start;
+    }
+    this.schedule(segment);
+  }
+
+  /** Marks that no more segments are coming, so reaching the end means finished. */
+  markComplete(): void {
+    this.complete = true;
+    if (this.playing && this.position >= this.duration) this.finish();
+  }
+
+  play(from: number = this.pausedPosition): void {
+    this.stopSources();
+    if (this.ctx.state === 'suspended') {
+      this.ctx.resume();
+    }
+
+    this.playing = true;
+    this.anchorTime = this.ctx.currentTime;
+    this.anchorPosition = Math.max(0, Math.min(from, this.duration));
+    this.segments
+      .filter(segment => segment.start + segment.buffer.duration > this.anchorPosition)
+      .forEach(segment => this.schedule(segment));
+  }
+
+  pause(): void {
+    if (!this.playing) return;
+    this.pausedPosition = this.position;
+    this.playing = false;
+    this.stopSources();
+  }
+
+  /** Jumps to a point in the timeline, keeping the current play/pause state. */
+  seek(time: number): void {
+    const target = Math.max(0, Math.min(time, this.duration));
+    if (this.playing) {
+      this.play(target);
+    } else {
+      this.pausedPosition = target;
+    }
+  }
+
+  /** Changes the playback speed (1 = normal). */
+  setRate(rate: number): void {
+    const position = this.position;
+    this.rate = rate;
+    if (this.playing) this.play(position);
+  }
+
+  setVolume(volume: number): void {
+    this.output.gain.value = Math.max(0, Math.min(1, volume));
+  }
+
+  stop(): void {
+    this.playing = false;
+    this.pausedPosition = 0;
+    this.stopSources();
+  }
+
+  /** Drops every segment; the timeline can be refilled afterwards. */
+  clear(): void {
+    this.stop();
+    this.segments = [];
+    this.complete = false;
+  }
+
+  private schedule(segment: Segment): void {
+    const source = this.ctx.createBufferSource();
+    source.buffer = segment.buffer;
+    source.playbackRate.value = this.rate;
+    source.connect(this.output);
+
+    const offset = Math.max(0, this.anchorPosition - segment.start);
+    const when = this.anchorTime + Math.max(0, segment.start - this.anchorPosition) / this.rate;
+    source.onended = () => {
+      this.sources = this.sources.filter(s => s !== source);
+      const isLast = segment === this.segments[this.segments.length - 1];
+      if (this.playing && isLast && this.complete) this.finish();
+    };
+    source.start(when, offset);
+    this.sources.push(source);
+  }
+
+  private finish(): void {
+    this.playing = false;
+    this.pausedPosition = 0;
+    this.stopSources();
+    this.onEnded?.();
+  }
+
+  private stopSources(): void {
+    for (const source of this.sources) {
+      source.onended = null;
+      source.stop();
+    }
+    this.sources = [];
+  }
+}
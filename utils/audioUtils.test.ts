@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { decodeBase64, encodeBase64, encodeMp3, encodeWav } from "./audioUtils";
+
+describe('base64', () => {
+  it('round-trips every byte value', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(decodeBase64(encodeBase64(bytes))).toEqual(bytes);
+  });
+
+  it('encodes input longer than one slice', () => {
+    const bytes = new Uint8Array(0x8000 * 2 + 3).fill(65);
+    expect(encodeBase64(bytes)).toBe(Buffer.from(bytes).toString('base64'));
+  });
+});
+
+describe('encodeWav', () => {
+  it('wraps the samples in a 44-byte PCM header', () => {
+    const pcm = new Uint8Array([1, 2, 3, 4]);
+    const wav = encodeWav(pcm, 24000, 1);
+    const view = new DataView(wav.buffer);
+    const text = (offset: number) => new TextDecoder().decode(wav.subarray(offset, offset + 4));
+
+    expect([text(0), text(8), text(12), text(36)]).toEqual(['RIFF', 'WAVE', 'fmt ', 'data']);
+    expect(view.getUint32(4, true)).toBe(40);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(48000); // Bytes per second
+    expect(view.getUint32(40, true)).toBe(4);
+    expect(wav.subarray(44)).toEqual(pcm);
+  });
+});
+
+describe('encodeMp3', () => {
+  it('encodes a second of audio as MPEG frames, whatever the byte alignment', () => {
+    const bytes = new Uint8Array(48000 + 1);
+    const mp3 = encodeMp3(bytes.subarray(1), 24000);
+
+    expect(mp3.length).toBeGreaterThan(0);
+    // Every frame opens with eleven set bits
+    expect(mp3[0]).toBe(0xff);
+    expect(mp3[1] & 0xe0).toBe(0xe0);
+  });
+});
@@ -1,3 +1,5 @@
+import { Mp3Encoder } from "@breezystack/lamejs";
+
 export const decodeBase64 = (base64: string): Uint8Array => {
   const binaryString = atob(base64);
   const len = binaryString.length;
@@ -8,6 +10,15 @@ export const decodeBase64 = (base64: string): Uint8Array => {
   return bytes;
 };
 
+export const encodeBase64 = (bytes: Uint8Array): string => {
+  // In slices, since spreading a whole recording into one call overflows the stack
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
 export const decodeAudioData = async (
   data: Uint8Array,
   ctx: AudioContext,
@@ -16,7 +27,7 @@ export const decodeAudioData = async (
 ): Promise<AudioBuffer> => {
   // PCM data from Gemini is often raw Int16 (little endian)
   // We need to convert it to Float32 for the Web Audio API
-  const dataInt16 = new Int16Array(data.buffer);
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
   const frameCount = dataInt16.length / numChannels;
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
 
@@ -29,3 +40,105 @@ export const decodeAudioData = async (
   }
   return buffer;
 };
+
+/**
+ * Converts Float32 samples (e.g. from the microphone) to Int16 PCM at a lower sample rate,
+ * averaging the samples that fold into each output sample.
+ */
+export const downsamplePcm16 = (samples: Float32Array, fromRate: number, toRate: number): Uint8Array => {
+  const ratio = fromRate / toRate;
+  const dataInt16 = new Int16Array(Math.floor(samples.length / ratio));
+
+  for (let i = 0; i < dataInt16.length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.max(start + 1, Math.min(samples.length, Math.floor((i + 1) * ratio)));
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += samples[j];
+    const sample = Math.max(-1, Math.min(1, sum / (end - start)));
+    dataInt16[i] = sample < 0 ? sample * 32768 : sample * 32767;
+  }
+  return new Uint8Array(dataInt16.buffer);
+};
+
+/**
+ * Converts an AudioBuffer back to raw Int16 PCM (little endian, interleaved),
+ * the inverse of decodeAudioData.
+ */
+export const encodePcm16 = (buffer: AudioBuffer): Uint8Array => {
+  const numChannels = buffer.numberOfChannels;
+  const dataInt16 = new Int16Array(buffer.length * numChannels);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < buffer.length; i++) {
+      const sample = Math.max(-1, Math.min(1, channelData[i]));
+      dataInt16[i * numChannels + channel] = sample < 0 ? sample * 32768 : sample * 32767;
+    }
+  }
+  return new Uint8Array(dataInt16.buffer);
+};
+
+/**
+ * Wraps raw Int16 PCM in a WAV (RIFF) container. Pure byte work, so it also runs in Node.
+ */
+export const encodeWav = (
+  pcm: Uint8Array,
+  sampleRate: number = 24000,
+  numChannels: number = 1
+): Uint8Array => {
+  const bytesPerSample = 2;
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // Size of the fmt chunk
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true);
+  view.setUint16(32, numChannels * bytesPerSample, true);
+  view.setUint16(34, 8 * bytesPerSample, true);
+  writeString(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+
+  const wav = new Uint8Array(44 + pcm.byteLength);
+  wav.set(new Uint8Array(header), 0);
+  wav.set(pcm, 44);
+  return wav;
+};
+
+/**
+ * Encodes raw mono Int16 PCM as MP3.
+ */
+export const encodeMp3 = (
+  pcm: Uint8Array,
+  sampleRate: number = 24000,
+  kbps: number = 96
+): Uint8Array => {
+  // Copy so the samples are aligned regardless of where the bytes sit in their buffer
+  const samples = new Int16Array(pcm.slice(0, pcm.byteLength - (pcm.byteLength % 2)).buffer);
+  const encoder = new Mp3Encoder(1, sampleRate, kbps);
+  const parts: Uint8Array[] = [];
+  const blockSize = 1152; // One MPEG frame
+
+  for (let i = 0; i < samples.length; i += blockSize) {
+    const encoded = encoder.encodeBuffer(samples.subarray(i, i + blockSize));
+    if (encoded.length) parts.push(encoded);
+  }
+  const tail = encoder.flush();
+  if (tail.length) parts.push(tail);
+
+  const mp3 = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    mp3.set(part, offset);
+    offset += part.length;
+  }
+  return mp3;
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { ChatMessage } from "../types";
+import {
+  activePath,
+  addMessage,
+  linkTranscript,
+  removeMessage,
+  selectBranch,
+  siblingsOf,
+  splitAtSummary,
+  transcriptOf,
+} from "./chatTree";
+
+const message = (id: string, parentId: string | null, role: ChatMessage['role'] = 'user'): ChatMessage =>
+  ({ id, parentId, role, text: id });
+
+const ids = (messages: ChatMessage[]) => messages.map(m => m.id);
+
+// greeting → q → a, then q2 asked in place of q
+const branched = () => [
+  message('greeting', null, 'model'),
+  message('q', 'greeting'),
+  message('a', 'q', 'model'),
+  message('q2', 'greeting'),
+].reduce(addMessage, [] as ChatMessage[]);
+
+describe('chat tree', () => {
+  it('follows the newest branch after adding messages', () => {
+    const messages = branched();
+    expect(ids(activePath(messages))).toEqual(['greeting', 'q2']);
+    expect(ids(siblingsOf(messages, messages[1]))).toEqual(['q', 'q2']);
+  });
+
+  it('switches to another branch and keeps its replies', () => {
+    const messages = selectBranch(branched(), 'q');
+    expect(ids(activePath(messages))).toEqual(['greeting', 'q', 'a']);
+  });
+
+  it('falls back to the newest sibling when the shown message is removed', () => {
+    const messages = removeMessage(selectBranch(branched(), 'q2'), 'q2');
+    expect(ids(messages)).not.toContain('q2');
+    expect(ids(activePath(messages))).toEqual(['greeting', 'q', 'a']);
+  });
+
+  it('keeps the shown branch when a hidden message is removed', () => {
+    const messages = removeMessage(branched(), 'a');
+    expect(ids(activePath(messages))).toEqual(['greeting', 'q2']);
+    expect(removeMessage(messages, 'missing')).toBe(messages);
+  });
+
+  it('stops at a cycle rather than looping', () => {
+    const messages = [{ ...message('greeting', null, 'model'), activeChildId: 'q' }, { ...message('q', 'greeting'), activeChildId: 'greeting' }];
+    expect(activePath(messages)).toHaveLength(2);
+  });
+
+  it('links a flat transcript into one branch', () => {
+    const flat: ChatMessage[] = [
+      { id: 'greeting', role: 'model', text: 'Hi' },
+      { id: 'q', role: 'user', text: 'Why?' },
+      { id: 'a', role: 'model', text: 'Because.' },
+    ];
+    const linked = linkTranscript(flat);
+    expect(ids(activePath(linked))).toEqual(['greeting', 'q', 'a']);
+    expect(linkTranscript(linked)).toBe(linked);
+  });
+
+  it('leaves the greeting out of the transcript', () => {
+    expect(transcriptOf(activePath(selectBranch(branched(), 'q')))).toEqual([
+      { role: 'user', text: 'q' },
+      { role: 'model', text: 'a' },
+    ]);
+  });
+
+  it('splits at the latest summary', () => {
+    const path = [
+      message('greeting', null, 'model'),
+      { ...message('a', 'greeting', 'model'), summary: 'First.' },
+      { ...message('b', 'a', 'model'), summary: 'Second.' },
+      message('c', 'b'),
+    ];
+    expect(splitAtSummary(path)).toEqual({ summary: 'Second.', index: 2, recent: [path[3]] });
+    expect(splitAtSummary(path.slice(0, 1))).toEqual({ summary: '', index: -1, recent: path.slice(0, 1) });
+  });
+});
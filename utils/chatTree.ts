@@ -0,0 +1,77 @@
+import { ChatMessage } from "../types";
+
+const parentOf = (message: ChatMessage): string | null => message.parentId ?? null;
+
+/**
+ * The conversation as shown: from the root down, following each message's active child.
+ */
+export const activePath = (messages: ChatMessage[]): ChatMessage[] => {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const path: ChatMessage[] = [];
+  let node = messages.find(m => parentOf(m) === null);
+  while (node && path.length < messages.length) {
+    path.push(node);
+    node = node.activeChildId ? byId.get(node.activeChildId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * The alternatives at a message's place in the tree, itself included, oldest first.
+ */
+export const siblingsOf = (messages: ChatMessage[], message: ChatMessage): ChatMessage[] =>
+  messages.filter(m => parentOf(m) === parentOf(message));
+
+/**
+ * Adds a message under its parent and switches to the branch it starts.
+ */
+export const addMessage = (messages: ChatMessage[], message: ChatMessage): ChatMessage[] => [
+  ...messages.map(m => (m.id === message.parentId ? { ...m, activeChildId: message.id } : m)),
+  message,
+];
+
+/**
+ * Shows the branch that starts at the given message.
+ */
+export const selectBranch = (messages: ChatMessage[], id: string): ChatMessage[] => {
+  const parentId = messages.find(m => m.id === id)?.parentId;
+  return messages.map(m => (m.id === parentId ? { ...m, activeChildId: id } : m));
+};
+
+/**
+ * Removes a message that has no replies yet, falling back to its newest sibling.
+ */
+export const removeMessage = (messages: ChatMessage[], id: string): ChatMessage[] => {
+  const removed = messages.find(m => m.id === id);
+  if (!removed) return messages;
+  const rest = messages.filter(m => m.id !== id);
+  const fallback = siblingsOf(rest, removed).pop()?.id;
+  return rest.map(m => (m.id === removed.parentId && m.activeChildId === id ? { ...m, activeChildId: fallback } : m));
+};
+
+/**
+ * Links a flat transcript, saved before conversations could branch, into a single branch.
+ */
+export const linkTranscript = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.some(m => m.parentId !== undefined)
+    ? messages
+    : messages.map((m, i) => ({ ...m, parentId: i ? messages[i - 1].id : null, activeChildId: messages[i + 1]?.id }));
+
+/**
+ * The messages of a path that are actual turns, leaving out the greeting at the root.
+ */
+export const turnsOf = (path: ChatMessage[]): ChatMessage[] => path.filter(m => parentOf(m) !== null);
+
+/**
+ * The shown conversation as model turns, leaving out the greeting at the root.
+ */
+export const transcriptOf = (path: ChatMessage[]): Pick<ChatMessage, 'role' | 'text'>[] =>
+  turnsOf(path).map(m => ({ role: m.role, text: m.text }));
+
+/**
+ * Splits a path at its latest summary: the summary text (or '') and the messages after it.
+ */
+export const splitAtSummary = (path: ChatMessage[]): { summary: string; index: number; recent: ChatMessage[] } => {
+  const index = path.map(m => Boolean(m.summary)).lastIndexOf(true);
+  return { summary: index >= 0 ? path[index].summary! : '', index, recent: path.slice(index + 1) };
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { DiffSegment, diffExcerpt, diffWords } from "./diff";
+
+// Puts a diff back together as one side or the other
+const side = (segments: DiffSegment[], skip: DiffSegment['type']) =>
+  segments.filter(segment => segment.type !== skip).map(segment => segment.text).join('');
+
+describe('diffWords', () => {
+  it('marks changed words and keeps the rest', () => {
+    expect(diffWords('The old keeper slept.', 'The young keeper slept.')).toEqual([
+      { type: 'equal', text: 'The ' },
+      { type: 'delete', text: 'old' },
+      { type: 'insert', text: 'young' },
+      { type: 'equal', text: ' keeper slept.' },
+    ]);
+  });
+
+  it('rebuilds both texts from the segments', () => {
+    const before = 'Rain fell on the pier.\n\nNobody came.';
+    const after = 'Rain fell hard on the empty pier.\n\nSomebody came at last.';
+    const segments = diffWords(before, after);
+    expect(side(segments, 'insert')).toBe(before);
+    expect(side(segments, 'delete')).toBe(after);
+  });
+
+  it('handles empty texts', () => {
+    expect(diffWords('', '')).toEqual([]);
+    expect(diffWords('', 'New.')).toEqual([{ type: 'insert', text: 'New.' }]);
+  });
+});
+
+describe('diffExcerpt', () => {
+  it('shortens the unchanged text around a change', () => {
+    const opening = 'word '.repeat(100);
+    const segments = diffExcerpt(`${opening}old ending.`, `${opening}new ending.`, 20);
+
+    expect(segments[0]).toEqual({ type: 'equal', text: '… ' });
+    expect(segments).toContainEqual({ type: 'delete', text: 'old' });
+    expect(segments).toContainEqual({ type: 'insert', text: 'new' });
+    expect(side(segments, 'insert').length).toBeLessThan(60);
+  });
+
+  it('keeps short texts whole', () => {
+    expect(side(diffExcerpt('A cat.', 'A dog.'), 'delete')).toBe('A dog.');
+  });
+});
@@ -0,0 +1,92 @@
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// Above this many cells the LCS table gets too big; fall back to a whole replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) || [];
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegment['type'], text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+/**
+ * Word-level diff between two texts (longest common subsequence over words and whitespace).
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const segments: DiffSegment[] = [];
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    if (before) segments.push({ type: 'delete', text: before });
+    if (after) segments.push({ type: 'insert', text: after });
+    return segments;
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..], flattened row-major
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      pushSegment(segments, 'delete', a[i++]);
+    } else {
+      pushSegment(segments, 'insert', b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, 'delete', a[i++]);
+  while (j < b.length) pushSegment(segments, 'insert', b[j++]);
+
+  return segments;
+};
+
+/**
+ * Diff of just the part of a text that changed, with a little unchanged context around it.
+ * Long unchanged runs in between are shortened with an ellipsis.
+ */
+export const diffExcerpt = (before: string, after: string, context = 80): DiffSegment[] => {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let end = 0;
+  while (
+    end < before.length - start && end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) end++;
+
+  // Widen to whole words so the word-level diff lines up; both ends sit in text the two share
+  const space = start > context ? before.lastIndexOf(' ', start - context) : -1;
+  const from = space + 1;
+  const to = before.indexOf(' ', before.length - end + context);
+  const beforeEnd = to === -1 ? before.length : to;
+  const afterEnd = beforeEnd + after.length - before.length;
+
+  const segments = diffWords(before.slice(from, beforeEnd), after.slice(from, afterEnd)).map(segment =>
+    segment.type === 'equal' && segment.text.length > context * 2
+      ? { ...segment, text: `${segment.text.slice(0, context)} … ${segment.text.slice(-context)}` }
+      : segment
+  );
+  if (from > 0) segments.unshift({ type: 'equal', text: '… ' });
+  if (beforeEnd < before.length) segments.push({ type: 'equal', text: ' …' });
+  return segments;
+};
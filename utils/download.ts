@@ -0,0 +1,14 @@
+/**
+ * Saves bytes or text as a file through a temporary object URL.
+ */
+export const downloadFile = (data: Uint8Array | string, filename: string, mimeType: string): void => {
+  const blob = new Blob([data as BlobPart], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
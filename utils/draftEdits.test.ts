@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { applyDraftEdit, describeDraftEdit } from "./draftEdits";
+
+const DRAFT = 'The tide came in.\n\nAnn watched it from the pier.\n\nBy annual custom, Ann waited.';
+
+describe('applyDraftEdit', () => {
+  it('inserts a paragraph after the one given', () => {
+    expect(applyDraftEdit(DRAFT, { type: 'insert-paragraph', afterParagraph: 1, text: '  Gulls cried.  ' }))
+      .toBe('The tide came in.\n\nGulls cried.\n\nAnn watched it from the pier.\n\nBy annual custom, Ann waited.');
+  });
+
+  it('clamps the paragraph number to the draft', () => {
+    expect(applyDraftEdit('One.\n\nTwo.', { type: 'insert-paragraph', afterParagraph: -3, text: 'Zero.' })).toBe('Zero.\n\nOne.\n\nTwo.');
+    expect(applyDraftEdit('One.\n\nTwo.', { type: 'insert-paragraph', afterParagraph: 99, text: 'Three.' })).toBe('One.\n\nTwo.\n\nThree.');
+  });
+
+  it('leaves the rest of the draft exactly as it was', () => {
+    const draft = '  Indented.\n   \nTwo,\nstill two.  \n\n\n\nThree.\n';
+    expect(applyDraftEdit(draft, { type: 'insert-paragraph', afterParagraph: 0, text: 'Zero.' }))
+      .toBe('  Zero.\n\nIndented.\n   \nTwo,\nstill two.  \n\n\n\nThree.\n');
+    expect(applyDraftEdit(draft, { type: 'insert-paragraph', afterParagraph: 2, text: 'More.' }))
+      .toBe('  Indented.\n   \nTwo,\nstill two.\n\nMore.  \n\n\n\nThree.\n');
+    expect(applyDraftEdit(draft, { type: 'insert-paragraph', afterParagraph: 3, text: 'Four.' }))
+      .toBe('  Indented.\n   \nTwo,\nstill two.  \n\n\n\nThree.\n\nFour.\n');
+  });
+
+  it('makes an empty draft the new paragraph', () => {
+    expect(applyDraftEdit(' \n', { type: 'insert-paragraph', afterParagraph: 1, text: ' One. ' })).toBe('One.');
+  });
+
+  it('replaces the first match of the text', () => {
+    expect(applyDraftEdit('a cat and a cat', { type: 'replace-text', find: 'cat', replacement: 'dog' })).toBe('a dog and a cat');
+  });
+
+  it('gives up when the text to replace is gone or empty', () => {
+    expect(applyDraftEdit(DRAFT, { type: 'replace-text', find: 'the lighthouse', replacement: 'x' })).toBeNull();
+    expect(applyDraftEdit(DRAFT, { type: 'replace-text', find: '', replacement: 'x' })).toBeNull();
+  });
+
+  it('renames whole words only', () => {
+    expect(applyDraftEdit('Ann, Annual and Ann.', { type: 'rename-character', from: 'Ann', to: 'Bea' })).toBe('Bea, Annual and Bea.');
+  });
+
+  it('treats letters outside ASCII as part of a word', () => {
+    expect(applyDraftEdit('Zoë met Zoëlle.', { type: 'rename-character', from: 'Zoë', to: 'Iris' })).toBe('Iris met Zoëlle.');
+    expect(applyDraftEdit('Éloi and Léo', { type: 'rename-character', from: 'Léo', to: 'Max' })).toBe('Éloi and Max');
+  });
+
+  it('uses the new name as written, even with replacement patterns in it', () => {
+    expect(applyDraftEdit('Ann paid Ann.', { type: 'rename-character', from: 'Ann', to: "$& $1 $' $$Bea" })).toBe("$& $1 $' $$Bea paid $& $1 $' $$Bea.");
+  });
+
+  it('escapes names that look like patterns', () => {
+    expect(applyDraftEdit('Mr. X and MrsX', { type: 'rename-character', from: 'Mr. X', to: 'Y' })).toBe('Y and MrsX');
+  });
+
+  it('gives up when the name is not in the draft', () => {
+    expect(applyDraftEdit('Annual report', { type: 'rename-character', from: 'Ann', to: 'Bea' })).toBeNull();
+    expect(applyDraftEdit(DRAFT, { type: 'rename-character', from: '  ', to: 'Bea' })).toBeNull();
+  });
+
+  it('appends a scene after a blank line', () => {
+    expect(applyDraftEdit('The end.\n\n', { type: 'append-scene', text: 'Or was it?' })).toBe('The end.\n\nOr was it?');
+    expect(applyDraftEdit('  ', { type: 'append-scene', text: ' Once. ' })).toBe('Once.');
+  });
+});
+
+describe('describeDraftEdit', () => {
+  it('summarizes each kind of edit', () => {
+    expect(describeDraftEdit({ type: 'insert-paragraph', afterParagraph: 0, text: '' })).toBe('Insert a paragraph at the start');
+    expect(describeDraftEdit({ type: 'insert-paragraph', afterParagraph: 2, text: '' })).toBe('Insert a paragraph after paragraph 2');
+    expect(describeDraftEdit({ type: 'rename-character', from: 'Ann', to: 'Bea' })).toBe('Rename Ann to Bea');
+    expect(describeDraftEdit({ type: 'append-scene', text: '' })).toBe('Add a scene at the end');
+  });
+
+  it('shortens long replaced text', () => {
+    expect(describeDraftEdit({ type: 'replace-text', find: 'x'.repeat(50), replacement: '' })).toBe(`Replace “${'x'.repeat(40)}…”`);
+  });
+});
@@ -0,0 +1,75 @@
+import { DraftEditOperation } from "../types";
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only, so renaming "Ann" leaves "Annual" alone
+const namePattern = (name: string): RegExp => new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(name)}(?![\\p{L}\\p{N}])`, 'gu');
+
+// Where each paragraph's text starts and ends, leaving out the blank lines around it
+const paragraphSpans = (draft: string): { start: number; end: number }[] => {
+  const spans: { start: number; end: number }[] = [];
+  const separator = /\n\s*\n/g;
+  let from = 0;
+  for (let match = separator.exec(draft); ; match = separator.exec(draft)) {
+    const to = match ? match.index : draft.length;
+    const text = draft.slice(from, to);
+    if (text.trim()) {
+      const start = from + text.length - text.trimStart().length;
+      spans.push({ start, end: from + text.trimEnd().length });
+    }
+    if (!match) return spans;
+    from = match.index + match[0].length;
+  }
+};
+
+/**
+ * Applies an edit to the draft. Returns null when it no longer fits, e.g. the text it
+ * replaces has since been changed by hand.
+ */
+export const applyDraftEdit = (draft: string, operation: DraftEditOperation): string | null => {
+  switch (operation.type) {
+    case 'insert-paragraph': {
+      // Spliced in place, so the rest of the draft keeps its own spacing
+      const paragraphs = paragraphSpans(draft);
+      const text = operation.text.trim();
+      if (!paragraphs.length) return text;
+      const at = Math.max(0, Math.min(paragraphs.length, Math.floor(operation.afterParagraph) || 0));
+      if (at === 0) {
+        const { start } = paragraphs[0];
+        return `${draft.slice(0, start)}${text}\n\n${draft.slice(start)}`;
+      }
+      const { end } = paragraphs[at - 1];
+      return `${draft.slice(0, end)}\n\n${text}${draft.slice(end)}`;
+    }
+    case 'replace-text': {
+      const index = draft.indexOf(operation.find);
+      if (!operation.find || index === -1) return null;
+      return draft.slice(0, index) + operation.replacement + draft.slice(index + operation.find.length);
+    }
+    case 'rename-character': {
+      const pattern = namePattern(operation.from);
+      if (!operation.from.trim() || !pattern.test(draft)) return null;
+      return draft.replace(pattern, () => operation.to);
+    }
+    case 'append-scene':
+      return draft.trim() ? `${draft.trimEnd()}\n\n${operation.text.trim()}` : operation.text.trim();
+  }
+};
+
+/**
+ * One-line summary of an edit, for the review panel and the co-author's own notes.
+ */
+export const describeDraftEdit = (operation: DraftEditOperation): string => {
+  switch (operation.type) {
+    case 'insert-paragraph':
+      return operation.afterParagraph <= 0
+        ? 'Insert a paragraph at the start'
+        : `Insert a paragraph after paragraph ${operation.afterParagraph}`;
+    case 'replace-text':
+      return `Replace “${operation.find.length > 40 ? `${operation.find.slice(0, 40)}…` : operation.find}”`;
+    case 'rename-character':
+      return `Rename ${operation.from} to ${operation.to}`;
+    case 'append-scene':
+      return 'Add a scene at the end';
+  }
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { StoryBibleEntry } from "../types";
+import { bibleKey, mergeStoryBible } from "./storyBible";
+
+const entry = (name: string, details: string, extra: Partial<StoryBibleEntry> = {}): StoryBibleEntry =>
+  ({ id: name, kind: 'character', name, details, ...extra });
+
+describe('bibleKey', () => {
+  it('ignores case and surrounding spaces, but not the kind', () => {
+    expect(bibleKey({ kind: 'character', name: ' Ann ' })).toBe(bibleKey({ kind: 'character', name: 'ann' }));
+    expect(bibleKey({ kind: 'character', name: 'Ann' })).not.toBe(bibleKey({ kind: 'place', name: 'Ann' }));
+  });
+});
+
+describe('mergeStoryBible', () => {
+  it('updates known entries in place and adds new ones at the end', () => {
+    const merged = mergeStoryBible(
+      [entry('Ann', 'A keeper.'), entry('Bo', 'A dog.')],
+      [{ kind: 'character', name: 'ann', details: 'An old keeper.' }, { kind: 'place', name: 'Pier', details: 'Long.' }]
+    );
+
+    expect(merged.map(e => [e.name, e.details])).toEqual([['Ann', 'An old keeper.'], ['Bo', 'A dog.'], ['Pier', 'Long.']]);
+    expect(merged[2].id).toEqual(expect.any(String));
+  });
+
+  it("leaves entries the user edited alone, and keeps details when the update has none", () => {
+    const merged = mergeStoryBible(
+      [entry('Ann', 'My keeper.', { userEdited: true }), entry('Bo', 'A dog.')],
+      [{ kind: 'character', name: 'Ann', details: 'A keeper.' }, { kind: 'character', name: 'Bo', details: '' }]
+    );
+
+    expect(merged.map(e => e.details)).toEqual(['My keeper.', 'A dog.']);
+  });
+
+  it('keeps entries the user deleted out', () => {
+    const merged = mergeStoryBible([], [{ kind: 'character', name: 'Ann', details: '' }], new Set(['character:ann']));
+    expect(merged).toEqual([]);
+  });
+});
@@ -0,0 +1,26 @@
+import { StoryBibleEntry } from "../types";
+
+/** Identifies an entry across extractions: same kind, same name (ignoring case). */
+export const bibleKey = (entry: Pick<StoryBibleEntry, 'kind' | 'name'>): string =>
+  `${entry.kind}:${entry.name.trim().toLowerCase()}`;
+
+/**
+ * Folds freshly extracted entries into the bible. Known entries get the new details
+ * unless the user has edited them; entries in `dismissed` (deleted by the user) stay out.
+ */
+export const mergeStoryBible = (
+  bible: StoryBibleEntry[],
+  extracted: Pick<StoryBibleEntry, 'kind' | 'name' | 'details'>[],
+  dismissed: ReadonlySet<string> = new Set()
+): StoryBibleEntry[] => {
+  const incoming = new Map(extracted.map(entry => [bibleKey(entry), entry]));
+  const merged = bible.map(entry => {
+    const update = incoming.get(bibleKey(entry));
+    incoming.delete(bibleKey(entry));
+    return update && !entry.userEdited && update.details ? { ...entry, details: update.details } : entry;
+  });
+  const added = [...incoming.entries()]
+    .filter(([key]) => !dismissed.has(key))
+    .map(([, entry]) => ({ id: crypto.randomUUID(), ...entry }));
+  return [...merged, ...added];
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { joinChapters, splitParagraphs, splitScenes, splitSentences } from "./text";
+
+describe('splitParagraphs', () => {
+  it('splits on blank lines, including ones with spaces, and drops empty paragraphs', () => {
+    expect(splitParagraphs('\n\nOne.\nStill one.\n \t\nTwo.\n\n\n\n  Three.  \n')).toEqual(['One.\nStill one.', 'Two.', 'Three.']);
+    expect(splitParagraphs('  ')).toEqual([]);
+  });
+});
+
+describe('splitSentences', () => {
+  it('finds each sentence with its offsets, keeping closing quotes', () => {
+    const text = 'He said “Go.” Then left!  Why…\nA line with no stop';
+    const sentences = splitSentences(text);
+
+    expect(sentences.map(sentence => sentence.text)).toEqual(['He said “Go.”', 'Then left!', 'Why…', 'A line with no stop']);
+    for (const sentence of sentences) expect(text.slice(sentence.start, sentence.end)).toBe(sentence.text);
+  });
+});
+
+describe('joinChapters', () => {
+  it('heads each written chapter with its number, skipping ones not written yet', () => {
+    expect(joinChapters([{ text: ' First. ' }, { text: '' }, { text: 'Third.' }])).toBe('Chapter 1\n\nFirst.\n\nChapter 3\n\nThird.');
+  });
+});
+
+describe('splitScenes', () => {
+  const paragraph = (n: number) => `${n}${'x'.repeat(299)}`;
+
+  it('groups whole paragraphs into scenes of similar length, dropping scene breaks', () => {
+    const text = [1, 2, '* * *', 3, 4, 5, 6].map(p => (typeof p === 'number' ? paragraph(p) : p)).join('\n\n');
+    const scenes = splitScenes(text, 3);
+
+    expect(scenes.map(scene => scene.split('\n\n').map(p => p[0]))).toEqual([['1', '2'], ['3', '4'], ['5', '6']]);
+  });
+
+  it('keeps short drafts on one page', () => {
+    expect(splitScenes('One.\n\nTwo.', 4)).toEqual(['One.\n\nTwo.']);
+  });
+
+  it('folds a short tail into the scene before it', () => {
+    const scenes = splitScenes(`${paragraph(1)}\n\n${paragraph(2)}\n\nThe end.`, 4);
+    expect(scenes).toHaveLength(1);
+    expect(scenes[0]).toMatch(/^1x+\n\n2x+\n\nThe end\.$/);
+  });
+});
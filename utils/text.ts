@@ -0,0 +1,75 @@
+/**
+ * Splits prose on blank lines, dropping empty paragraphs.
+ */
+export const splitParagraphs = (text: string): string[] =>
+  text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+/** A run of text and where it sits in the source string. */
+export interface TextSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// A sentence starts at a non-space character and runs to its terminal punctuation
+// (plus any closing quotes or brackets), a line break, or the end of the text.
+const SENTENCE_PATTERN = /[^\s][^.!?…\n]*(?:[.!?…]+["'”’)\]]*|(?=\n)|$)/g;
+
+/**
+ * Splits prose into sentences, keeping their offsets so they can be highlighted in place.
+ */
+export const splitSentences = (text: string): TextSpan[] =>
+  Array.from(text.matchAll(SENTENCE_PATTERN), match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    text: match[0],
+  }));
+
+/**
+ * Lowercase, dash-separated form of a title, safe to use in file names.
+ */
+export const slugify = (title: string): string =>
+  title.toLowerCase().normalize('NFKD').replace(/[^\w\s-]/g, '').trim().replace(/[\s_-]+/g, '-').slice(0, 60) || 'story';
+
+/**
+ * Joins storyboard chapters into one draft, each under a "Chapter N" heading.
+ * Chapters not written yet are left out but keep their number.
+ */
+export const joinChapters = (chapters: { text: string }[]): string =>
+  chapters
+    .flatMap((chapter, i) => (chapter.text.trim() ? [`Chapter ${i + 1}\n\n${chapter.text.trim()}`] : []))
+    .join('\n\n');
+
+// Lines that only mark a scene break, e.g. "***" or "* * *"
+const SCENE_BREAK = /^(?:[*#~-]\s*){1,5}$/;
+// Scenes shorter than this are merged with the next, so short drafts get fewer pages
+const MIN_SCENE_CHARS = 400;
+
+/**
+ * Splits prose into at most `maxScenes` runs of whole paragraphs of similar length,
+ * for pages of a picture book. Scene break markers are dropped.
+ */
+export const splitScenes = (text: string, maxScenes: number): string[] => {
+  const paragraphs = splitParagraphs(text).filter(p => !SCENE_BREAK.test(p));
+  const total = paragraphs.reduce((sum, p) => sum + p.length, 0);
+  const target = Math.max(MIN_SCENE_CHARS, total / maxScenes);
+
+  const scenes: string[][] = [];
+  let current: string[] = [];
+  let length = 0;
+  for (const paragraph of paragraphs) {
+    current.push(paragraph);
+    length += paragraph.length;
+    if (length >= target) {
+      scenes.push(current);
+      current = [];
+      length = 0;
+    }
+  }
+  // A short tail joins the scene before it rather than making a thin last page
+  if (current.length) {
+    if (scenes.length && (scenes.length >= maxScenes || length < target / 2)) scenes[scenes.length - 1].push(...current);
+    else scenes.push(current);
+  }
+  return scenes.map(scene => scene.join('\n\n'));
+};
@@ -0,0 +1,93 @@
+import { crc32 } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { exportStory } from "../services/storyExport";
+import { createZip } from "./zip";
+
+interface ReadEntry {
+  path: string;
+  method: number;
+  crc: number;
+  offset: number;
+  data: Uint8Array;
+}
+
+// Reads an archive through its central directory, checking each entry against its local header
+const readZip = (zip: Uint8Array): ReadEntry[] => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  expect(position + view.getUint32(end + 12, true)).toBe(end);
+
+  const decoder = new TextDecoder();
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const path = decoder.decode(zip.subarray(position + 46, position + 46 + nameLength));
+    const size = view.getUint32(position + 24, true);
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(view.getUint32(offset + 14, true)).toBe(view.getUint32(position + 16, true));
+    expect(decoder.decode(zip.subarray(offset + 30, offset + 30 + nameLength))).toBe(path);
+    // No extra field, so the data follows the name directly
+    expect(view.getUint16(offset + 28, true)).toBe(0);
+    const start = offset + 30 + nameLength;
+    entries.push({ path, method: view.getUint16(offset + 8, true), crc: view.getUint32(offset + 14, true), offset, data: zip.subarray(start, start + size) });
+    position += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('createZip', () => {
+  it('stores each entry uncompressed, in order, with its checksum', () => {
+    const bytes = new Uint8Array([0, 1, 2, 255]);
+    const entries = readZip(createZip([
+      { path: 'notes.txt', data: 'Héllo' },
+      { path: 'images/cover.png', data: bytes },
+      { path: 'empty', data: '' },
+    ]));
+
+    expect(entries.map(entry => entry.path)).toEqual(['notes.txt', 'images/cover.png', 'empty']);
+    expect(entries.every(entry => entry.method === 0)).toBe(true);
+    expect(new TextDecoder().decode(entries[0].data)).toBe('Héllo');
+    expect(entries[1].data).toEqual(bytes);
+    for (const entry of entries) expect(entry.crc).toBe(crc32(entry.data));
+  });
+
+  it('writes the modification time in DOS format', () => {
+    const zip = createZip([{ path: 'a', data: 'a' }], new Date(2024, 4, 17, 13, 45, 31));
+    const view = new DataView(zip.buffer);
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (5 << 5) | 17);
+  });
+
+  it('makes an empty archive of just the end record', () => {
+    expect(readZip(createZip([]))).toEqual([]);
+  });
+});
+
+describe('EPUB export', () => {
+  it('starts with the mimetype file, stored, as readers require', () => {
+    const session = {
+      id: 'story-1',
+      title: 'The Lighthouse',
+      image: { base64: 'iVBORw0KGgo=', mimeType: 'image/png', width: 1, height: 1 },
+      generatedText: 'The tide came in.\n\nThe keeper waited.',
+      messages: [],
+      narration: null,
+      createdAt: 0,
+      updatedAt: 0,
+    };
+    const { data } = exportStory(session, 'epub', { model: 'mock-story', includeChat: false, includeNarration: false });
+    const zip = data as Uint8Array;
+    const [first, ...rest] = readZip(zip);
+
+    expect(first).toMatchObject({ path: 'mimetype', method: 0, offset: 0 });
+    // The mimetype's bytes sit at a fixed offset, right after its name
+    expect(new TextDecoder().decode(zip.subarray(38, 38 + 20))).toBe('application/epub+zip');
+    expect(rest.map(entry => entry.path)).toContain('OEBPS/content.opf');
+  });
+});
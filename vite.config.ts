@@ -8,12 +8,16 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // API keys stay with the Muse server (npm run server); the browser only sees /api
+        proxy: {
+          '/api': {
+            target: `http://localhost:${env.MUSE_SERVER_PORT || 8787}`,
+            xfwd: true,
+            ws: true, // Live voice sessions
+          },
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),